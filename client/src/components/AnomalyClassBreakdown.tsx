@@ -0,0 +1,63 @@
+import { Lightbulb } from 'lucide-react';
+import { ANOMALY_CLASSES, getTopAnomalyClass, type AnomalyClassScores } from '@/lib/anomaly-classes';
+import type { SeverityBand } from '@/lib/anomaly-severity';
+
+interface AnomalyClassBreakdownProps {
+  scores: AnomalyClassScores;
+  /** Severity band of the overall score; alert bands show the guidance */
+  severity: SeverityBand;
+}
+
+/**
+ * AnomalyClassBreakdown Component
+ *
+ * Per-class anomaly scores as bars, and plain-language guidance for the
+ * most likely fault once an anomaly is detected. Renders nothing for
+ * firmware that only reports the overall score.
+ */
+export function AnomalyClassBreakdown({ scores, severity }: AnomalyClassBreakdownProps) {
+  const top = getTopAnomalyClass(scores);
+  if (!top) return null;
+  const anomalyDetected = severity.alert;
+
+  return (
+    <div className="mb-3">
+      <p className="text-xs text-muted-foreground mb-2">Fault classes</p>
+      <div className="space-y-1.5">
+        {ANOMALY_CLASSES.filter((info) => scores[info.id] !== undefined).map((info) => {
+          const score = scores[info.id] ?? 0;
+          const isTop = info.id === top.info.id;
+          return (
+            <div key={info.id} className="flex items-center gap-2">
+              <span className={`w-28 text-xs ${isTop ? 'font-medium text-foreground' : 'text-muted-foreground'}`}>
+                {info.label}
+              </span>
+              <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-300 ${isTop && anomalyDetected ? '' : 'bg-accent'}`}
+                  style={{
+                    width: `${score}%`,
+                    backgroundColor: isTop && anomalyDetected ? severity.color : undefined,
+                  }}
+                />
+              </div>
+              <span className="w-10 text-right text-xs font-mono text-foreground">{score}%</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {anomalyDetected && (
+        <div className="mt-3 p-3 rounded-lg bg-yellow-50 border border-yellow-200 flex gap-2">
+          <Lightbulb className="w-4 h-4 text-yellow-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-yellow-800">
+              Likely cause: {top.info.label} ({top.score}%)
+            </p>
+            <p className="text-xs text-yellow-700 mt-0.5">{top.info.guidance}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
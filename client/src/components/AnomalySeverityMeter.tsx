@@ -0,0 +1,45 @@
+import type { SeverityBand, SeverityConfig } from '@/lib/anomaly-severity';
+
+interface AnomalySeverityMeterProps {
+  /** Anomaly score (%) */
+  value: number;
+  /** Band reported by the telemetry stream */
+  severity: SeverityBand;
+  config: SeverityConfig;
+}
+
+/**
+ * AnomalySeverityMeter Component
+ *
+ * Anomaly score with its severity band, as a bar in the band color with a
+ * tick at each band threshold. The band comes from the telemetry stream
+ * (with hysteresis and dwell time), not from the raw score, so the meter
+ * agrees with the LED.
+ */
+export function AnomalySeverityMeter({ value, severity, config }: AnomalySeverityMeterProps) {
+  return (
+    <div className="mb-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-2xl font-mono font-bold text-foreground">{value}%</span>
+        <span className="text-xs font-medium" style={{ color: severity.color }}>
+          {severity.label}
+        </span>
+      </div>
+
+      <div className="relative w-full h-3 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full transition-all duration-300"
+          style={{ width: `${value}%`, backgroundColor: severity.color }}
+        />
+        {config.bands.slice(1).map((band) => (
+          <div
+            key={band.id}
+            className="absolute top-0 h-full w-px bg-foreground/30"
+            style={{ left: `${band.threshold}%` }}
+            title={`${band.label} from ${band.threshold}%`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { Ear, Vibrate } from 'lucide-react';
+import {
+  ANOMALY_SOURCE_LABELS,
+  summarizeAnomalySamples,
+  type AnomalyHistory,
+  type AnomalySample,
+} from '@/lib/anomaly-history';
+import type { AnomalySource } from '@/lib/device-capabilities';
+
+interface AnomalySourcePanelProps {
+  /** Source reported in the latest telemetry, null if not reported */
+  activeSource: AnomalySource | null;
+  history: AnomalyHistory;
+  /** Sources the connected firmware offers */
+  availableSources: readonly AnomalySource[];
+  /** Switch the detector; omitted when switching is not possible */
+  onSelect?: (source: AnomalySource) => void;
+}
+
+const SOURCE_ICONS: Record<AnomalySource, typeof Ear> = {
+  imu: Vibrate,
+  audio: Ear,
+};
+
+const SOURCES: AnomalySource[] = ['imu', 'audio'];
+
+/**
+ * AnomalySourcePanel Component
+ *
+ * Shows which detector produces the anomaly score, lets the operator switch
+ * it, and plots the recent scores of each source separately.
+ */
+export function AnomalySourcePanel({ activeSource, history, availableSources, onSelect }: AnomalySourcePanelProps) {
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-muted-foreground">Detector</span>
+        <div className="flex rounded-md border border-border overflow-hidden">
+          {SOURCES.map((source) => {
+            const Icon = SOURCE_ICONS[source];
+            const active = source === activeSource;
+            return (
+              <button
+                key={source}
+                onClick={() => onSelect?.(source)}
+                disabled={!onSelect || active || !availableSources.includes(source)}
+                title={ANOMALY_SOURCE_LABELS[source]}
+                className={`flex items-center gap-1 px-3 py-1 text-xs font-medium transition-colors disabled:cursor-not-allowed ${
+                  active
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-white text-muted-foreground hover:bg-secondary disabled:opacity-50'
+                }`}
+              >
+                <Icon className="w-3 h-3" />
+                {source.toUpperCase()}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      {activeSource === null && (
+        <p className="text-xs text-muted-foreground mb-2">Firmware does not report the detector source</p>
+      )}
+
+      <div className="space-y-2">
+        {SOURCES.filter((source) => history[source].length > 0).map((source) => {
+          const summary = summarizeAnomalySamples(history[source]);
+          return (
+            <div key={source} className="flex items-center gap-3">
+              <span className={`w-12 text-xs font-medium ${source === activeSource ? 'text-foreground' : 'text-muted-foreground'}`}>
+                {source.toUpperCase()}
+              </span>
+              <Sparkline samples={history[source]} active={source === activeSource} />
+              <span className="text-xs font-mono text-muted-foreground whitespace-nowrap">
+                avg {summary.average?.toFixed(0)}% · peak {summary.peak}%
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function Sparkline({ samples, active }: { samples: readonly AnomalySample[]; active: boolean }) {
+  const width = 120;
+  const height = 24;
+  const points = samples
+    .map((sample, index) => {
+      const x = samples.length > 1 ? (index / (samples.length - 1)) * width : width;
+      const y = height - (Math.min(100, sample.value) / 100) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="flex-1 h-6" preserveAspectRatio="none">
+      <polyline
+        points={points}
+        fill="none"
+        strokeWidth={1.5}
+        className={active ? 'stroke-accent' : 'stroke-muted-foreground opacity-50'}
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,72 @@
+import { Check, CheckCheck, Loader2, Minus, X } from 'lucide-react';
+import type { CommandRecord, CommandStatus } from '@/lib/command-ack';
+
+interface CommandStatusListProps {
+  commands: CommandRecord[];
+  /** Number of most recent commands shown (default: 5) */
+  limit?: number;
+}
+
+const STATUS_LABELS: Record<CommandStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  sent: 'Sent (no ack)',
+  failed: 'Failed',
+  superseded: 'Superseded',
+};
+
+function StatusIcon({ status }: { status: CommandStatus }) {
+  switch (status) {
+    case 'pending':
+      return <Loader2 className="w-3 h-3 animate-spin text-yellow-600" />;
+    case 'confirmed':
+      return <CheckCheck className="w-3 h-3 text-green-600" />;
+    case 'sent':
+      return <Check className="w-3 h-3 text-muted-foreground" />;
+    case 'failed':
+      return <X className="w-3 h-3 text-destructive" />;
+    case 'superseded':
+      return <Minus className="w-3 h-3 text-muted-foreground" />;
+  }
+}
+
+/**
+ * CommandStatusList Component
+ *
+ * Shows the most recent commands with their acknowledgement state
+ * (pending, confirmed, sent without ack, failed or superseded).
+ */
+export function CommandStatusList({ commands, limit = 5 }: CommandStatusListProps) {
+  if (commands.length === 0) return null;
+
+  const recent = commands.slice(-limit).reverse();
+
+  return (
+    <div className="mt-6 pt-6 border-t border-border">
+      <p className="text-sm font-medium text-muted-foreground mb-2">Recent Commands</p>
+      <div className="space-y-1">
+        {recent.map((record) => (
+          <div key={record.id} className="flex items-center gap-2 text-xs">
+            <StatusIcon status={record.status} />
+            <span
+              className={`font-mono text-foreground ${
+                record.status === 'superseded' ? 'line-through opacity-60' : ''
+              }`}
+            >
+              {record.command}
+            </span>
+            <span className="text-muted-foreground">
+              {STATUS_LABELS[record.status]}
+              {record.attempts > 1 && ` · ${record.attempts} attempts`}
+            </span>
+            {record.status === 'failed' && record.error && (
+              <span className="ml-auto truncate text-destructive" title={record.error}>
+                {record.error}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { ConnectionTransition } from '@/lib/connection-machine';
+
+interface ConnectionHistoryProps {
+  history: readonly ConnectionTransition[];
+  /** Number of most recent transitions shown (default: 10) */
+  limit?: number;
+}
+
+/**
+ * ConnectionHistory Component
+ *
+ * Collapsible log of recent connection lifecycle transitions,
+ * newest first, with the reason for failures and link losses.
+ */
+export function ConnectionHistory({ history, limit = 10 }: ConnectionHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const entries = history.slice(-limit).reverse();
+
+  return (
+    <div className="mt-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+      >
+        {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        Connection history ({history.length})
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 max-h-48 overflow-y-auto space-y-1 font-mono text-xs">
+          {entries.length === 0 ? (
+            <p className="text-muted-foreground">No transitions yet</p>
+          ) : (
+            entries.map((entry, index) => (
+              <div key={`${entry.at}-${index}`} className="text-muted-foreground">
+                <span className="mr-2">{new Date(entry.at).toLocaleTimeString()}</span>
+                <span className="text-foreground">
+                  {entry.from} → {entry.to}
+                </span>
+                <span className="ml-1">({entry.event})</span>
+                {entry.error && <p className="pl-4 text-destructive">{entry.error}</p>}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
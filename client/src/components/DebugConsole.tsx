@@ -4,7 +4,8 @@ import { ChevronUp, Trash2, Copy } from 'lucide-react';
 export interface DebugMessage {
   id: string;
   timestamp: number;
-  type: 'sent' | 'received';
+  /** 'rejected' and 'warning' entries are parser diagnostics */
+  type: 'sent' | 'received' | 'rejected' | 'warning';
   data: string;
   raw?: Uint8Array;
 }
@@ -14,10 +15,18 @@ interface DebugConsoleProps {
   onClear?: () => void;
 }
 
+const MESSAGE_STYLES: Record<DebugMessage['type'], { label: string; className: string }> = {
+  sent: { label: '→ SENT', className: 'text-blue-300 bg-blue-900/20' },
+  received: { label: '← RECV', className: 'text-green-300 bg-green-900/20' },
+  rejected: { label: '✕ REJECT', className: 'text-red-300 bg-red-900/40 border-l-2 border-red-500' },
+  warning: { label: '! WARN', className: 'text-amber-300 bg-amber-900/30 border-l-2 border-amber-500' },
+};
+
 /**
  * DebugConsole Component
  * 
- * Displays BLE SPP messages (sent and received) for debugging purposes.
+ * Displays BLE SPP messages (sent and received) for debugging purposes,
+ * with lines rejected by the telemetry parser highlighted.
  * Can be toggled open/closed with a small button.
  */
 export function DebugConsole({ messages, onClear }: DebugConsoleProps) {
@@ -99,16 +108,12 @@ export function DebugConsole({ messages, onClear }: DebugConsoleProps) {
                 {messages.map((msg) => (
                   <div
                     key={msg.id}
-                    className={`py-1 px-2 rounded ${
-                      msg.type === 'sent'
-                        ? 'text-blue-300 bg-blue-900/20'
-                        : 'text-green-300 bg-green-900/20'
-                    }`}
+                    className={`py-1 px-2 rounded ${MESSAGE_STYLES[msg.type].className}`}
                   >
                     <span className="text-gray-500">[{new Date(msg.timestamp).toLocaleTimeString()}]</span>
                     {' '}
                     <span className="font-semibold">
-                      {msg.type === 'sent' ? '→ SENT' : '← RECV'}
+                      {MESSAGE_STYLES[msg.type].label}
                     </span>
                     {': '}
                     <span className="break-words">{msg.data}</span>
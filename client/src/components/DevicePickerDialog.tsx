@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { Bluetooth, Loader2, Signal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { deviceChooser, type DeviceChooser, type DeviceChooserState } from '@/lib/device-chooser';
+import { attachElectronDeviceChooser, isElectronBluetoothAvailable } from '@/lib/electron-ipc-transport';
+
+interface DevicePickerDialogProps {
+  chooser?: DeviceChooser;
+}
+
+/**
+ * DevicePickerDialog Component
+ *
+ * In-app BLE device chooser. Opens whenever a device request is pending
+ * (Electron's select-bluetooth-device or a native scan), lists the
+ * discovered boards as they appear and lets the user pick, remember or cancel.
+ */
+export function DevicePickerDialog({ chooser = deviceChooser }: DevicePickerDialogProps) {
+  const [state, setState] = useState<DeviceChooserState>(chooser.getState());
+  const [remember, setRemember] = useState(false);
+  const [remembered, setRemembered] = useState(chooser.getRememberedDevice());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => chooser.subscribe(setState), [chooser]);
+
+  // Route Electron's select-bluetooth-device requests to this picker
+  useEffect(() => {
+    if (!isElectronBluetoothAvailable()) return;
+    return attachElectronDeviceChooser(chooser);
+  }, [chooser]);
+
+  // Tick the timeout countdown while open
+  useEffect(() => {
+    if (!state.open) return;
+    setRemembered(chooser.getRememberedDevice());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state.open, chooser]);
+
+  const secondsLeft = state.deadline ? Math.max(0, Math.ceil((state.deadline - now) / 1000)) : 0;
+
+  const forgetDevice = () => {
+    chooser.forgetDevice();
+    setRemembered(null);
+  };
+
+  return (
+    <Dialog open={state.open} onOpenChange={(open) => !open && chooser.cancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bluetooth className="w-5 h-5 text-accent" />
+            Select Device
+          </DialogTitle>
+          <DialogDescription>
+            Choose the motor control board to connect to. Closes in {secondsLeft}s.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-64 overflow-y-auto space-y-2">
+          {state.devices.length === 0 ? (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Scanning for devices...
+            </div>
+          ) : (
+            state.devices.map((device) => (
+              <button
+                key={device.id}
+                onClick={() => chooser.select(device.id, remember)}
+                className="w-full flex items-center justify-between gap-3 rounded-lg border border-border px-4 py-3 text-left transition-colors hover:bg-secondary"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground truncate">{device.name}</p>
+                  <p className="text-xs font-mono text-muted-foreground truncate">{device.id}</p>
+                </div>
+                <div className="flex items-center gap-1 text-xs font-mono text-muted-foreground flex-shrink-0">
+                  <Signal className="w-3 h-3" />
+                  {device.rssi !== undefined ? `${device.rssi} dBm` : '—'}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <Checkbox checked={remember} onCheckedChange={(checked) => setRemember(checked === true)} />
+            Remember this device
+          </label>
+          {remembered && (
+            <button onClick={forgetDevice} className="text-xs text-muted-foreground underline">
+              Forget {remembered.name}
+            </button>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => chooser.cancel()}>
+            Cancel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+import { Cpu, Loader2 } from 'lucide-react';
+import type { DeviceCapabilities } from '@/lib/device-capabilities';
+
+interface FirmwareInfoPanelProps {
+  /** Capabilities from the handshake, null while it is running */
+  capabilities: DeviceCapabilities | null;
+  /** Speed formatter for the display units (default: rad/s) */
+  formatSpeed?: (radPerSec: number) => string;
+}
+
+/**
+ * FirmwareInfoPanel Component
+ *
+ * Shows the firmware version and capabilities reported by the board
+ * during the connect handshake.
+ */
+export function FirmwareInfoPanel({
+  capabilities,
+  formatSpeed = (radPerSec) => `${radPerSec} rad/s`,
+}: FirmwareInfoPanelProps) {
+  const rows: Array<[string, string]> = capabilities
+    ? [
+        ['Firmware', capabilities.firmwareVersion ?? 'Unknown'],
+        ['Protocol', `v${capabilities.protocolVersion}`],
+        ['Max speed', formatSpeed(capabilities.maxSpeed)],
+        ['Min speed', capabilities.minSpeed > 0 ? formatSpeed(capabilities.minSpeed) : '—'],
+        ['Speed step', `${capabilities.speedResolution} rad/s`],
+        ['Commands', capabilities.commands.join(', ') || '—'],
+        ['Anomaly sources', capabilities.anomalySources.join(', ') || '—'],
+        [
+          'Acknowledgements',
+          capabilities.acknowledgements === null ? 'Auto-detect' : capabilities.acknowledgements ? 'Yes' : 'No',
+        ],
+      ]
+    : [];
+
+  return (
+    <div className="mt-8 bg-white rounded-xl p-6 shadow-sm border border-border">
+      <h2 className="text-lg font-bold text-primary mb-4 flex items-center gap-2">
+        <Cpu className="w-5 h-5 text-accent" />
+        Firmware
+      </h2>
+
+      {!capabilities ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Reading device info...
+        </div>
+      ) : (
+        <>
+          {capabilities.legacy && (
+            <p className="mb-3 text-xs text-muted-foreground">
+              Firmware did not answer the capability query; using defaults.
+            </p>
+          )}
+          <dl className="space-y-2 text-sm">
+            {rows.map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-4">
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="font-mono text-foreground text-right">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  DEFAULT_INTERLOCK_CONFIG,
+  INTERLOCK_RULE_LABELS,
+  validateInterlockConfig,
+  type InterlockConfig,
+  type InterlockRule,
+} from '@/lib/safety-interlock';
+
+interface InterlockSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  config: InterlockConfig;
+  /** Device maximum speed (rad/s), the speed limit while none is set */
+  maxSpeed: number;
+  onSave: (config: InterlockConfig) => void;
+}
+
+/**
+ * InterlockSettingsDialog Component
+ *
+ * Rules of the host-side safety interlock: which conditions trip it and
+ * their thresholds.
+ */
+export function InterlockSettingsDialog({ open, onOpenChange, config, maxSpeed, onSave }: InterlockSettingsDialogProps) {
+  const [draft, setDraft] = useState<InterlockConfig>(config);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the applied rules whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(config);
+      setError(null);
+    }
+  }, [open, config]);
+
+  const updateRule = <K extends InterlockRule>(rule: K, changes: Partial<InterlockConfig[K]>) => {
+    setDraft((prev) => ({ ...prev, [rule]: { ...prev[rule], ...changes } }));
+  };
+
+  const save = () => {
+    const invalid = validateInterlockConfig(draft);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    onSave(draft);
+    onOpenChange(false);
+  };
+
+  const ruleRow = (rule: InterlockRule, children?: ReactNode) => (
+    <div className="flex items-center gap-3 text-sm">
+      <Switch checked={draft[rule].enabled} onCheckedChange={(enabled) => updateRule(rule, { enabled })} />
+      <span className="w-32 font-medium text-foreground">{INTERLOCK_RULE_LABELS[rule]}</span>
+      <div className="flex flex-1 items-center gap-2 text-muted-foreground">{children}</div>
+    </div>
+  );
+
+  const numberInput = (value: number, onChange: (value: number) => void, disabled: boolean, step = 1) => (
+    <Input
+      type="number"
+      min={0}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={(event) => onChange(Number(event.target.value))}
+      className="w-20 h-8"
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-accent" />
+            Safety Interlock
+          </DialogTitle>
+          <DialogDescription>
+            Conditions that stop the motor from this computer, whether or not the firmware auto-shutoff is on.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {ruleRow(
+            'anomaly',
+            <>
+              above
+              {numberInput(draft.anomaly.threshold, (threshold) => updateRule('anomaly', { threshold }), !draft.anomaly.enabled)}
+              % for
+              {numberInput(
+                draft.anomaly.durationMs / 1000,
+                (seconds) => updateRule('anomaly', { durationMs: seconds * 1000 }),
+                !draft.anomaly.enabled,
+                0.5
+              )}
+              s
+            </>
+          )}
+          {ruleRow('error', <>status Error</>)}
+          {ruleRow(
+            'overspeed',
+            <>
+              above
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                value={draft.overspeed.limit ?? ''}
+                placeholder={String(maxSpeed)}
+                disabled={!draft.overspeed.enabled}
+                onChange={(event) =>
+                  updateRule('overspeed', { limit: event.target.value === '' ? null : Number(event.target.value) })
+                }
+                className="w-20 h-8"
+              />
+              rad/s (empty: device max {maxSpeed})
+            </>
+          )}
+          {ruleRow(
+            'stale',
+            <>
+              none for
+              {numberInput(
+                draft.stale.timeoutMs / 1000,
+                (seconds) => updateRule('stale', { timeoutMs: seconds * 1000 }),
+                !draft.stale.enabled,
+                0.5
+              )}
+              s while running
+            </>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setDraft(DEFAULT_INTERLOCK_CONFIG)}>
+            Defaults
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
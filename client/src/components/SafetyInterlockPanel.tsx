@@ -0,0 +1,134 @@
+import { Download, ShieldAlert, ShieldCheck, SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { useSafetyInterlock } from '@/hooks/useSafetyInterlock';
+import { INTERLOCK_RULE_LABELS, type InterlockRule, type InterlockTrip } from '@/lib/safety-interlock';
+
+interface SafetyInterlockPanelProps {
+  interlock: ReturnType<typeof useSafetyInterlock>;
+  connected: boolean;
+  /** Open the rule settings */
+  onConfigure: () => void;
+}
+
+const RULES = Object.keys(INTERLOCK_RULE_LABELS) as InterlockRule[];
+
+/**
+ * SafetyInterlockPanel Component
+ *
+ * State of the host-side safety interlock, the enabled rules and the log of
+ * trips with the telemetry frames that led up to each.
+ */
+export function SafetyInterlockPanel({ interlock, connected, onConfigure }: SafetyInterlockPanelProps) {
+  const { config, trip, log, acknowledge } = interlock;
+  const enabledRules = RULES.filter((rule) => config[rule].enabled);
+
+  const exportLog = () => {
+    const blob = new Blob([JSON.stringify(log, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `interlock-trips-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mt-8 bg-white rounded-xl p-6 shadow-sm border border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-primary flex items-center gap-2">
+          {trip ? <ShieldAlert className="w-5 h-5 text-destructive" /> : <ShieldCheck className="w-5 h-5 text-accent" />}
+          Safety Interlock
+        </h2>
+        <button
+          onClick={onConfigure}
+          className="p-1 rounded text-muted-foreground hover:text-foreground"
+          title="Interlock rules"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
+      </div>
+
+      {trip ? (
+        <div className="mb-4 rounded-lg border border-destructive/20 bg-destructive/10 p-3">
+          <p className="font-medium text-destructive">Tripped: {INTERLOCK_RULE_LABELS[trip.rule]}</p>
+          <p className="text-sm text-destructive/80">{trip.reason}</p>
+          <Button variant="outline" size="sm" className="mt-2" onClick={acknowledge}>
+            Acknowledge
+          </Button>
+        </div>
+      ) : (
+        <p className="mb-4 text-sm text-muted-foreground">
+          {!connected
+            ? 'Armed once connected'
+            : enabledRules.length > 0
+              ? `Armed: ${enabledRules.map((rule) => INTERLOCK_RULE_LABELS[rule]).join(', ')}`
+              : 'All rules disabled'}
+        </p>
+      )}
+
+      {log.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-muted-foreground">Trip log</span>
+            <button
+              onClick={exportLog}
+              className="p-1 rounded text-muted-foreground hover:text-foreground"
+              title="Export trip log"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="space-y-2">
+            {log.map((entry) => (
+              <TripLogEntry key={entry.id} trip={entry} />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TripLogEntry({ trip }: { trip: InterlockTrip }) {
+  return (
+    <li className="rounded-lg bg-secondary/50 p-2 text-xs">
+      <details>
+        <summary className="cursor-pointer">
+          <span className="font-mono text-muted-foreground">{new Date(trip.at).toLocaleTimeString()}</span>{' '}
+          <span className="font-medium text-foreground">{INTERLOCK_RULE_LABELS[trip.rule]}</span>
+          {trip.acknowledgedAt ? (
+            <span className="text-muted-foreground"> · acknowledged</span>
+          ) : (
+            <span className="text-destructive"> · latched</span>
+          )}
+        </summary>
+        <p className="mt-1 text-muted-foreground">{trip.reason}</p>
+        {trip.line && <p className="mt-1 font-mono break-all text-muted-foreground">{trip.line}</p>}
+        {trip.frames.length > 0 ? (
+          <table className="mt-2 w-full font-mono">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-normal">Time</th>
+                <th className="text-left font-normal">Status</th>
+                <th className="text-right font-normal">rad/s</th>
+                <th className="text-right font-normal">Anomaly</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trip.frames.map((frame) => (
+                <tr key={frame.seq}>
+                  <td>{new Date(frame.receivedAt).toLocaleTimeString()}</td>
+                  <td>{frame.telemetry.status}</td>
+                  <td className="text-right">{frame.telemetry.speed.toFixed(2)}</td>
+                  <td className="text-right">{frame.telemetry.anomalyPercentage}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="mt-1 text-muted-foreground">No telemetry frames recorded</p>
+        )}
+      </details>
+    </li>
+  );
+}
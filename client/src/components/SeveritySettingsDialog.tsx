@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { Gauge, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { validateSeverityConfig, type SeverityBand, type SeverityConfig } from '@/lib/anomaly-severity';
+
+interface SeveritySettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  config: SeverityConfig;
+  /** Device the configuration is saved for, null for the shared default */
+  deviceId: string | null;
+  onSave: (config: SeverityConfig) => void;
+  /** Return the device to the default bands */
+  onReset: () => void;
+}
+
+/**
+ * SeveritySettingsDialog Component
+ *
+ * Editor for the anomaly severity bands of the current device: band names,
+ * colors, thresholds and which bands raise the anomaly flag, plus the
+ * hysteresis and dwell time that keep noisy scores from flipping the band.
+ */
+export function SeveritySettingsDialog({
+  open,
+  onOpenChange,
+  config,
+  deviceId,
+  onSave,
+  onReset,
+}: SeveritySettingsDialogProps) {
+  const [draft, setDraft] = useState<SeverityConfig>(config);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the applied configuration whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(config);
+      setError(null);
+    }
+  }, [open, config]);
+
+  const updateBand = (index: number, changes: Partial<SeverityBand>) => {
+    setDraft((prev) => ({
+      ...prev,
+      bands: prev.bands.map((band, bandIndex) => (bandIndex === index ? { ...band, ...changes } : band)),
+    }));
+  };
+
+  const addBand = () => {
+    setDraft((prev) => {
+      const last = prev.bands[prev.bands.length - 1];
+      const band: SeverityBand = {
+        id: `band-${Date.now()}`,
+        label: 'New band',
+        threshold: Math.min(100, last.threshold + 10),
+        color: last.color,
+        alert: true,
+      };
+      return { ...prev, bands: [...prev.bands, band] };
+    });
+  };
+
+  const removeBand = (index: number) => {
+    setDraft((prev) => ({ ...prev, bands: prev.bands.filter((_, bandIndex) => bandIndex !== index) }));
+  };
+
+  const save = () => {
+    const invalid = validateSeverityConfig(draft);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    onSave(draft);
+    onOpenChange(false);
+  };
+
+  const reset = () => {
+    onReset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gauge className="w-5 h-5 text-accent" />
+            Anomaly Severity
+          </DialogTitle>
+          <DialogDescription>
+            {deviceId ? `Saved for device ${deviceId}.` : 'Saved as the default for unidentified devices.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[2rem_1fr_5rem_3rem_2rem] gap-2 text-xs text-muted-foreground">
+            <span>Color</span>
+            <span>Band</span>
+            <span>From (%)</span>
+            <span>Alert</span>
+            <span />
+          </div>
+          {draft.bands.map((band, index) => (
+            <div key={band.id} className="grid grid-cols-[2rem_1fr_5rem_3rem_2rem] gap-2 items-center">
+              <input
+                type="color"
+                value={band.color}
+                onChange={(event) => updateBand(index, { color: event.target.value })}
+                className="h-8 w-8 cursor-pointer rounded border border-border"
+                aria-label={`${band.label} color`}
+              />
+              <Input value={band.label} onChange={(event) => updateBand(index, { label: event.target.value })} />
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={band.threshold}
+                disabled={index === 0}
+                onChange={(event) => updateBand(index, { threshold: Number(event.target.value) })}
+              />
+              <Switch checked={band.alert} onCheckedChange={(alert) => updateBand(index, { alert })} />
+              <button
+                onClick={() => removeBand(index)}
+                disabled={index === 0}
+                className="p-1 rounded text-muted-foreground hover:text-destructive disabled:opacity-30"
+                title="Remove band"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addBand} disabled={draft.bands.length >= 6}>
+            <Plus className="w-4 h-4" />
+            Add band
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <label className="space-y-1">
+            <span className="text-muted-foreground">Hysteresis (points)</span>
+            <Input
+              type="number"
+              min={0}
+              value={draft.hysteresis}
+              onChange={(event) => setDraft((prev) => ({ ...prev, hysteresis: Number(event.target.value) }))}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-muted-foreground">Minimum dwell (ms)</span>
+            <Input
+              type="number"
+              min={0}
+              step={100}
+              value={draft.dwellMs}
+              onChange={(event) => setDraft((prev) => ({ ...prev, dwellMs: Number(event.target.value) }))}
+            />
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={reset}>
+            Reset to defaults
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import { Download, ListOrdered, Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  MAX_SPEED_PRESETS,
+  parseSpeedPresets,
+  serializeSpeedPresets,
+  validateSpeedPresets,
+  type SpeedPreset,
+} from '@/lib/speed-presets';
+import type { SpeedLimits } from '@/lib/speed-setpoint';
+
+interface SpeedPresetsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  presets: SpeedPreset[];
+  /** Device the presets are saved for, null for the shared default */
+  deviceId: string | null;
+  /** Limits and speed resolution of the device */
+  limits: SpeedLimits;
+  onSave: (presets: SpeedPreset[]) => void;
+  /** Return the device to the default presets */
+  onReset: () => void;
+}
+
+const GRID_COLUMNS = 'grid-cols-[2rem_3rem_1fr_4.5rem_4.5rem_2rem]';
+
+/**
+ * SpeedPresetsDialog Component
+ *
+ * Editor for the speed presets of the current device: name, icon, the
+ * command value sent to the board, the speed it is expected to reach and
+ * the button color. Presets can be imported from and exported to JSON.
+ */
+export function SpeedPresetsDialog({
+  open,
+  onOpenChange,
+  presets,
+  deviceId,
+  limits,
+  onSave,
+  onReset,
+}: SpeedPresetsDialogProps) {
+  const [draft, setDraft] = useState<SpeedPreset[]>(presets);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Start from the applied presets whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(presets);
+      setError(null);
+    }
+  }, [open, presets]);
+
+  const updatePreset = (index: number, changes: Partial<SpeedPreset>) => {
+    setDraft((prev) => prev.map((preset, presetIndex) => (presetIndex === index ? { ...preset, ...changes } : preset)));
+  };
+
+  const addPreset = () => {
+    setDraft((prev) => {
+      const last = prev[prev.length - 1];
+      const preset: SpeedPreset = {
+        id: `preset-${Date.now()}`,
+        name: 'New preset',
+        icon: '',
+        command: last?.command ?? 0,
+        expectedSpeed: last?.expectedSpeed ?? 0,
+        color: last?.color ?? '#6b7280',
+      };
+      return [...prev, preset];
+    });
+  };
+
+  const removePreset = (index: number) => {
+    setDraft((prev) => prev.filter((_, presetIndex) => presetIndex !== index));
+  };
+
+  const importFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parseSpeedPresets(await file.text(), limits);
+    if ('error' in result) {
+      setError(`Import failed: ${result.error}`);
+      return;
+    }
+    setDraft(result.presets);
+    setError(null);
+  };
+
+  const exportFile = () => {
+    const invalid = validateSpeedPresets(draft);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    const blob = new Blob([serializeSpeedPresets(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `speed-presets${deviceId ? `-${deviceId.replace(/[^\w-]/g, '_')}` : ''}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const save = () => {
+    const invalid = validateSpeedPresets(draft, limits);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    onSave(draft);
+    onOpenChange(false);
+  };
+
+  const reset = () => {
+    onReset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListOrdered className="w-5 h-5 text-accent" />
+            Speed Presets
+          </DialogTitle>
+          <DialogDescription>
+            {deviceId ? `Saved for device ${deviceId}.` : 'Saved as the default for unidentified devices.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className={`grid ${GRID_COLUMNS} gap-2 text-xs text-muted-foreground`}>
+            <span>Color</span>
+            <span>Icon</span>
+            <span>Name</span>
+            <span>Sends M</span>
+            <span>Expected (rad/s)</span>
+            <span />
+          </div>
+          {draft.map((preset, index) => (
+            <div key={preset.id} className={`grid ${GRID_COLUMNS} gap-2 items-center`}>
+              <input
+                type="color"
+                value={preset.color}
+                onChange={(event) => updatePreset(index, { color: event.target.value })}
+                className="h-8 w-8 cursor-pointer rounded border border-border"
+                aria-label={`${preset.name} color`}
+              />
+              <Input value={preset.icon} maxLength={4} onChange={(event) => updatePreset(index, { icon: event.target.value })} />
+              <Input value={preset.name} onChange={(event) => updatePreset(index, { name: event.target.value })} />
+              <Input
+                type="number"
+                min={0}
+                max={limits.maxSpeed}
+                step={limits.speedResolution}
+                value={preset.command}
+                onChange={(event) => updatePreset(index, { command: Number(event.target.value) })}
+              />
+              <Input
+                type="number"
+                min={0}
+                step={0.1}
+                value={preset.expectedSpeed}
+                onChange={(event) => updatePreset(index, { expectedSpeed: Number(event.target.value) })}
+              />
+              <button
+                onClick={() => removePreset(index)}
+                disabled={draft.length <= 1}
+                className="p-1 rounded text-muted-foreground hover:text-destructive disabled:opacity-30"
+                title="Remove preset"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={addPreset} disabled={draft.length >= MAX_SPEED_PRESETS}>
+              <Plus className="w-4 h-4" />
+              Add preset
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4" />
+              Import
+            </Button>
+            <Button variant="outline" size="sm" onClick={exportFile}>
+              <Download className="w-4 h-4" />
+              Export
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={importFile}
+              className="hidden"
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={reset}>
+            Reset to defaults
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
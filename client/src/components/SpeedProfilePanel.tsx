@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Pause, Play, Plus, Square, Trash2, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { useProfileRunner } from '@/hooks/useProfileRunner';
+import type { useSpeedUnits } from '@/hooks/useSpeedUnits';
+import {
+  compileProfile,
+  loadSpeedProfile,
+  saveSpeedProfile,
+  validateSpeedProfile,
+  type ProfilePlan,
+  type ProfilePoint,
+  type ProfileRunState,
+  type ProfileSegment,
+  type ProfileSegmentType,
+  type SpeedProfile,
+} from '@/lib/speed-profile';
+import type { SpeedLimits } from '@/lib/speed-setpoint';
+
+interface SpeedProfilePanelProps {
+  runner: ReturnType<typeof useProfileRunner>;
+  limits: SpeedLimits;
+  units: ReturnType<typeof useSpeedUnits>;
+  /** Speed commands cannot be sent (not connected or not supported) */
+  disabled: boolean;
+}
+
+const SEGMENT_LABELS: Record<ProfileSegmentType, string> = {
+  step: 'Step',
+  ramp: 'Ramp',
+  hold: 'Hold',
+  repeat: 'Repeat',
+};
+
+const NEW_SEGMENTS: Record<ProfileSegmentType, ProfileSegment> = {
+  step: { type: 'step', speed: 0 },
+  ramp: { type: 'ramp', speed: 10, durationMs: 10_000 },
+  hold: { type: 'hold', durationMs: 10_000 },
+  repeat: { type: 'repeat', count: 1, times: 1 },
+};
+
+const RUN_STATE_LABELS: Record<ProfileRunState, string> = {
+  idle: 'Ready',
+  running: 'Running',
+  paused: 'Paused',
+  finished: 'Finished',
+  aborted: 'Aborted',
+};
+
+const PLANNED_COLOR = '#94a3b8';
+const MEASURED_COLOR = '#f97316';
+
+/**
+ * Minutes and seconds, e.g. "5:30"
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * SpeedProfilePanel Component
+ *
+ * Editor and runner for scripted speed profiles: an ordered list of step,
+ * ramp, hold and repeat segments, run/pause/resume/abort controls, and a
+ * chart of the planned speed with the measured speed laid over it.
+ */
+export function SpeedProfilePanel({ runner, limits, units, disabled }: SpeedProfilePanelProps) {
+  const [profile, setProfile] = useState<SpeedProfile>(() => loadSpeedProfile());
+  const invalid = validateSpeedProfile(profile, limits);
+  const preview = invalid ? null : compileProfile(profile);
+  const shownPlan = runner.plan ?? preview;
+
+  const updateProfile = (next: SpeedProfile) => {
+    saveSpeedProfile(next);
+    setProfile(next);
+  };
+
+  const updateSegment = (index: number, segment: ProfileSegment) => {
+    updateProfile({ ...profile, segments: profile.segments.map((item, itemIndex) => (itemIndex === index ? segment : item)) });
+  };
+
+  const moveSegment = (index: number, offset: number) => {
+    const segments = [...profile.segments];
+    const [segment] = segments.splice(index, 1);
+    segments.splice(index + offset, 0, segment);
+    updateProfile({ ...profile, segments });
+  };
+
+  const removeSegment = (index: number) => {
+    updateProfile({ ...profile, segments: profile.segments.filter((_, itemIndex) => itemIndex !== index) });
+  };
+
+  const addSegment = (type: ProfileSegmentType) => {
+    updateProfile({ ...profile, segments: [...profile.segments, NEW_SEGMENTS[type]] });
+  };
+
+  const changeType = (index: number, type: ProfileSegmentType) => {
+    updateSegment(index, NEW_SEGMENTS[type]);
+  };
+
+  return (
+    <div className="mt-8 bg-white rounded-xl p-6 shadow-sm border border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-primary flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-accent" />
+          Speed Profile
+        </h2>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            {RUN_STATE_LABELS[runner.state]}
+            {shownPlan && ` · ${formatDuration(runner.plan ? runner.elapsedMs : 0)} / ${formatDuration(shownPlan.durationMs)}`}
+          </span>
+          {runner.state === 'running' ? (
+            <Button variant="outline" size="sm" onClick={runner.pause}>
+              <Pause className="w-4 h-4" />
+              Pause
+            </Button>
+          ) : runner.state === 'paused' ? (
+            <Button variant="outline" size="sm" onClick={runner.resume} disabled={disabled}>
+              <Play className="w-4 h-4" />
+              Resume
+            </Button>
+          ) : (
+            <Button size="sm" onClick={() => preview && runner.start(preview)} disabled={disabled || !preview}>
+              <Play className="w-4 h-4" />
+              Run
+            </Button>
+          )}
+          <Button variant="destructive" size="sm" onClick={runner.abort} disabled={!runner.active}>
+            <Square className="w-4 h-4" />
+            Abort
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Segment Editor */}
+        <div className="space-y-2">
+          <Input
+            value={profile.name}
+            onChange={(event) => updateProfile({ ...profile, name: event.target.value })}
+            disabled={runner.active}
+            aria-label="Profile name"
+          />
+          {profile.segments.map((segment, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm">
+              <span className="w-5 text-xs text-muted-foreground">{index + 1}</span>
+              <Select
+                value={segment.type}
+                onValueChange={(type) => changeType(index, type as ProfileSegmentType)}
+                disabled={runner.active}
+              >
+                <SelectTrigger className="w-24" size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SEGMENT_LABELS).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <SegmentFields
+                segment={segment}
+                speedStep={limits.speedResolution}
+                disabled={runner.active}
+                onChange={(next) => updateSegment(index, next)}
+              />
+              <div className="ml-auto flex">
+                <button
+                  onClick={() => moveSegment(index, -1)}
+                  disabled={runner.active || index === 0}
+                  className="p-1 rounded text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => moveSegment(index, 1)}
+                  disabled={runner.active || index === profile.segments.length - 1}
+                  className="p-1 rounded text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => removeSegment(index)}
+                  disabled={runner.active}
+                  className="p-1 rounded text-muted-foreground hover:text-destructive disabled:opacity-30"
+                  title="Remove segment"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(SEGMENT_LABELS) as ProfileSegmentType[]).map((type) => (
+              <Button key={type} variant="outline" size="sm" onClick={() => addSegment(type)} disabled={runner.active}>
+                <Plus className="w-4 h-4" />
+                {SEGMENT_LABELS[type]}
+              </Button>
+            ))}
+          </div>
+          {invalid && <p className="text-sm text-destructive">{invalid}</p>}
+        </div>
+
+        {/* Planned vs Measured */}
+        {shownPlan ? (
+          <ProfileChart
+            plan={shownPlan}
+            trace={runner.plan ? runner.trace : []}
+            elapsedMs={runner.plan ? runner.elapsedMs : null}
+            formatSpeed={units.formatPrimary}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">Fix the profile to see its plan.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Inputs of one segment; speeds in rad/s, durations in seconds
+ */
+function SegmentFields({
+  segment,
+  speedStep,
+  disabled,
+  onChange,
+}: {
+  segment: ProfileSegment;
+  /** Device setpoint resolution (rad/s) */
+  speedStep: number;
+  disabled: boolean;
+  onChange: (segment: ProfileSegment) => void;
+}) {
+  const field = (label: string, value: number, update: (value: number) => void, step = 1) => (
+    <label className="flex items-center gap-1 text-xs text-muted-foreground">
+      {label}
+      <Input
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(event) => update(Number(event.target.value))}
+        className="w-20 h-8"
+      />
+    </label>
+  );
+
+  switch (segment.type) {
+    case 'step':
+      return field('to rad/s', segment.speed, (speed) => onChange({ ...segment, speed }), speedStep);
+    case 'ramp':
+      return (
+        <>
+          {field('to rad/s', segment.speed, (speed) => onChange({ ...segment, speed }), speedStep)}
+          {field('over s', segment.durationMs / 1000, (seconds) => onChange({ ...segment, durationMs: seconds * 1000 }))}
+        </>
+      );
+    case 'hold':
+      return field('for s', segment.durationMs / 1000, (seconds) => onChange({ ...segment, durationMs: seconds * 1000 }));
+    case 'repeat':
+      return (
+        <>
+          {field('last', segment.count, (count) => onChange({ ...segment, count }))}
+          {field('times', segment.times, (times) => onChange({ ...segment, times }))}
+        </>
+      );
+  }
+}
+
+function ProfileChart({
+  plan,
+  trace,
+  elapsedMs,
+  formatSpeed,
+}: {
+  plan: ProfilePlan;
+  trace: ProfilePoint[];
+  /** Run time of the current run, null when showing a preview */
+  elapsedMs: number | null;
+  formatSpeed: (radPerSec: number) => string;
+}) {
+  const width = 400;
+  const height = 140;
+  const duration = Math.max(plan.durationMs, 1);
+  const top = Math.max(1, ...plan.points.map((point) => point.speed), ...trace.map((point) => point.speed));
+  const toPoints = (points: ProfilePoint[]) =>
+    points
+      .map((point) => `${((point.at / duration) * width).toFixed(1)},${(height - (point.speed / top) * height).toFixed(1)}`)
+      .join(' ');
+  const cursorX = elapsedMs !== null ? (elapsedMs / duration) * width : null;
+
+  return (
+    <div>
+      <div className="flex justify-between mb-1 text-xs text-muted-foreground">
+        <span>{formatSpeed(top)}</span>
+        <span className="flex gap-3">
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: PLANNED_COLOR }} />
+            Planned
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: MEASURED_COLOR }} />
+            Measured
+          </span>
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40 bg-secondary/40 rounded" preserveAspectRatio="none">
+        <polyline
+          points={toPoints(plan.points)}
+          fill="none"
+          stroke={PLANNED_COLOR}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {trace.length > 1 && (
+          <polyline
+            points={toPoints(trace)}
+            fill="none"
+            stroke={MEASURED_COLOR}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {cursorX !== null && (
+          <line x1={cursorX} x2={cursorX} y1={0} y2={height} stroke="#0ea5e9" strokeDasharray="3 3" vectorEffect="non-scaling-stroke" />
+        )}
+      </svg>
+      <div className="flex justify-between text-[10px] font-mono text-muted-foreground">
+        <span>0:00</span>
+        <span>{formatDuration(plan.durationMs)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import type { useSpeedUnits } from '@/hooks/useSpeedUnits';
+import type { SpeedPreset } from '@/lib/speed-presets';
+import type { SpeedLimits } from '@/lib/speed-setpoint';
+import type { SpeedReconciliation } from '@/lib/state-reconciler';
+import { convertSpeed, SPEED_UNITS, toRadPerSec } from '@/lib/speed-units';
+
+interface SpeedSetpointControlProps {
+  /** Setpoint last written to the device (rad/s) */
+  commanded: number;
+  /** The commanded setpoint awaits the device */
+  pending: boolean;
+  /** Slider position (rad/s) */
+  setpoint: number;
+  /** Speed reported by the telemetry (rad/s) */
+  measured: number;
+  /** Commanded against measured speed */
+  sync: SpeedReconciliation;
+  limits: SpeedLimits;
+  presets: SpeedPreset[];
+  units: ReturnType<typeof useSpeedUnits>;
+  disabled: boolean;
+  /** Slider dragged */
+  onPreview: (speed: number) => void;
+  /** Slider released, value entered or preset clicked */
+  onCommit: (speed: number) => void;
+}
+
+/**
+ * SpeedSetpointControl Component
+ *
+ * Continuous speed control: preset shortcuts, a slider between stop and the
+ * device maximum, numeric entry in the primary display unit, and the
+ * commanded speed next to the measured one with any mismatch between them.
+ */
+export function SpeedSetpointControl({
+  commanded,
+  pending,
+  setpoint,
+  measured,
+  sync,
+  limits,
+  presets,
+  units,
+  disabled,
+  onPreview,
+  onCommit,
+}: SpeedSetpointControlProps) {
+  const [entry, setEntry] = useState('');
+  const primary = SPEED_UNITS[units.settings.primary];
+
+  const submitEntry = (event: FormEvent) => {
+    event.preventDefault();
+    const value = Number(entry);
+    if (entry.trim() === '' || !Number.isFinite(value)) return;
+    onCommit(toRadPerSec(value, primary.id, units.context));
+    setEntry('');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Preset Shortcuts */}
+      <div className="grid grid-cols-3 gap-2">
+        {presets.map((preset) => {
+          const active = commanded === preset.command;
+          const outOfRange =
+            preset.command > limits.maxSpeed || (preset.command > 0 && preset.command < limits.minSpeed);
+          return (
+            <button
+              key={preset.id}
+              onClick={() => onCommit(preset.command)}
+              disabled={disabled || outOfRange}
+              title={`Sends M${preset.command}${outOfRange ? ' (outside the device limits)' : ''}`}
+              className={`tech-button py-3 rounded-xl font-semibold transition-all hover:opacity-90 ${
+                active ? 'shadow-lg' : ''
+              } disabled:opacity-50 disabled:cursor-not-allowed`}
+              style={
+                active
+                  ? { backgroundColor: preset.color, color: '#ffffff' }
+                  : { backgroundColor: `${preset.color}1a`, color: preset.color }
+              }
+            >
+              {preset.icon && <span className="block text-lg">{preset.icon}</span>}
+              <span className="block text-sm">{preset.name}</span>
+              {preset.expectedSpeed > 0 && (
+                <span className="block text-xs font-normal opacity-80">{units.formatPrimary(preset.expectedSpeed)}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Slider */}
+      <div>
+        <Slider
+          min={0}
+          max={limits.maxSpeed}
+          step={limits.speedResolution}
+          value={[setpoint]}
+          onValueChange={([speed]) => onPreview(speed)}
+          onValueCommit={([speed]) => onCommit(speed)}
+          disabled={disabled}
+        />
+        <div className="flex justify-between mt-1 text-[10px] font-mono text-muted-foreground">
+          <span>{units.formatPrimary(0)}</span>
+          {limits.minSpeed > 0 && <span>min {units.formatPrimary(limits.minSpeed)}</span>}
+          <span>{units.formatPrimary(limits.maxSpeed)}</span>
+        </div>
+      </div>
+
+      {/* Numeric Entry */}
+      <form onSubmit={submitEntry} className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={0}
+          step={Math.pow(10, -primary.decimals)}
+          value={entry}
+          placeholder={convertSpeed(setpoint, primary.id, units.context).toFixed(primary.decimals)}
+          onChange={(event) => setEntry(event.target.value)}
+          disabled={disabled}
+        />
+        <span className="text-sm text-muted-foreground whitespace-nowrap">{primary.symbol}</span>
+        <Button type="submit" variant="outline" size="sm" disabled={disabled || entry.trim() === ''}>
+          Set
+        </Button>
+      </form>
+
+      {/* Commanded vs Measured */}
+      <div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="bg-secondary/50 rounded-lg p-3">
+            <p className="text-xs text-muted-foreground">Commanded{pending && ' (sending…)'}</p>
+            <p className="font-mono font-semibold text-foreground">{units.formatPrimary(commanded)}</p>
+          </div>
+          <div
+            className={`bg-secondary/50 rounded-lg p-3 border ${
+              sync.status === 'diverged' ? 'border-destructive/40' : 'border-transparent'
+            }`}
+          >
+            <p className="text-xs text-muted-foreground">Measured</p>
+            <p className={`font-mono font-semibold ${sync.status === 'diverged' ? 'text-destructive' : 'text-accent'}`}>
+              {units.formatPrimary(measured)}
+            </p>
+          </div>
+        </div>
+        {sync.status === 'settling' && <p className="mt-1 text-xs text-muted-foreground">Settling…</p>}
+        {sync.message && <p className="mt-1 text-xs text-destructive">{sync.message}</p>}
+      </div>
+    </div>
+  );
+}
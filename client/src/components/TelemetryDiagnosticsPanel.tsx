@@ -0,0 +1,114 @@
+import { Activity, Download, RotateCcw } from 'lucide-react';
+import {
+  getRejectedTotal,
+  TELEMETRY_ISSUE_LABELS,
+  type TelemetryCounters,
+  type TelemetryDiagnostic,
+  type TelemetryIssueReason,
+} from '@/lib/telemetry-diagnostics';
+
+interface TelemetryDiagnosticsPanelProps {
+  counters: TelemetryCounters;
+  diagnostics: readonly TelemetryDiagnostic[];
+  onReset?: () => void;
+  /** Download the recorded telemetry */
+  onExport?: () => void;
+  /** Number of most recent diagnostics shown (default: 8) */
+  limit?: number;
+}
+
+/**
+ * TelemetryDiagnosticsPanel Component
+ *
+ * Stream counters and the most recent lines rejected by the telemetry
+ * parser, to tell a misbehaving board from a noisy link at a glance.
+ */
+export function TelemetryDiagnosticsPanel({
+  counters,
+  diagnostics,
+  onReset,
+  onExport,
+  limit = 8,
+}: TelemetryDiagnosticsPanelProps) {
+  const rejectedTotal = getRejectedTotal(counters);
+  const stats: Array<[string, number]> = [
+    ['Bytes received', counters.bytesReceived],
+    ['Frames OK', counters.framesOk],
+    ['Rejected', rejectedTotal],
+    ['Warnings', counters.warnings],
+    ['Binary frames', counters.binaryFrames],
+    ['Buffer overflows', counters.bufferOverflows],
+  ];
+  const reasons = Object.entries(counters.rejected) as Array<[TelemetryIssueReason, number]>;
+  const entries = diagnostics.slice(-limit).reverse();
+
+  return (
+    <div className="mt-8 bg-white rounded-xl p-6 shadow-sm border border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-primary flex items-center gap-2">
+          <Activity className="w-5 h-5 text-accent" />
+          Telemetry Diagnostics
+        </h2>
+        <div className="flex items-center gap-1">
+          {onExport && (
+            <button
+              onClick={onExport}
+              className="p-1 rounded text-muted-foreground hover:text-foreground"
+              title="Export recorded telemetry (CSV)"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+          )}
+          {onReset && (
+            <button
+              onClick={onReset}
+              className="p-1 rounded text-muted-foreground hover:text-foreground"
+              title="Reset counters"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+        {stats.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-2">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className={`font-mono ${label === 'Rejected' && value > 0 ? 'text-destructive' : 'text-foreground'}`}>
+              {value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {reasons.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-2">
+          {reasons.map(([reason, count]) => (
+            <span key={reason} className="px-2 py-0.5 rounded-full bg-red-50 text-red-700 text-xs font-medium">
+              {TELEMETRY_ISSUE_LABELS[reason]}: {count}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="mt-4 max-h-48 overflow-y-auto space-y-2 text-xs">
+          {entries.map((entry, index) => (
+            <div
+              key={`${entry.timestamp}-${entry.offset}-${index}`}
+              className={`border-l-2 pl-2 ${entry.severity === 'error' ? 'border-destructive' : 'border-amber-500'}`}
+            >
+              <p className="text-muted-foreground">
+                {new Date(entry.timestamp).toLocaleTimeString()} · byte {entry.offset} ·{' '}
+                <span className="text-foreground font-medium">{TELEMETRY_ISSUE_LABELS[entry.reason]}</span>
+              </p>
+              <p className="text-foreground">{entry.message}</p>
+              <p className="font-mono text-muted-foreground break-all">{entry.line}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { MotorTelemetry } from '@/lib/telemetry-parser';
+import { formatFieldValue, TELEMETRY_SCHEMA, type TelemetryFieldSchema } from '@/lib/telemetry-schema';
+
+interface TelemetryFieldListProps {
+  telemetry: MotorTelemetry;
+  schema?: readonly TelemetryFieldSchema[];
+}
+
+/**
+ * TelemetryFieldList Component
+ *
+ * Generic display of telemetry fields without a dedicated card: every
+ * non-primary schema field present in the latest message, followed by
+ * unknown keys exactly as the firmware sent them.
+ */
+export function TelemetryFieldList({ telemetry, schema = TELEMETRY_SCHEMA }: TelemetryFieldListProps) {
+  const fields = schema.filter((field) => !field.primary && field.name in telemetry.fields);
+  const extras = Object.entries(telemetry.extras);
+
+  if (fields.length === 0 && extras.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <p className="text-sm font-medium text-muted-foreground mb-3">Additional Telemetry</p>
+      <dl className="grid grid-cols-2 gap-3">
+        {fields.map((field) => (
+          <div key={field.name} className="bg-secondary rounded-lg p-3">
+            <dt className="text-xs text-muted-foreground">{field.label}</dt>
+            <dd className="font-mono font-semibold text-foreground">
+              {formatFieldValue(field, telemetry.fields[field.name])}
+            </dd>
+          </div>
+        ))}
+        {extras.map(([key, value]) => (
+          <div key={key} className="bg-secondary/50 rounded-lg p-3">
+            <dt className="text-xs text-muted-foreground">{key}</dt>
+            <dd className="font-mono text-foreground">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
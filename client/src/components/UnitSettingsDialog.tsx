@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { Ruler } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DEFAULT_SPEED_UNIT_SETTINGS,
+  SPEED_UNITS,
+  validateSpeedUnitSettings,
+  type SpeedUnit,
+  type SpeedUnitSettings,
+} from '@/lib/speed-units';
+
+interface UnitSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: SpeedUnitSettings;
+  onSave: (settings: SpeedUnitSettings) => void;
+}
+
+const UNIT_OPTIONS = Object.values(SPEED_UNITS);
+const NO_UNIT = 'none';
+
+/**
+ * UnitSettingsDialog Component
+ *
+ * Choice of the primary and secondary speed units and the blade count
+ * used for the blade-pass frequency.
+ */
+export function UnitSettingsDialog({ open, onOpenChange, settings, onSave }: UnitSettingsDialogProps) {
+  const [draft, setDraft] = useState<SpeedUnitSettings>(settings);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the applied settings whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(settings);
+      setError(null);
+    }
+  }, [open, settings]);
+
+  const save = () => {
+    const invalid = validateSpeedUnitSettings(draft);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    onSave(draft);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ruler className="w-5 h-5 text-accent" />
+            Speed Units
+          </DialogTitle>
+          <DialogDescription>Units used for speed readouts, presets, charts and exports.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <label className="block space-y-1">
+            <span className="text-muted-foreground">Primary unit</span>
+            <Select
+              value={draft.primary}
+              onValueChange={(primary) => setDraft((prev) => ({ ...prev, primary: primary as SpeedUnit }))}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {UNIT_OPTIONS.map((unit) => (
+                  <SelectItem key={unit.id} value={unit.id}>
+                    {unit.label} ({unit.symbol})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-muted-foreground">Secondary unit</span>
+            <Select
+              value={draft.secondary ?? NO_UNIT}
+              onValueChange={(secondary) =>
+                setDraft((prev) => ({ ...prev, secondary: secondary === NO_UNIT ? null : (secondary as SpeedUnit) }))
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_UNIT}>None</SelectItem>
+                {UNIT_OPTIONS.map((unit) => (
+                  <SelectItem key={unit.id} value={unit.id}>
+                    {unit.label} ({unit.symbol})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-muted-foreground">Fan blades</span>
+            <Input
+              type="number"
+              min={1}
+              max={32}
+              value={draft.bladeCount}
+              onChange={(event) => setDraft((prev) => ({ ...prev, bladeCount: Number(event.target.value) }))}
+            />
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setDraft(DEFAULT_SPEED_UNIT_SETTINGS)}>
+            Defaults
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useRef } from 'react';
+import { AudioWaveform } from 'lucide-react';
+import type { useWaveformStream } from '@/hooks/useWaveformStream';
+import type { SpectrumResult } from '@/lib/spectrum';
+import type { WaveformSource } from '@shared/waveform-frame';
+
+type WaveformSelection = WaveformSource | 'off';
+
+interface WaveformPanelProps {
+  stream: ReturnType<typeof useWaveformStream>;
+  /** Shaft rotation frequency from the reported speed (Hz) */
+  rotationHz: number;
+  /** Fan blades; the blade-pass frequency is marked at blades × rotation */
+  bladeCount: number;
+  /** Start or stop streaming; omitted when the firmware cannot stream */
+  onSelectSource?: (source: WaveformSelection) => void;
+}
+
+const SELECTIONS: WaveformSelection[] = ['off', 'imu', 'audio'];
+
+const CHANNEL_LABELS: Record<WaveformSource, string[]> = {
+  imu: ['X', 'Y', 'Z'],
+  audio: ['Mic'],
+};
+
+const CHANNEL_COLORS = ['#0ea5e9', '#f97316', '#22c55e'];
+
+/** Displayed magnitude range (dBFS) */
+const SPECTRUM_MIN_DB = -100;
+const SPECTRUM_MAX_DB = 0;
+
+/** Rotation harmonics marked on the spectrum */
+const ROTATION_ORDERS = [1, 2, 3];
+
+/**
+ * WaveformPanel Component
+ *
+ * Raw detector signal for engineering demos: a live oscilloscope of every
+ * channel, the spectrum of the selected channel with markers at the shaft
+ * rotation frequency and its harmonics, and a waterfall of recent spectra.
+ */
+export function WaveformPanel({ stream, rotationHz, bladeCount, onSelectSource }: WaveformPanelProps) {
+  const { scope, spectrum, waterfall, channel, selectChannel, streaming, stats } = stream;
+  const active: WaveformSelection = streaming && scope ? scope.source : 'off';
+  const labels = scope ? CHANNEL_LABELS[scope.source] : [];
+
+  return (
+    <div className="mt-8 bg-white rounded-xl p-6 shadow-sm border border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-primary flex items-center gap-2">
+          <AudioWaveform className="w-5 h-5 text-accent" />
+          Signal
+        </h2>
+        <div className="flex rounded-md border border-border overflow-hidden">
+          {SELECTIONS.map((selection) => (
+            <button
+              key={selection}
+              onClick={() => onSelectSource?.(selection)}
+              disabled={!onSelectSource || selection === active}
+              className={`px-3 py-1 text-xs font-medium transition-colors disabled:cursor-not-allowed ${
+                selection === active
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-white text-muted-foreground hover:bg-secondary disabled:opacity-50'
+              }`}
+            >
+              {selection.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!scope ? (
+        <p className="text-sm text-muted-foreground">
+          {onSelectSource
+            ? 'Select IMU or audio to stream the raw detector signal.'
+            : 'Firmware does not stream the raw signal'}
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-2 text-xs text-muted-foreground">
+            <span>
+              {scope.source.toUpperCase()} · {scope.sampleRate} Hz · {stats.blocks} blocks
+              {stats.droppedBlocks > 0 && <span className="text-destructive"> · {stats.droppedBlocks} dropped</span>}
+            </span>
+            <span className="flex gap-2">
+              {labels.map((label, index) => (
+                <span key={label} className="flex items-center gap-1">
+                  <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: CHANNEL_COLORS[index] }} />
+                  {label}
+                </span>
+              ))}
+            </span>
+          </div>
+          <Oscilloscope channels={scope.channels} />
+
+          <div className="flex items-center justify-between mt-4 mb-2">
+            <span className="text-xs text-muted-foreground">
+              Spectrum
+              {rotationHz > 0 &&
+                ` · rotation ${rotationHz.toFixed(2)} Hz · blade pass ${(rotationHz * bladeCount).toFixed(1)} Hz`}
+            </span>
+            {labels.length > 1 && (
+              <div className="flex gap-1">
+                {labels.map((label, index) => (
+                  <button
+                    key={label}
+                    onClick={() => selectChannel(index)}
+                    className={`px-2 py-0.5 rounded text-xs font-medium ${
+                      index === channel ? 'bg-secondary text-foreground' : 'text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          {spectrum ? (
+            <>
+              <SpectrumChart spectrum={spectrum} rotationHz={rotationHz} bladeCount={bladeCount} />
+              <Waterfall rows={waterfall} />
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">Collecting samples...</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function Oscilloscope({ channels }: { channels: Float32Array[] }) {
+  const width = 400;
+  const height = 100;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const samples of channels) {
+    samples.forEach((sample) => {
+      min = Math.min(min, sample);
+      max = Math.max(max, sample);
+    });
+  }
+  const span = Math.max(max - min, 1e-3);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-28 bg-secondary/40 rounded" preserveAspectRatio="none">
+      {channels.map((samples, index) => (
+        <polyline
+          key={index}
+          points={Array.from(samples, (sample, i) => {
+            const x = samples.length > 1 ? (i / (samples.length - 1)) * width : 0;
+            const y = height - ((sample - min) / span) * height;
+            return `${x.toFixed(1)},${y.toFixed(1)}`;
+          }).join(' ')}
+          fill="none"
+          stroke={CHANNEL_COLORS[index]}
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+}
+
+function SpectrumChart({
+  spectrum,
+  rotationHz,
+  bladeCount,
+}: {
+  spectrum: SpectrumResult;
+  rotationHz: number;
+  bladeCount: number;
+}) {
+  const width = 400;
+  const height = 100;
+  const { magnitudes, binHz } = spectrum;
+  const nyquist = binHz * (magnitudes.length - 1);
+  const toY = (db: number) =>
+    height - ((Math.max(SPECTRUM_MIN_DB, db) - SPECTRUM_MIN_DB) / (SPECTRUM_MAX_DB - SPECTRUM_MIN_DB)) * height;
+  const points = Array.from(magnitudes, (db, bin) => {
+    const x = (bin / (magnitudes.length - 1)) * width;
+    return `${x.toFixed(1)},${toY(db).toFixed(1)}`;
+  });
+  const markers = rotationHz > 0 ? ROTATION_ORDERS.filter((order) => order * rotationHz < nyquist) : [];
+  const bladePassX = rotationHz > 0 && bladeCount * rotationHz < nyquist ? ((bladeCount * rotationHz) / nyquist) * width : null;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-28 bg-secondary/40 rounded" preserveAspectRatio="none">
+        {markers.map((order) => {
+          const x = ((order * rotationHz) / nyquist) * width;
+          return (
+            <g key={order}>
+              <line x1={x} x2={x} y1={0} y2={height} stroke="#ef4444" strokeDasharray="3 3" vectorEffect="non-scaling-stroke" />
+              <text x={x + 2} y={10} fontSize={8} fill="#ef4444">
+                {order}×
+              </text>
+            </g>
+          );
+        })}
+        {bladePassX !== null && (
+          <g>
+            <line
+              x1={bladePassX}
+              x2={bladePassX}
+              y1={0}
+              y2={height}
+              stroke="#a855f7"
+              strokeDasharray="3 3"
+              vectorEffect="non-scaling-stroke"
+            />
+            <text x={bladePassX + 2} y={20} fontSize={8} fill="#a855f7">
+              BPF
+            </text>
+          </g>
+        )}
+        <polyline points={points.join(' ')} fill="none" stroke="#0ea5e9" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] font-mono text-muted-foreground">
+        <span>0 Hz</span>
+        <span>{(nyquist / 2).toFixed(0)} Hz</span>
+        <span>{nyquist.toFixed(0)} Hz</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Recent spectra as rows, newest at the bottom, magnitude as color
+ */
+function Waterfall({ rows }: { rows: Float32Array[] }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || rows.length === 0) return;
+
+    const bins = rows[0].length;
+    canvas.width = bins;
+    canvas.height = rows.length;
+    const image = context.createImageData(bins, rows.length);
+    rows.forEach((row, y) => {
+      for (let bin = 0; bin < bins; bin++) {
+        const level = (Math.max(SPECTRUM_MIN_DB, row[bin]) - SPECTRUM_MIN_DB) / (SPECTRUM_MAX_DB - SPECTRUM_MIN_DB);
+        const [r, g, b] = heatColor(level);
+        const offset = (y * bins + bin) * 4;
+        image.data[offset] = r;
+        image.data[offset + 1] = g;
+        image.data[offset + 2] = b;
+        image.data[offset + 3] = 255;
+      }
+    });
+    context.putImageData(image, 0, 0);
+  }, [rows]);
+
+  return <canvas ref={canvasRef} className="mt-2 w-full h-24 rounded bg-black" style={{ imageRendering: 'pixelated' }} />;
+}
+
+/**
+ * Dark blue → cyan → yellow → red for 0..1
+ */
+function heatColor(level: number): [number, number, number] {
+  const t = Math.min(1, Math.max(0, level));
+  if (t < 1 / 3) {
+    const k = t * 3;
+    return [0, Math.round(255 * k), Math.round(80 + 175 * k)];
+  }
+  if (t < 2 / 3) {
+    const k = (t - 1 / 3) * 3;
+    return [Math.round(255 * k), 255, Math.round(255 * (1 - k))];
+  }
+  const k = (t - 2 / 3) * 3;
+  return [255, Math.round(255 * (1 - k)), 0];
+}
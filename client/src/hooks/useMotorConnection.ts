@@ -0,0 +1,757 @@
+import { useEffect, useRef, useState } from 'react';
+import type { DebugMessage } from '@/components/DebugConsole';
+import { appendAnomalySample, createAnomalyHistory, type AnomalyHistory } from '@/lib/anomaly-history';
+import {
+  clearSeverityConfig,
+  DEFAULT_SEVERITY_CONFIG,
+  loadSeverityConfig,
+  saveSeverityConfig,
+  type SeverityConfig,
+} from '@/lib/anomaly-severity';
+import {
+  CommandAckLayer,
+  CommandError,
+  type CommandAckOptions,
+  type CommandRecord,
+} from '@/lib/command-ack';
+import { CommandWriteQueue } from '@/lib/command-queue';
+import { createDefaultTransport } from '@/lib/default-transport';
+import {
+  CapabilityHandshake,
+  DEFAULT_CAPABILITIES,
+  getAckSupport,
+  validateCommand,
+  type DeviceCapabilities,
+} from '@/lib/device-capabilities';
+import type { MotorTransport, TransportState } from '@/lib/motor-transport';
+import {
+  CONNECTION_PHASE_LABELS,
+  ConnectionStateMachine,
+  getTimeoutMessage,
+  type ConnectionEvent,
+  type ConnectionPhase,
+  type ConnectionSnapshot,
+} from '@/lib/connection-machine';
+import {
+  createSessionCommands,
+  DEFAULT_RECONNECT_POLICY,
+  getReconnectDelay,
+  getResumeCommands,
+  recordSessionCommand,
+  type ReconnectPolicy,
+} from '@/lib/reconnect-policy';
+import { parseSpeedCommand } from '@/lib/speed-setpoint';
+import {
+  createTelemetryCounters,
+  TELEMETRY_ISSUE_LABELS,
+  type TelemetryCounters,
+  type TelemetryDiagnostic,
+} from '@/lib/telemetry-diagnostics';
+import type { MotorTelemetry } from '@/lib/telemetry-parser';
+import { TelemetryPipeline, type TelemetryChunkEvent } from '@/lib/telemetry-pipeline';
+import { TelemetryRecorder } from '@/lib/telemetry-recorder';
+import { usePersistFn } from './usePersistFn';
+
+/**
+ * Lifecycle event reported by each transport state (except 'disconnected',
+ * whose meaning depends on the current phase)
+ */
+const TRANSPORT_EVENTS: Record<Exclude<TransportState, 'disconnected'>, ConnectionEvent> = {
+  requesting: { type: 'request' },
+  connecting: { type: 'connect' },
+  discovering: { type: 'discover' },
+  subscribing: { type: 'subscribe' },
+  connected: { type: 'ready' },
+  disconnecting: { type: 'disconnect' },
+};
+
+export const INITIAL_MOTOR_STATE: MotorTelemetry = {
+  status: 'Stop',
+  speed: 0,
+  anomalyPercentage: 0,
+  anomalyDetected: false,
+  severity: DEFAULT_SEVERITY_CONFIG.bands[0],
+  anomalyActive: false,
+  anomalySource: null,
+  anomalyClasses: {},
+  fields: {},
+  extras: {},
+  timestamp: Date.now(),
+};
+
+export interface ReconnectStatus {
+  /** 1-based number of the upcoming or running attempt */
+  attempt: number;
+  maxAttempts: number;
+  /** Epoch ms of the upcoming attempt, null while it is running */
+  nextAttemptAt: number | null;
+}
+
+export interface UseMotorConnectionOptions {
+  /** Factory for the transport used when connect() is called without one */
+  createTransport?: () => MotorTransport;
+  /** Automatic reconnection settings */
+  reconnectPolicy?: ReconnectPolicy;
+  /** Per-phase connection timeouts (ms) */
+  phaseTimeouts?: Partial<Record<ConnectionPhase, number>>;
+  /** Command acknowledgement settings */
+  ack?: Omit<CommandAckOptions, 'onUpdate'>;
+}
+
+/** Number of command records kept for display */
+const COMMAND_HISTORY_LIMIT = 20;
+/** Debug console messages kept */
+const DEBUG_MESSAGE_LIMIT = 100;
+/** Interval at which streamed debug messages and counters reach React state (ms) */
+const STREAM_UPDATE_INTERVAL_MS = 250;
+/** Leading bytes of binary data shown in the debug console */
+const BINARY_PREVIEW_BYTES = 8;
+
+/**
+ * Whether a chunk carries binary data (frames or their fragments)
+ * The text protocol is printable ASCII plus line endings.
+ */
+function isBinaryChunk(bytes: Uint8Array): boolean {
+  return bytes.some((byte) => byte >= 0x7f || (byte < 0x20 && byte !== 0x0a && byte !== 0x0d && byte !== 0x09));
+}
+
+function formatHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+}
+
+/**
+ * useMotorConnection Hook
+ *
+ * Owns the link to the motor control board: connects a MotorTransport,
+ * feeds received bytes through the telemetry parser, and sends commands.
+ * Keeps the debug console log of sent and received messages.
+ *
+ * The connection lifecycle is tracked by a ConnectionStateMachine fed from
+ * transport state changes. When the link drops unexpectedly the hook
+ * reconnects with exponential backoff and re-applies the last commanded
+ * speed and auto-shutoff state.
+ *
+ * Anomaly severity bands are loaded per device when it connects; changes
+ * are saved for the device they were made on.
+ */
+export function useMotorConnection(options: UseMotorConnectionOptions = {}) {
+  const {
+    createTransport = createDefaultTransport,
+    reconnectPolicy = DEFAULT_RECONNECT_POLICY,
+    phaseTimeouts,
+    ack,
+  } = options;
+
+  const machineRef = useRef<ConnectionStateMachine | null>(null);
+  if (!machineRef.current) {
+    machineRef.current = new ConnectionStateMachine({
+      timeouts: phaseTimeouts,
+      onTimeout: (phase) => handlePhaseTimeout(phase),
+    });
+  }
+  const machine = machineRef.current;
+
+  const [connection, setConnection] = useState<ConnectionSnapshot>(machine.getSnapshot());
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [motorState, setMotorState] = useState<MotorTelemetry>(INITIAL_MOTOR_STATE);
+  const [debugMessages, setDebugMessages] = useState<DebugMessage[]>([]);
+  const [anomalyHistory, setAnomalyHistory] = useState<AnomalyHistory>(createAnomalyHistory());
+  const [diagnostics, setDiagnostics] = useState<TelemetryDiagnostic[]>([]);
+  const [telemetryCounters, setTelemetryCounters] = useState<TelemetryCounters>(createTelemetryCounters());
+  const [commands, setCommands] = useState<CommandRecord[]>([]);
+  const [capabilities, setCapabilities] = useState<DeviceCapabilities | null>(null);
+  /** Device the severity configuration belongs to */
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [severityConfig, setSeverityConfigState] = useState<SeverityConfig>(() => loadSeverityConfig(null));
+  const [reconnect, setReconnect] = useState<ReconnectStatus | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const transportRef = useRef<MotorTransport | null>(null);
+  const commandQueueRef = useRef<CommandWriteQueue | null>(null);
+  const commandAckRef = useRef<CommandAckLayer | null>(null);
+  const handshakeRef = useRef<CapabilityHandshake>(new CapabilityHandshake());
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const pipelineRef = useRef<TelemetryPipeline | null>(null);
+  if (!pipelineRef.current) {
+    pipelineRef.current = new TelemetryPipeline({
+      interceptLine: (line) =>
+        handshakeRef.current.handleLine(line) || (commandAckRef.current?.handleLine(line) ?? false),
+      severity: severityConfig,
+    });
+  }
+  const pipeline = pipelineRef.current;
+  const recorderRef = useRef(new TelemetryRecorder());
+  /** Decodes received chunks for the debug console across packet boundaries */
+  const debugDecoderRef = useRef(new TextDecoder());
+  const debugMessageIdRef = useRef(0);
+  /** Debug messages and counters waiting for the next state update */
+  const pendingDebugRef = useRef<DebugMessage[]>([]);
+  const pendingCountersRef = useRef<TelemetryCounters | null>(null);
+  /** Binary chunks since the last state update, summarized as one message */
+  const pendingBinaryRef = useRef<{ chunks: number; bytes: number; first: Uint8Array } | null>(null);
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  /** Reconnect attempt currently running transport.reconnect() */
+  const pendingAttemptRef = useRef<{ attempt: number } | null>(null);
+  const sessionRef = useRef(createSessionCommands());
+  /** Only stop commands may be sent, and a reconnect restores the motor stopped */
+  const stopLatchedRef = useRef(false);
+  /** Notified of every command the device has taken, as its write settles */
+  const commandListenersRef = useRef(new Set<(command: string) => void>());
+  const policyRef = useRef(reconnectPolicy);
+  policyRef.current = reconnectPolicy;
+
+  const connected = connection.phase === 'ready';
+
+  /**
+   * Apply the batched debug messages and counters to React state
+   */
+  const flushStreamUpdates = () => {
+    if (flushTimerRef.current) {
+      clearTimeout(flushTimerRef.current);
+      flushTimerRef.current = null;
+    }
+    closeBinarySummary();
+    const messages = pendingDebugRef.current;
+    if (messages.length > 0) {
+      pendingDebugRef.current = [];
+      setDebugMessages((prev) => [...prev, ...messages].slice(-DEBUG_MESSAGE_LIMIT));
+    }
+    const counters = pendingCountersRef.current;
+    if (counters) {
+      pendingCountersRef.current = null;
+      setTelemetryCounters(counters);
+    }
+  };
+
+  /**
+   * Apply batched updates at most every STREAM_UPDATE_INTERVAL_MS
+   */
+  const scheduleStreamUpdate = () => {
+    if (!flushTimerRef.current) {
+      flushTimerRef.current = setTimeout(flushStreamUpdates, STREAM_UPDATE_INTERVAL_MS);
+    }
+  };
+
+  const pushDebugMessage = (type: DebugMessage['type'], data: string, raw?: Uint8Array) => {
+    // Keep the console in order: binary data received so far comes first
+    if (pendingBinaryRef.current) {
+      closeBinarySummary();
+    }
+    pendingDebugRef.current.push({
+      id: `msg-${debugMessageIdRef.current++}`,
+      timestamp: Date.now(),
+      type,
+      data,
+      raw,
+    });
+  };
+
+  /**
+   * Turn the binary chunks received since the last message into one summary message
+   */
+  const closeBinarySummary = () => {
+    const binary = pendingBinaryRef.current;
+    if (!binary) return;
+    pendingBinaryRef.current = null;
+    const preview = formatHex(binary.first.subarray(0, BINARY_PREVIEW_BYTES));
+    const chunks = binary.chunks === 1 ? '1 chunk' : `${binary.chunks} chunks`;
+    pushDebugMessage('received', `Binary data: ${chunks}, ${binary.bytes} bytes (${preview} …)`, binary.first);
+  };
+
+  /**
+   * Add a message to the debug console
+   */
+  const addDebugMessage = (type: DebugMessage['type'], data: string, raw?: Uint8Array) => {
+    pushDebugMessage(type, data, raw);
+    scheduleStreamUpdate();
+  };
+
+  /**
+   * Clear debug messages
+   */
+  const clearDebugMessages = () => {
+    pendingDebugRef.current = [];
+    pendingBinaryRef.current = null;
+    setDebugMessages([]);
+    debugMessageIdRef.current = 0;
+  };
+
+  /**
+   * Record a parser diagnostic and flag it in the debug console
+   */
+  const handleDiagnostic = (diagnostic: TelemetryDiagnostic) => {
+    setDiagnostics((prev) => [...prev.slice(-49), diagnostic]); // Keep last 50 diagnostics
+    addDebugMessage(
+      diagnostic.severity === 'error' ? 'rejected' : 'warning',
+      `${TELEMETRY_ISSUE_LABELS[diagnostic.reason]}: ${diagnostic.message} — ${diagnostic.line}`
+    );
+  };
+
+  /**
+   * Clear parser diagnostics and counters
+   */
+  const clearDiagnostics = () => {
+    pipeline.resetCounters();
+    pendingCountersRef.current = null;
+    setDiagnostics([]);
+    setTelemetryCounters(createTelemetryCounters());
+  };
+
+  /**
+   * Log a received chunk in the debug console
+   * Binary chunks (waveform and telemetry frames) are summarized instead of decoded as text.
+   */
+  const handleChunk = (chunk: TelemetryChunkEvent) => {
+    if (isBinaryChunk(chunk.bytes)) {
+      const binary = pendingBinaryRef.current;
+      if (binary) {
+        binary.chunks++;
+        binary.bytes += chunk.bytes.length;
+      } else {
+        pendingBinaryRef.current = { chunks: 1, bytes: chunk.bytes.length, first: chunk.bytes.slice() };
+      }
+      // Drop partial text the frame interrupted
+      debugDecoderRef.current = new TextDecoder();
+      scheduleStreamUpdate();
+      return;
+    }
+    const text = debugDecoderRef.current.decode(chunk.bytes, { stream: true }).trim();
+    if (text) {
+      addDebugMessage('received', text, chunk.bytes);
+    }
+  };
+
+  /**
+   * Keep the latest counters for the next state update
+   */
+  const handleCounters = (counters: TelemetryCounters) => {
+    pendingCountersRef.current = counters;
+    scheduleStreamUpdate();
+  };
+
+  /**
+   * Translate transport state changes into lifecycle events
+   */
+  const handleStateChange = (state: TransportState, err?: Error) => {
+    const phase = machine.phase;
+    const attemptRunning = pendingAttemptRef.current !== null;
+
+    // While waiting for the next reconnect attempt the link is already down;
+    // leftovers from an aborted transport must not move the machine
+    if (phase === 'reconnecting' && !attemptRunning) return;
+
+    if (state !== 'disconnected') {
+      machine.dispatch(TRANSPORT_EVENTS[state]);
+      return;
+    }
+
+    pipeline.reset();
+    commandQueueRef.current?.clear('Device disconnected');
+    commandAckRef.current?.reset('Device disconnected');
+
+    // Failures of a running reconnect attempt are handled by the attempt itself
+    if (attemptRunning || phase === 'idle' || phase === 'failed') return;
+
+    if (phase === 'ready' && err && policyRef.current.enabled) {
+      machine.dispatch({ type: 'link-lost', error: err.message });
+      scheduleReconnect(1);
+    } else if (err) {
+      machine.dispatch({ type: 'fail', error: err.message });
+    } else {
+      machine.dispatch({ type: 'closed' });
+    }
+  };
+
+  /**
+   * Abandon a phase that took too long and tear down the transport
+   */
+  const handlePhaseTimeout = (phase: ConnectionPhase) => {
+    const pending = pendingAttemptRef.current;
+    if (pending) {
+      pendingAttemptRef.current = null;
+      machine.dispatch({ type: 'retry', error: getTimeoutMessage(phase) });
+      scheduleReconnect(pending.attempt + 1);
+    } else {
+      machine.dispatch({ type: 'timeout' });
+    }
+
+    if (phase !== 'disconnecting') {
+      transportRef.current?.disconnect().catch(() => {});
+    }
+  };
+
+  /**
+   * Track the latest state of a command for display
+   */
+  const handleCommandUpdate = (record: CommandRecord) => {
+    setCommands((prev) => {
+      const index = prev.findIndex((entry) => entry.id === record.id);
+      if (index >= 0) {
+        const next = [...prev];
+        next[index] = record;
+        return next;
+      }
+      return [...prev.slice(-(COMMAND_HISTORY_LIMIT - 1)), record];
+    });
+  };
+
+  /**
+   * Send a command through the acknowledgement layer; once the device has
+   * it, remember it for session resume and tell the command listeners
+   */
+  const writeCommand = async (command: string): Promise<CommandRecord> => {
+    const commandAck = commandAckRef.current;
+    if (!commandAck) {
+      throw new Error('Not connected to device');
+    }
+    const speed = parseSpeedCommand(command);
+    if (stopLatchedRef.current && speed !== null && speed > 0) {
+      throw new Error('Motor stop is latched; only M0 may be sent');
+    }
+
+    const record = await commandAck.send(command);
+    if (record.status === 'confirmed' || record.status === 'sent') {
+      recordSessionCommand(sessionRef.current, command);
+      for (const listener of Array.from(commandListenersRef.current)) {
+        listener(command);
+      }
+    }
+    return record;
+  };
+
+  /**
+   * Subscribe to commands the device has taken (confirmed, or written to
+   * firmware without acknowledgements), without waiting for a render
+   * @returns Unsubscribe function
+   */
+  const onCommandApplied = usePersistFn((listener: (command: string) => void) => {
+    commandListenersRef.current.add(listener);
+    return () => {
+      commandListenersRef.current.delete(listener);
+    };
+  });
+
+  /**
+   * Query firmware version and capabilities, and apply them to parsing and
+   * command acknowledgement. Legacy firmware yields DEFAULT_CAPABILITIES.
+   */
+  const identifyDevice = async () => {
+    const commandQueue = commandQueueRef.current;
+    if (!commandQueue) return;
+
+    const result = await handshakeRef.current.run((query) => commandQueue.send(query));
+    // Connection replaced while waiting
+    if (commandQueueRef.current !== commandQueue) return;
+
+    pipeline.setLimits({ maxSpeed: result.maxSpeed });
+    // Always applied: a reconnect may reach different firmware than the last handshake
+    commandAckRef.current?.setAckSupport(getAckSupport(result));
+    setCapabilities(result);
+  };
+
+  /**
+   * Use the saved severity bands of a device
+   */
+  const loadDeviceSeverity = (id: string | null) => {
+    const config = loadSeverityConfig(id);
+    setDeviceId(id);
+    setSeverityConfigState(config);
+    pipeline.setSeverityConfig(config);
+  };
+
+  /**
+   * Apply new severity bands and save them for the current device
+   */
+  const updateSeverityConfig = (config: SeverityConfig) => {
+    saveSeverityConfig(deviceId, config);
+    setSeverityConfigState(config);
+    pipeline.setSeverityConfig(config);
+  };
+
+  /**
+   * Return the current device to the default severity bands
+   */
+  const resetSeverityConfig = () => {
+    clearSeverityConfig(deviceId);
+    setSeverityConfigState(DEFAULT_SEVERITY_CONFIG);
+    pipeline.setSeverityConfig(DEFAULT_SEVERITY_CONFIG);
+  };
+
+  /**
+   * Stop the reconnect loop
+   */
+  const stopReconnect = () => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    pendingAttemptRef.current = null;
+    setReconnect(null);
+  };
+
+  /**
+   * Schedule reconnect attempt number `attempt` after the backoff delay
+   */
+  const scheduleReconnect = (attempt: number) => {
+    const policy = policyRef.current;
+    if (attempt > policy.maxAttempts) {
+      stopReconnect();
+      machine.dispatch({
+        type: 'fail',
+        error: `Reconnection failed after ${policy.maxAttempts} attempts`,
+      });
+      return;
+    }
+
+    const delay = getReconnectDelay(attempt, policy);
+    setNow(Date.now());
+    setReconnect({ attempt, maxAttempts: policy.maxAttempts, nextAttemptAt: Date.now() + delay });
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      void attemptReconnect(attempt).catch((err) => {
+        setCommandError(err instanceof Error ? err.message : 'Reconnection failed');
+      });
+    }, delay);
+  };
+
+  /**
+   * Reopen the link and restore the session
+   */
+  const attemptReconnect = async (attempt: number) => {
+    const transport = transportRef.current;
+    if (!transport || machine.phase !== 'reconnecting') return;
+
+    const pending = { attempt };
+    pendingAttemptRef.current = pending;
+    setReconnect({ attempt, maxAttempts: policyRef.current.maxAttempts, nextAttemptAt: null });
+
+    try {
+      await transport.reconnect();
+    } catch (err) {
+      // Superseded by a timeout or a user disconnect
+      if (pendingAttemptRef.current !== pending) return;
+      pendingAttemptRef.current = null;
+      const message = err instanceof Error ? err.message : 'Reconnection failed';
+      machine.dispatch({ type: 'retry', error: message });
+      scheduleReconnect(attempt + 1);
+      return;
+    }
+
+    if (pendingAttemptRef.current !== pending) return;
+    pendingAttemptRef.current = null;
+    setReconnect(null);
+    setCommandError(null);
+    pipeline.reset();
+
+    try {
+      await identifyDevice();
+      for (const command of getResumeCommands(sessionRef.current, stopLatchedRef.current)) {
+        // The user may disconnect, or the interlock trip, while the session is restored
+        if (transportRef.current !== transport) return;
+        const speed = parseSpeedCommand(command);
+        if (stopLatchedRef.current && speed !== null && speed > 0) continue;
+
+        const record = await writeCommand(command);
+        if (record.status === 'failed') {
+          setCommandError(`Failed to restore session: ${record.error}`);
+          break;
+        }
+      }
+    } catch (err) {
+      if (transportRef.current !== transport) return;
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setCommandError(`Failed to restore session: ${message}`);
+    }
+  };
+
+  /**
+   * Detach listeners from the current transport
+   */
+  const detachTransport = () => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+    commandQueueRef.current?.clear('Device disconnected');
+    commandQueueRef.current = null;
+    commandAckRef.current?.reset('Device disconnected');
+    commandAckRef.current = null;
+    transportRef.current = null;
+  };
+
+  /**
+   * Connect to the device using the given transport (or the default one)
+   */
+  const connect = async (transport: MotorTransport = createTransport()) => {
+    stopReconnect();
+    const previous = transportRef.current;
+    detachTransport();
+    previous?.disconnect().catch(() => {});
+
+    setCommandError(null);
+    setCapabilities(null);
+    sessionRef.current = createSessionCommands();
+    pipeline.reset();
+    debugDecoderRef.current = new TextDecoder();
+    clearDiagnostics();
+    setAnomalyHistory(createAnomalyHistory());
+
+    transportRef.current = transport;
+    const commandQueue = new CommandWriteQueue(transport, {
+      onWrite: (command) => addDebugMessage('sent', command),
+    });
+    commandQueueRef.current = commandQueue;
+    commandAckRef.current = new CommandAckLayer(commandQueue, {
+      ...ack,
+      onUpdate: handleCommandUpdate,
+    });
+    const offData = pipeline.attach(transport);
+    const offState = transport.onStateChange(handleStateChange);
+    unsubscribeRef.current = () => {
+      offData();
+      offState();
+    };
+
+    try {
+      await transport.connect();
+    } catch {
+      // Error is reported through the state listener
+      return;
+    }
+    loadDeviceSeverity(transport.deviceId);
+    await identifyDevice();
+  };
+
+  /**
+   * Disconnect from the device, abort a pending connection or stop reconnecting
+   */
+  const disconnect = async () => {
+    stopReconnect();
+    machine.dispatch({ type: 'disconnect' });
+
+    const transport = transportRef.current;
+    detachTransport();
+    try {
+      await transport?.disconnect();
+    } catch (err) {
+      console.error('Disconnect error:', err);
+    }
+
+    pipeline.reset();
+    setCapabilities(null);
+    machine.dispatch({ type: 'closed' });
+  };
+
+  /**
+   * Hold the motor stopped (safety interlock trip) until released: speed
+   * commands other than M0 are refused, also when restoring the session
+   */
+  const setStopLatched = (latched: boolean) => {
+    stopLatchedRef.current = latched;
+  };
+
+  /**
+   * Send command to motor control board
+   * @returns Final record: confirmed, sent (firmware without acks) or superseded
+   * @throws CommandError if the command failed or was rejected by the device
+   */
+  const sendCommand = async (command: string): Promise<CommandRecord> => {
+    if (!connected) {
+      throw new Error('Not connected to device');
+    }
+
+    const invalid = validateCommand(capabilities ?? DEFAULT_CAPABILITIES, command);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+
+    const record = await writeCommand(command);
+    if (record.status === 'failed') {
+      throw new CommandError(record);
+    }
+    return record;
+  };
+
+  // Mirror the state machine into React state
+  useEffect(() => machine.subscribe(setConnection), [machine]);
+
+  // Downstream consumers of the telemetry pipeline
+  useEffect(() => {
+    const subscriptions = [
+      pipeline.on('telemetry', ({ telemetry }) => setMotorState(telemetry)),
+      pipeline.on('telemetry', ({ telemetry, receivedAt }) => {
+        const source = telemetry.anomalySource;
+        if (source) {
+          setAnomalyHistory((prev) =>
+            appendAnomalySample(prev, source, { at: receivedAt, value: telemetry.anomalyPercentage })
+          );
+        }
+      }),
+      pipeline.on('counters', handleCounters),
+      pipeline.on('diagnostic', handleDiagnostic),
+      pipeline.on('chunk', handleChunk),
+      recorderRef.current.attach(pipeline),
+    ];
+    return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+  }, [pipeline]);
+
+  // Tick the reconnect countdown
+  useEffect(() => {
+    if (!reconnect?.nextAttemptAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [reconnect?.nextAttemptAt]);
+
+  // Release the transport when the component unmounts
+  useEffect(() => {
+    return () => {
+      const transport = transportRef.current;
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+      }
+      if (flushTimerRef.current) {
+        clearTimeout(flushTimerRef.current);
+      }
+      pendingAttemptRef.current = null;
+      machine.dispose();
+      detachTransport();
+      transport?.disconnect();
+    };
+  }, [machine]);
+
+  let connectionStatus = CONNECTION_PHASE_LABELS[connection.phase];
+  if (reconnect) {
+    const progress = `attempt ${reconnect.attempt}/${reconnect.maxAttempts}`;
+    connectionStatus = reconnect.nextAttemptAt
+      ? `Reconnecting in ${Math.max(0, Math.ceil((reconnect.nextAttemptAt - now) / 1000))}s (${progress})`
+      : `${connectionStatus} (${progress})`;
+  }
+
+  return {
+    connection,
+    connected,
+    connectionStatus,
+    reconnect,
+    error: connection.error ?? commandError,
+    setError: setCommandError,
+    motorState,
+    anomalyHistory,
+    debugMessages,
+    clearDebugMessages,
+    diagnostics,
+    telemetryCounters,
+    clearDiagnostics,
+    pipeline,
+    recorder: recorderRef.current,
+    commands,
+    capabilities,
+    deviceId,
+    severityConfig,
+    updateSeverityConfig,
+    resetSeverityConfig,
+    connect,
+    disconnect,
+    sendCommand,
+    onCommandApplied,
+    setStopLatched,
+  };
+}
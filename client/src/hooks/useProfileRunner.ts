@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from 'react';
+import { ProfileRunner, type ProfilePlan, type ProfilePoint, type ProfileRunState } from '@/lib/speed-profile';
+import type { TelemetryPipeline } from '@/lib/telemetry-pipeline';
+import { usePersistFn } from './usePersistFn';
+
+interface UseProfileRunnerOptions {
+  pipeline: TelemetryPipeline;
+  connected: boolean;
+  /** Write a setpoint (rad/s) through the normal command path */
+  sendSpeed: (speed: number) => void;
+  /** Device setpoint step (rad/s) */
+  resolution: number;
+}
+
+/** Measured samples kept for the chart */
+const MAX_TRACE_POINTS = 5000;
+
+/**
+ * useProfileRunner Hook
+ *
+ * Runs speed profiles and records the measured speed against the run time
+ * so the chart can overlay it on the plan. A run is paused when the link
+ * drops; it continues only when the user resumes it.
+ */
+export function useProfileRunner({ pipeline, connected, sendSpeed, resolution }: UseProfileRunnerOptions) {
+  const [plan, setPlan] = useState<ProfilePlan | null>(null);
+  const [state, setState] = useState<ProfileRunState>('idle');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [trace, setTrace] = useState<ProfilePoint[]>([]);
+  const runnerRef = useRef<ProfileRunner | null>(null);
+
+  const send = usePersistFn(sendSpeed);
+
+  /**
+   * Start a new run from the beginning of a plan
+   */
+  const start = (next: ProfilePlan) => {
+    runnerRef.current?.abort();
+    const runner = new ProfileRunner(next, send, {
+      resolution,
+      onChange: () => {
+        setState(runner.state);
+        setElapsedMs(runner.elapsedMs);
+      },
+    });
+    runnerRef.current = runner;
+    setPlan(next);
+    setTrace([]);
+    runner.start();
+  };
+
+  const pause = () => runnerRef.current?.pause();
+  const resume = () => runnerRef.current?.resume();
+  const abort = () => runnerRef.current?.abort();
+
+  /**
+   * Forget the last run (back to editing)
+   */
+  const clear = () => {
+    runnerRef.current?.abort();
+    runnerRef.current = null;
+    setPlan(null);
+    setState('idle');
+    setElapsedMs(0);
+    setTrace([]);
+  };
+
+  // Measured speed against run time while a run is active
+  useEffect(
+    () =>
+      pipeline.on('telemetry', ({ telemetry }) => {
+        const runner = runnerRef.current;
+        if (runner?.state !== 'running') return;
+        const sample = { at: runner.elapsedMs, speed: telemetry.speed };
+        setTrace((prev) => [...prev.slice(-(MAX_TRACE_POINTS - 1)), sample]);
+      }),
+    [pipeline]
+  );
+
+  useEffect(() => {
+    if (!connected) runnerRef.current?.pause();
+  }, [connected]);
+
+  // Stop the timer on unmount; the motor keeps its last setpoint
+  useEffect(() => () => runnerRef.current?.pause(), []);
+
+  return {
+    plan,
+    state,
+    elapsedMs,
+    trace,
+    /** A run is in progress or paused */
+    active: state === 'running' || state === 'paused',
+    start,
+    pause,
+    resume,
+    abort,
+    clear,
+  };
+}
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  loadInterlockConfig,
+  SafetyInterlock,
+  saveInterlockConfig,
+  type InterlockConfig,
+  type InterlockTrip,
+} from '@/lib/safety-interlock';
+import type { TelemetryPipeline } from '@/lib/telemetry-pipeline';
+import type { TelemetryRecorder } from '@/lib/telemetry-recorder';
+import { usePersistFn } from './usePersistFn';
+
+interface UseSafetyInterlockOptions {
+  pipeline: TelemetryPipeline;
+  recorder: TelemetryRecorder;
+  connected: boolean;
+  /** Device maximum speed (rad/s), the default over-speed limit */
+  maxSpeed: number;
+  /** Send M0 (and abort anything else driving the motor) */
+  stopMotor: () => void;
+  /** Hold the link to stop commands, also across reconnects, while tripped */
+  latchStop: (latched: boolean) => void;
+}
+
+/** Trips kept in the log */
+const MAX_TRIP_LOG = 20;
+/** Interval of the stale telemetry check (ms) */
+const STALE_CHECK_INTERVAL_MS = 500;
+
+/**
+ * useSafetyInterlock Hook
+ *
+ * Runs the host-side safety interlock while the link is up. A trip stops
+ * the motor at once and stays latched, blocking speed commands other than
+ * stop, until the operator acknowledges it.
+ */
+export function useSafetyInterlock({
+  pipeline,
+  recorder,
+  connected,
+  maxSpeed,
+  stopMotor,
+  latchStop,
+}: UseSafetyInterlockOptions) {
+  const [config, setConfig] = useState<InterlockConfig>(() => loadInterlockConfig());
+  const [trip, setTrip] = useState<InterlockTrip | null>(null);
+  const [log, setLog] = useState<InterlockTrip[]>([]);
+
+  const stop = usePersistFn(stopMotor);
+  const latch = usePersistFn(latchStop);
+
+  const interlockRef = useRef<SafetyInterlock | null>(null);
+  if (!interlockRef.current) {
+    interlockRef.current = new SafetyInterlock({
+      config,
+      recorder,
+      maxSpeed,
+      onTrip: (next) => {
+        // Latch first: if the stop fails with the link, the reconnect must not restore the speed
+        latch(true);
+        stop();
+        setTrip(next);
+        setLog((prev) => [next, ...prev].slice(0, MAX_TRIP_LOG));
+      },
+    });
+  }
+  const interlock = interlockRef.current;
+
+  useEffect(() => interlock.attach(pipeline), [pipeline]);
+
+  useEffect(() => interlock.setMaxSpeed(maxSpeed), [maxSpeed]);
+
+  // Armed only while the link is up; stale telemetry is checked on a timer
+  useEffect(() => {
+    if (!connected) {
+      interlock.disarm();
+      return;
+    }
+    interlock.arm();
+    const timer = setInterval(() => interlock.check(), STALE_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [connected]);
+
+  /**
+   * Apply and save new rules
+   */
+  const updateConfig = (next: InterlockConfig) => {
+    saveInterlockConfig(next);
+    interlock.setConfig(next);
+    setConfig(next);
+  };
+
+  /**
+   * Operator acknowledgement of the latched trip
+   */
+  const acknowledge = () => {
+    const cleared = interlock.acknowledge();
+    if (!cleared) return;
+    latch(false);
+    const acknowledgedAt = Date.now();
+    setLog((prev) => prev.map((entry) => (entry.id === cleared.id ? { ...entry, acknowledgedAt } : entry)));
+    setTrip(null);
+  };
+
+  return { config, updateConfig, trip, log, acknowledge };
+}
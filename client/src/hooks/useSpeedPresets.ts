@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import {
+  clearSpeedPresets,
+  DEFAULT_SPEED_PRESETS,
+  loadSpeedPresets,
+  saveSpeedPresets,
+  type SpeedPreset,
+} from '@/lib/speed-presets';
+
+/**
+ * useSpeedPresets Hook
+ *
+ * Speed presets of the connected device, reloaded whenever the device
+ * changes. Unidentified devices share the default entry.
+ */
+export function useSpeedPresets(deviceId: string | null) {
+  const [presets, setPresets] = useState<SpeedPreset[]>(() => loadSpeedPresets(deviceId));
+
+  useEffect(() => {
+    setPresets(loadSpeedPresets(deviceId));
+  }, [deviceId]);
+
+  /**
+   * Apply and save presets edited in the settings dialog
+   */
+  const updatePresets = (next: SpeedPreset[]) => {
+    saveSpeedPresets(deviceId, next);
+    setPresets(next);
+  };
+
+  /**
+   * Return the device to the default presets
+   */
+  const resetPresets = () => {
+    clearSpeedPresets(deviceId);
+    setPresets(DEFAULT_SPEED_PRESETS);
+  };
+
+  return { presets, updatePresets, resetPresets };
+}
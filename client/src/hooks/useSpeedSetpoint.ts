@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CommandRecord } from '@/lib/command-ack';
+import { clampSetpoint, formatSpeedCommand, SetpointThrottle, type SpeedLimits } from '@/lib/speed-setpoint';
+import { usePersistFn } from './usePersistFn';
+
+interface UseSpeedSetpointOptions {
+  sendCommand: (command: string) => Promise<CommandRecord>;
+  limits: SpeedLimits;
+  onError: (message: string) => void;
+}
+
+/**
+ * useSpeedSetpoint Hook
+ *
+ * State of the continuous speed control: the setpoint last written to the
+ * device (commanded) and the value the user is dragging to (target).
+ * Dragging writes rate-limited setpoints; releasing the slider, typing a
+ * value or clicking a preset writes at once.
+ *
+ * The commanded speed follows a write at once and rolls back to the last
+ * setpoint the device accepted if the write fails.
+ */
+export function useSpeedSetpoint({ sendCommand, limits, onError }: UseSpeedSetpointOptions) {
+  const [commanded, setCommanded] = useState(0);
+  const [target, setTarget] = useState<number | null>(null);
+  const [pending, setPending] = useState(false);
+  // Last setpoint the device accepted, and the number of the latest write
+  const confirmedRef = useRef(0);
+  const writeSeqRef = useRef(0);
+
+  const send = usePersistFn(sendCommand);
+  const reportError = usePersistFn(onError);
+
+  const write = async (speed: number) => {
+    const seq = ++writeSeqRef.current;
+    setCommanded(speed);
+    setPending(true);
+    try {
+      const record = await send(formatSpeedCommand(speed));
+      // A superseded setpoint never reached the device; the newer one settles the state
+      if (record.status !== 'superseded') {
+        confirmedRef.current = speed;
+      }
+    } catch (err) {
+      reportError(err instanceof Error ? err.message : `Failed to set speed ${speed} rad/s`);
+      // A newer write owns the state; only the latest one rolls back
+      if (seq === writeSeqRef.current) {
+        setCommanded(confirmedRef.current);
+      }
+    } finally {
+      if (seq === writeSeqRef.current) {
+        setPending(false);
+      }
+    }
+  };
+
+  const throttleRef = useRef<SetpointThrottle | null>(null);
+  if (!throttleRef.current) {
+    throttleRef.current = new SetpointThrottle((speed) => void write(speed));
+  }
+
+  useEffect(() => () => throttleRef.current?.cancel(), []);
+
+  /**
+   * Follow the slider while it is dragged
+   */
+  const preview = (speed: number) => {
+    const clamped = clampSetpoint(speed, limits);
+    setTarget(clamped);
+    throttleRef.current?.update(clamped);
+  };
+
+  /**
+   * Apply a final setpoint (slider released, value entered, preset)
+   */
+  const commit = async (speed: number) => {
+    const clamped = clampSetpoint(speed, limits);
+    throttleRef.current?.cancel();
+    setTarget(null);
+    await write(clamped);
+  };
+
+  /**
+   * Forget the commanded speed (fresh connection, the motor is stopped)
+   */
+  const reset = () => {
+    throttleRef.current?.cancel();
+    writeSeqRef.current++;
+    confirmedRef.current = 0;
+    setTarget(null);
+    setCommanded(0);
+    setPending(false);
+  };
+
+  return {
+    commanded,
+    /** A write of the commanded speed awaits the device */
+    pending,
+    /** Slider position: the dragged value, else the commanded speed */
+    setpoint: target ?? commanded,
+    dragging: target !== null,
+    preview,
+    commit,
+    reset,
+  };
+}
@@ -0,0 +1,41 @@
+import { useState } from 'react';
+import {
+  formatSpeed,
+  loadSpeedUnitSettings,
+  saveSpeedUnitSettings,
+  type SpeedUnit,
+  type SpeedUnitContext,
+  type SpeedUnitSettings,
+} from '@/lib/speed-units';
+
+/**
+ * useSpeedUnits Hook
+ *
+ * The user's speed display units (saved in the browser) and formatters
+ * bound to them and to the connected device's maximum speed.
+ */
+export function useSpeedUnits(maxSpeed: number) {
+  const [settings, setSettings] = useState<SpeedUnitSettings>(() => loadSpeedUnitSettings());
+  const context: SpeedUnitContext = { bladeCount: settings.bladeCount, maxSpeed };
+
+  /**
+   * Apply and save new unit settings
+   */
+  const updateSettings = (next: SpeedUnitSettings) => {
+    saveSpeedUnitSettings(next);
+    setSettings(next);
+  };
+
+  return {
+    settings,
+    updateSettings,
+    context,
+    /** Format a speed (rad/s) in the given unit */
+    format: (radPerSec: number, unit: SpeedUnit) => formatSpeed(radPerSec, unit, context),
+    /** Format a speed (rad/s) in the primary unit */
+    formatPrimary: (radPerSec: number) => formatSpeed(radPerSec, settings.primary, context),
+    /** Format a speed (rad/s) in the secondary unit, null if none is selected */
+    formatSecondary: (radPerSec: number) =>
+      settings.secondary ? formatSpeed(radPerSec, settings.secondary, context) : null,
+  };
+}
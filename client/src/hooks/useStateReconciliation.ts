@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  INITIAL_RECONCILE_STATE,
+  StateReconciler,
+  type DeviceStop,
+  type ReconcileState,
+} from '@/lib/state-reconciler';
+import { parseSpeedCommand } from '@/lib/speed-setpoint';
+import type { TelemetryPipeline } from '@/lib/telemetry-pipeline';
+import { usePersistFn } from './usePersistFn';
+
+interface UseStateReconciliationOptions {
+  pipeline: TelemetryPipeline;
+  connected: boolean;
+  /** Speed setpoint shown by the controls (rad/s) */
+  commandedSpeed: number;
+  /** Auto-shutoff state shown by the toggle */
+  commandedAutoShutoff: boolean;
+  /** Subscribe to commands as the device takes them */
+  onCommandApplied: (listener: (command: string) => void) => () => void;
+  /** The board stopped the motor on its own */
+  onDeviceStop: (stop: DeviceStop) => void;
+}
+
+/**
+ * useStateReconciliation Hook
+ *
+ * Checks the commanded speed and auto-shutoff state against the telemetry
+ * while the link is up, and reports where the board disagrees.
+ */
+export function useStateReconciliation({
+  pipeline,
+  connected,
+  commandedSpeed,
+  commandedAutoShutoff,
+  onCommandApplied,
+  onDeviceStop,
+}: UseStateReconciliationOptions) {
+  const [state, setState] = useState<ReconcileState>(INITIAL_RECONCILE_STATE);
+
+  const reportDeviceStop = usePersistFn(onDeviceStop);
+
+  const reconcilerRef = useRef<StateReconciler | null>(null);
+  if (!reconcilerRef.current) {
+    reconcilerRef.current = new StateReconciler({
+      onChange: setState,
+      onDeviceStop: reportDeviceStop,
+    });
+  }
+  const reconciler = reconcilerRef.current;
+
+  useEffect(() => reconciler.attach(pipeline), [pipeline]);
+
+  // Take a speed command as soon as the device confirms it: telemetry that
+  // arrives before the controls re-render must not look like a device stop
+  useEffect(
+    () =>
+      onCommandApplied((command) => {
+        const speed = parseSpeedCommand(command);
+        if (speed !== null) reconciler.setCommandedSpeed(speed);
+      }),
+    [onCommandApplied]
+  );
+
+  // Setpoint changes that send no command (reset on a fresh connection)
+  useEffect(() => reconciler.setCommandedSpeed(commandedSpeed), [commandedSpeed]);
+
+  useEffect(() => reconciler.setCommandedAutoShutoff(commandedAutoShutoff), [commandedAutoShutoff]);
+
+  // A (re)connected board gets a fresh grace period to reflect the session
+  useEffect(() => {
+    if (connected) reconciler.restart();
+  }, [connected]);
+
+  return { ...state, dismiss: () => reconciler.dismiss() };
+}
@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react';
+import { computeSpectrum, type SpectrumRequest, type SpectrumResult } from '@/lib/spectrum';
+import type { TelemetryPipeline, WaveformBlockEvent } from '@/lib/telemetry-pipeline';
+import type { WaveformAssemblerStats } from '@/lib/waveform-assembler';
+import type { WaveformSource } from '@shared/waveform-frame';
+
+export interface WaveformScope {
+  source: WaveformSource;
+  sampleRate: number;
+  /** Most recent samples per channel, oldest first */
+  channels: Float32Array[];
+}
+
+export interface UseWaveformStreamOptions {
+  /** Samples per channel shown by the oscilloscope (default: 512) */
+  scopeLength?: number;
+  /** FFT length (default: 1024) */
+  fftSize?: number;
+  /** Spectra kept for the waterfall (default: 80) */
+  waterfallRows?: number;
+  /** Time without blocks after which the stream counts as stopped (ms, default: 2000) */
+  idleTimeoutMs?: number;
+}
+
+/**
+ * useWaveformStream Hook
+ *
+ * Collects the waveform blocks published by the telemetry pipeline into a
+ * rolling window per channel, and keeps the spectrum of one channel and its
+ * recent history (waterfall) up to date. Spectra are computed in a Web
+ * Worker; a new window is sent only once the previous one is answered, so
+ * a slow device never queues up work. If the worker fails to load or
+ * throws, spectra are computed on the main thread from then on.
+ */
+export function useWaveformStream(pipeline: TelemetryPipeline, options: UseWaveformStreamOptions = {}) {
+  const { scopeLength = 512, fftSize = 1024, waterfallRows = 80, idleTimeoutMs = 2000 } = options;
+
+  const [scope, setScope] = useState<WaveformScope | null>(null);
+  const [spectrum, setSpectrum] = useState<SpectrumResult | null>(null);
+  const [waterfall, setWaterfall] = useState<Float32Array[]>([]);
+  const [channel, setChannel] = useState(0);
+  const [streaming, setStreaming] = useState(false);
+  const [stats, setStats] = useState<WaveformAssemblerStats>(pipeline.getWaveformStats());
+
+  /** Rolling sample window per channel, long enough for the FFT and the scope */
+  const windowRef = useRef<{ key: string; channels: Float32Array[]; filled: number } | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const busyRef = useRef(false);
+  const requestIdRef = useRef(0);
+  const channelRef = useRef(channel);
+  channelRef.current = channel;
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const handleSpectrum = (result: SpectrumResult) => {
+    setSpectrum(result);
+    setWaterfall((prev) => [...prev.slice(-(waterfallRows - 1)), result.magnitudes]);
+  };
+
+  /**
+   * Hand the latest window of the selected channel to the worker
+   */
+  const requestSpectrum = (sampleRate: number) => {
+    const rolling = windowRef.current;
+    if (busyRef.current || !rolling || rolling.filled < fftSize) return;
+
+    const samples = rolling.channels[Math.min(channelRef.current, rolling.channels.length - 1)];
+    const request: SpectrumRequest = {
+      id: ++requestIdRef.current,
+      samples: samples.slice(samples.length - fftSize),
+      sampleRate,
+      size: fftSize,
+    };
+    busyRef.current = true;
+    if (workerRef.current) {
+      workerRef.current.postMessage(request, [request.samples.buffer]);
+    } else {
+      handleSpectrum(computeSpectrum(request));
+      busyRef.current = false;
+    }
+  };
+
+  const handleBlock = ({ block }: WaveformBlockEvent) => {
+    const capacity = Math.max(scopeLength, fftSize);
+    const key = `${block.source}/${block.sampleRate}/${block.channels.length}`;
+    let rolling = windowRef.current;
+    if (!rolling || rolling.key !== key) {
+      // Different signal: start over and ignore the spectrum in flight
+      rolling = { key, channels: block.channels.map(() => new Float32Array(capacity)), filled: 0 };
+      windowRef.current = rolling;
+      requestIdRef.current++;
+      setWaterfall([]);
+      setSpectrum(null);
+    }
+
+    const length = Math.min(block.channels[0].length, capacity);
+    rolling.channels.forEach((samples, index) => {
+      samples.copyWithin(0, length);
+      samples.set(block.channels[index].subarray(-length), capacity - length);
+    });
+    rolling.filled = Math.min(capacity, rolling.filled + length);
+
+    setScope({
+      source: block.source,
+      sampleRate: block.sampleRate,
+      channels: rolling.channels.map((samples) => samples.slice(capacity - Math.min(scopeLength, rolling.filled))),
+    });
+    setStats(pipeline.getWaveformStats());
+    setStreaming(true);
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(() => setStreaming(false), idleTimeoutMs);
+
+    requestSpectrum(block.sampleRate);
+  };
+
+  /**
+   * Switch the channel the spectrum is computed from
+   */
+  const selectChannel = (index: number) => {
+    requestIdRef.current++;
+    setChannel(index);
+    setWaterfall([]);
+  };
+
+  // Spectrum worker for the lifetime of the component
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    const worker = new Worker(new URL('../lib/spectrum-worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<SpectrumResult>) => {
+      busyRef.current = false;
+      // Answers to requests made before a signal or channel change are stale
+      if (event.data.id === requestIdRef.current) {
+        handleSpectrum(event.data);
+      }
+    });
+    const fallBack = (reason: string) => {
+      console.warn(`Spectrum worker failed (${reason}); computing spectra on the main thread`);
+      worker.terminate();
+      if (workerRef.current === worker) {
+        workerRef.current = null;
+      }
+      // The request in flight is lost; the next block starts a new one
+      busyRef.current = false;
+    };
+    worker.addEventListener('error', (event) => fallBack(event.message || 'failed to load'));
+    worker.addEventListener('messageerror', () => fallBack('unreadable message'));
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      busyRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => pipeline.on('waveform', handleBlock), [pipeline]);
+
+  useEffect(() => {
+    return () => {
+      if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    };
+  }, []);
+
+  return {
+    scope,
+    spectrum,
+    waterfall,
+    channel,
+    selectChannel,
+    streaming,
+    stats,
+  };
+}
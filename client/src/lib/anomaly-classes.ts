@@ -0,0 +1,72 @@
+/**
+ * Anomaly Classes
+ *
+ * Fault classes the on-board models score separately, with the guidance
+ * shown to the operator when a class dominates a detected anomaly.
+ *
+ * Wire format: one optional "Key: N%" token per class, e.g.
+ * "Imbalance: 12% Bearing: 3% Airflow: 1% Mount: 0%"
+ */
+
+export type AnomalyClass = 'imbalance' | 'bearingWear' | 'blockedAirflow' | 'looseMount';
+
+export interface AnomalyClassInfo {
+  id: AnomalyClass;
+  /** Telemetry key as sent by the firmware */
+  key: string;
+  /** Property name in MotorTelemetry.fields */
+  fieldName: string;
+  label: string;
+  /** Plain-language explanation and what to check */
+  guidance: string;
+}
+
+export type AnomalyClassScores = Partial<Record<AnomalyClass, number>>;
+
+export const ANOMALY_CLASSES: readonly AnomalyClassInfo[] = [
+  {
+    id: 'imbalance',
+    key: 'Imbalance',
+    fieldName: 'imbalanceScore',
+    label: 'Imbalance',
+    guidance: 'The rotor is out of balance. Check the fan blades for damage, dirt build-up or a missing balance weight.',
+  },
+  {
+    id: 'bearingWear',
+    key: 'Bearing',
+    fieldName: 'bearingWearScore',
+    label: 'Bearing wear',
+    guidance: 'The bearings are wearing out. Listen for grinding or rumbling and check the shaft for play.',
+  },
+  {
+    id: 'blockedAirflow',
+    key: 'Airflow',
+    fieldName: 'blockedAirflowScore',
+    label: 'Blocked airflow',
+    guidance: 'Airflow is restricted. Clear the intake and outlet and check the filter.',
+  },
+  {
+    id: 'looseMount',
+    key: 'Mount',
+    fieldName: 'looseMountScore',
+    label: 'Loose mount',
+    guidance: 'The motor is not firmly mounted. Tighten the mounting screws and check the dampers.',
+  },
+];
+
+/**
+ * Class with the highest score
+ * @returns Class and score, or null if no class scores were reported
+ */
+export function getTopAnomalyClass(
+  scores: AnomalyClassScores
+): { info: AnomalyClassInfo; score: number } | null {
+  let top: { info: AnomalyClassInfo; score: number } | null = null;
+  for (const info of ANOMALY_CLASSES) {
+    const score = scores[info.id];
+    if (score !== undefined && (!top || score > top.score)) {
+      top = { info, score };
+    }
+  }
+  return top;
+}
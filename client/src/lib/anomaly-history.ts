@@ -0,0 +1,67 @@
+/**
+ * Anomaly History
+ *
+ * Recent anomaly scores kept separately per detector source. IMU and audio
+ * detectors score on different scales and noise levels, so mixing them in
+ * one series would make a source switch look like an anomaly.
+ */
+
+import type { AnomalySource } from './device-capabilities';
+
+export interface AnomalySample {
+  /** Receive time (ms since epoch) */
+  at: number;
+  /** Anomaly score (0-100%) */
+  value: number;
+}
+
+export type AnomalyHistory = Record<AnomalySource, AnomalySample[]>;
+
+export interface AnomalySummary {
+  latest: number | null;
+  peak: number | null;
+  average: number | null;
+}
+
+export const ANOMALY_SOURCE_LABELS: Record<AnomalySource, string> = {
+  imu: 'IMU (vibration)',
+  audio: 'Audio (microphone)',
+};
+
+/** Samples kept per source (2 minutes at 2 Hz) */
+export const DEFAULT_ANOMALY_HISTORY_LENGTH = 240;
+
+export function createAnomalyHistory(): AnomalyHistory {
+  return { imu: [], audio: [] };
+}
+
+/**
+ * Append a sample to the history of its source
+ * @returns New history object; the other source's series is shared
+ */
+export function appendAnomalySample(
+  history: AnomalyHistory,
+  source: AnomalySource,
+  sample: AnomalySample,
+  limit = DEFAULT_ANOMALY_HISTORY_LENGTH
+): AnomalyHistory {
+  return {
+    ...history,
+    [source]: [...history[source].slice(-(limit - 1)), sample],
+  };
+}
+
+/**
+ * Latest, peak and average score of one series
+ */
+export function summarizeAnomalySamples(samples: readonly AnomalySample[]): AnomalySummary {
+  if (samples.length === 0) {
+    return { latest: null, peak: null, average: null };
+  }
+  const values = samples.map((sample) => sample.value);
+  return {
+    latest: values[values.length - 1],
+    peak: Math.max(...values),
+    average: values.reduce((total, value) => total + value, 0) / values.length,
+  };
+}
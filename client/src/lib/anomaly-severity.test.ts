@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SEVERITY_CONFIG, SeverityTracker } from './anomaly-severity';
+import { createClockedPipeline } from './telemetry-fixture';
+import type { TelemetryFrameEvent } from './telemetry-pipeline';
+
+describe('SeverityTracker', () => {
+  it('reports a higher band only after it held for the dwell time', () => {
+    const tracker = new SeverityTracker(DEFAULT_SEVERITY_CONFIG);
+
+    expect(tracker.update(40, 0).id).toBe('normal');
+    expect(tracker.update(40, 999).id).toBe('normal');
+    expect(tracker.update(40, 1000).id).toBe('warning');
+  });
+
+  it('restarts the dwell time when the score falls back', () => {
+    const tracker = new SeverityTracker(DEFAULT_SEVERITY_CONFIG);
+
+    tracker.update(40, 0);
+    tracker.update(10, 500);
+    expect(tracker.update(40, 1200).id).toBe('normal');
+    expect(tracker.update(40, 2200).id).toBe('warning');
+  });
+
+  it('keeps a band until the score drops below its threshold minus the hysteresis', () => {
+    const tracker = new SeverityTracker({ ...DEFAULT_SEVERITY_CONFIG, dwellMs: 0 });
+    tracker.update(40, 0);
+
+    expect(tracker.update(26, 100).id).toBe('warning');
+    expect(tracker.update(25, 200).id).toBe('warning');
+    expect(tracker.update(24.9, 300).id).toBe('normal');
+  });
+
+  it('steps down with the dwell time as well', () => {
+    const tracker = new SeverityTracker(DEFAULT_SEVERITY_CONFIG);
+    tracker.update(80, 0);
+    tracker.update(80, 1000);
+
+    expect(tracker.update(10, 2000).id).toBe('critical');
+    expect(tracker.update(10, 3000).id).toBe('normal');
+  });
+});
+
+describe('severity in the telemetry pipeline', () => {
+  it('applies the dwell time on the injected clock', () => {
+    const { pipeline, receive } = createClockedPipeline();
+    const frames: TelemetryFrameEvent[] = [];
+    pipeline.on('telemetry', (frame) => frames.push(frame));
+
+    for (const at of [0, 500, 1000]) {
+      receive(at, 'Motor: Running Speed: 10.00 Anomaly: 40%');
+    }
+
+    expect(frames.map((frame) => frame.telemetry.timestamp)).toEqual([0, 500, 1000]);
+    expect(frames.map((frame) => frame.telemetry.anomalyDetected)).toEqual([false, false, true]);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Anomaly Severity
+ *
+ * Named severity bands over the anomaly score, shared by the parser-derived
+ * anomalyDetected flag and every indicator in the UI.
+ *
+ * Band changes are debounced twice so a single noisy sample cannot flip
+ * the indicator:
+ * - hysteresis: the score has to fall this many points below a band's
+ *   threshold before it leaves the band (entering uses the threshold itself)
+ * - dwell time: a new band is reported only after the score has stayed on
+ *   that side of the current band for dwellMs
+ *
+ * The configuration is kept per device in localStorage.
+ */
+
+import { clearSetting, deviceSettingKey, loadSetting, saveSetting } from './settings-storage';
+
+export interface SeverityBand {
+  id: string;
+  label: string;
+  /** Lowest score (%) in the band; the first band starts at 0 */
+  threshold: number;
+  /** Indicator color (CSS color) */
+  color: string;
+  /** Scores in this band count as a detected anomaly */
+  alert: boolean;
+}
+
+export interface SeverityConfig {
+  /** Bands by ascending threshold */
+  bands: SeverityBand[];
+  /** Points below a band's threshold before the score leaves it */
+  hysteresis: number;
+  /** Time a new band must hold before it is reported (ms) */
+  dwellMs: number;
+}
+
+export const DEFAULT_SEVERITY_CONFIG: SeverityConfig = {
+  bands: [
+    { id: 'normal', label: 'Normal', threshold: 0, color: '#22c55e', alert: false },
+    { id: 'warning', label: 'Warning', threshold: 30, color: '#eab308', alert: true },
+    { id: 'critical', label: 'Critical', threshold: 70, color: '#ef4444', alert: true },
+  ],
+  hysteresis: 5,
+  dwellMs: 1000,
+};
+
+const STORAGE_KEY_PREFIX = 'mg24.severity.';
+
+/**
+ * Index of the band containing a score, ignoring hysteresis
+ */
+function findBandIndex(config: SeverityConfig, value: number): number {
+  let index = 0;
+  config.bands.forEach((band, bandIndex) => {
+    if (value >= band.threshold) index = bandIndex;
+  });
+  return index;
+}
+
+/**
+ * Band containing a score, without hysteresis or dwell time
+ * (for single messages parsed outside a stream)
+ */
+export function getSeverityBand(config: SeverityConfig, value: number): SeverityBand {
+  return config.bands[findBandIndex(config, value)];
+}
+
+/**
+ * Check a configuration edited by the user
+ * @returns Error message, or null if the configuration is usable
+ */
+export function validateSeverityConfig(config: SeverityConfig): string | null {
+  const { bands } = config;
+  if (bands.length === 0) {
+    return 'At least one band is required';
+  }
+  if (bands[0].threshold !== 0) {
+    return 'The first band must start at 0%';
+  }
+  for (let index = 0; index < bands.length; index++) {
+    const band = bands[index];
+    if (!band.label.trim()) {
+      return `Band ${index + 1} needs a name`;
+    }
+    if (!Number.isFinite(band.threshold) || band.threshold < 0 || band.threshold > 100) {
+      return `${band.label} threshold must be between 0 and 100%`;
+    }
+    if (index > 0 && band.threshold <= bands[index - 1].threshold) {
+      return `${band.label} threshold must be above ${bands[index - 1].label}`;
+    }
+  }
+  if (!Number.isFinite(config.hysteresis) || config.hysteresis < 0) {
+    return 'Hysteresis must not be negative';
+  }
+  if (!Number.isFinite(config.dwellMs) || config.dwellMs < 0) {
+    return 'Dwell time must not be negative';
+  }
+  return null;
+}
+
+/**
+ * Stateful band evaluation of a stream of scores with hysteresis and
+ * minimum dwell time
+ */
+export class SeverityTracker {
+  private level = 0;
+  /** Side of the current band the score moved to, and since when */
+  private pending: { direction: 1 | -1; since: number } | null = null;
+
+  constructor(private config: SeverityConfig = DEFAULT_SEVERITY_CONFIG) {}
+
+  /**
+   * Currently reported band
+   */
+  get band(): SeverityBand {
+    return this.config.bands[this.level];
+  }
+
+  /**
+   * Replace the configuration; the band is re-evaluated on the next score
+   */
+  setConfig(config: SeverityConfig): void {
+    this.config = config;
+    this.level = Math.min(this.level, config.bands.length - 1);
+    this.pending = null;
+  }
+
+  /**
+   * Evaluate the next score
+   * @param value - Anomaly score (%)
+   * @param at - Time of the score (ms)
+   * @returns Band to report
+   */
+  update(value: number, at: number): SeverityBand {
+    const target = this.classify(value);
+    if (target === this.level) {
+      this.pending = null;
+      return this.band;
+    }
+
+    const direction = target > this.level ? 1 : -1;
+    if (this.pending?.direction !== direction) {
+      this.pending = { direction, since: at };
+    }
+    if (at - this.pending.since >= this.config.dwellMs) {
+      this.level = target;
+      this.pending = null;
+    }
+    return this.band;
+  }
+
+  /**
+   * Return to the lowest band (e.g. after the link dropped)
+   */
+  reset(): void {
+    this.level = 0;
+    this.pending = null;
+  }
+
+  /**
+   * Band the score belongs to, given the current band and the hysteresis
+   */
+  private classify(value: number): number {
+    const { bands, hysteresis } = this.config;
+    const target = findBandIndex(this.config, value);
+    // Stay in a higher band until the score drops below its exit threshold
+    for (let index = this.level; index > target; index--) {
+      if (value >= bands[index].threshold - hysteresis) return index;
+    }
+    return target;
+  }
+}
+
+/**
+ * Saved configuration of a device, or the defaults
+ * @param deviceId - Transport device id; null for the shared default
+ */
+export function loadSeverityConfig(deviceId: string | null, storage?: Storage): SeverityConfig {
+  return loadSetting(
+    deviceSettingKey(STORAGE_KEY_PREFIX, deviceId),
+    DEFAULT_SEVERITY_CONFIG,
+    (stored) => (validateSeverityConfig(stored as SeverityConfig) === null ? (stored as SeverityConfig) : null),
+    storage
+  );
+}
+
+/**
+ * Persist the configuration of a device
+ */
+export function saveSeverityConfig(deviceId: string | null, config: SeverityConfig, storage?: Storage): void {
+  saveSetting(deviceSettingKey(STORAGE_KEY_PREFIX, deviceId), config, storage);
+}
+
+/**
+ * Drop the saved configuration of a device, returning it to the defaults
+ */
+export function clearSeverityConfig(deviceId: string | null, storage?: Storage): void {
+  clearSetting(deviceSettingKey(STORAGE_KEY_PREFIX, deviceId), storage);
+}
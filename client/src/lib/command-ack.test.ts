@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CommandAckLayer, parseCommandReply, type CommandAckOptions } from './command-ack';
+import { CommandWriteQueue } from './command-queue';
+import { FakeTransport } from './fake-transport';
+
+describe('parseCommandReply', () => {
+  it('parses tagged and untagged replies', () => {
+    expect(parseCommandReply('OK #7')).toEqual({ ok: true, seq: 7 });
+    expect(parseCommandReply('ERR #7 E_RANGE')).toEqual({ ok: false, seq: 7, code: 'E_RANGE' });
+    expect(parseCommandReply('ok')).toEqual({ ok: true, seq: null });
+    expect(parseCommandReply('ERR 3')).toEqual({ ok: false, seq: null, code: '3' });
+  });
+
+  it('ignores other lines', () => {
+    expect(parseCommandReply('Motor: Running Speed: 10.00')).toBeNull();
+    expect(parseCommandReply('OKAY')).toBeNull();
+  });
+});
+
+describe('CommandAckLayer', () => {
+  let transport: FakeTransport;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    transport = new FakeTransport();
+    await transport.connect();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createLayer = (options: CommandAckOptions = {}) =>
+    new CommandAckLayer(new CommandWriteQueue(transport), { timeoutMs: 1000, ...options });
+
+  const wireCommands = () => transport.writtenText.split('\n').filter(Boolean);
+
+  it('sends untagged while acknowledgement support is unknown', async () => {
+    const layer = createLayer();
+
+    const record = await layer.send('M10');
+    expect(record).toMatchObject({ status: 'sent', seq: null, attempts: 1 });
+    expect(wireCommands()).toEqual(['M10']);
+  });
+
+  it('keeps legacy firmware on untagged commands', async () => {
+    const layer = createLayer();
+    layer.setAckSupport('unsupported');
+
+    await expect(layer.send('M10')).resolves.toMatchObject({ status: 'sent', seq: null });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(wireCommands()).toEqual(['M10']);
+  });
+
+  it('tags commands in required mode before support is known', async () => {
+    const layer = createLayer({ mode: 'required' });
+
+    const sent = layer.send('M10');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(wireCommands()).toEqual(['M10 #1']);
+    layer.handleLine('OK #1');
+    await expect(sent).resolves.toMatchObject({ status: 'confirmed' });
+  });
+
+  it('starts tagging once a reply shows acknowledgement support', async () => {
+    const layer = createLayer();
+
+    await layer.send('R');
+    expect(layer.handleLine('OK')).toBe(true);
+    expect(layer.ackSupport).toBe('supported');
+
+    const sent = layer.send('M10');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(wireCommands()).toEqual(['R', 'M10 #1']);
+    layer.handleLine('OK #1');
+    await expect(sent).resolves.toMatchObject({ status: 'confirmed', seq: 1 });
+  });
+
+  describe('with acknowledgement support', () => {
+    it('confirms the command matching the reply tag', async () => {
+      const layer = createLayer();
+      layer.setAckSupport('supported');
+
+      const first = layer.send('M10');
+      const second = layer.send('R');
+      await vi.advanceTimersByTimeAsync(0);
+      layer.handleLine('OK #2');
+      layer.handleLine('ERR #1 E_RANGE');
+
+      await expect(first).resolves.toMatchObject({
+        status: 'failed',
+        code: 'E_RANGE',
+        error: 'Command rejected by device (E_RANGE)',
+      });
+      await expect(second).resolves.toMatchObject({ status: 'confirmed' });
+    });
+
+    it('applies an untagged reply to the oldest pending command', async () => {
+      const layer = createLayer();
+      layer.setAckSupport('supported');
+
+      const first = layer.send('M10');
+      const second = layer.send('R');
+      await vi.advanceTimersByTimeAsync(0);
+      layer.handleLine('OK');
+
+      await expect(first).resolves.toMatchObject({ status: 'confirmed' });
+      layer.handleLine('OK');
+      await expect(second).resolves.toMatchObject({ status: 'confirmed' });
+    });
+
+    it('re-sends an unacknowledged command with the same tag', async () => {
+      const layer = createLayer();
+      layer.setAckSupport('supported');
+
+      const sent = layer.send('M10');
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(wireCommands()).toEqual(['M10 #1', 'M10 #1']);
+
+      layer.handleLine('OK #1');
+      await expect(sent).resolves.toMatchObject({ status: 'confirmed', attempts: 2 });
+    });
+
+    it('fails a command once the retries are exhausted', async () => {
+      const layer = createLayer({ retries: 2 });
+      layer.setAckSupport('supported');
+
+      const sent = layer.send('M10');
+      await vi.advanceTimersByTimeAsync(3000);
+
+      await expect(sent).resolves.toMatchObject({
+        status: 'failed',
+        attempts: 3,
+        error: 'No acknowledgement from device',
+      });
+      expect(wireCommands()).toEqual(['M10 #1', 'M10 #1', 'M10 #1']);
+      // Support is not withdrawn by silence
+      expect(layer.ackSupport).toBe('supported');
+    });
+
+    it('reports a speed command replaced before it was written', async () => {
+      const updates: string[] = [];
+      const layer = createLayer({ onUpdate: (record) => updates.push(`${record.command}:${record.status}`) });
+      layer.setAckSupport('supported');
+
+      const first = layer.send('M10');
+      const second = layer.send('M20');
+      const third = layer.send('M30');
+      await vi.advanceTimersByTimeAsync(0);
+      layer.handleLine('OK #1');
+      layer.handleLine('OK #3');
+
+      await expect(second).resolves.toMatchObject({ status: 'superseded', attempts: 1 });
+      await expect(first).resolves.toMatchObject({ status: 'confirmed' });
+      await expect(third).resolves.toMatchObject({ status: 'confirmed' });
+      expect(wireCommands()).toEqual(['M10 #1', 'M30 #3']);
+      expect(updates).toContain('M20:superseded');
+
+      // The superseded command no longer waits for a reply
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(wireCommands()).toHaveLength(2);
+    });
+
+    it('fails pending commands on reset', async () => {
+      const layer = createLayer();
+      layer.setAckSupport('supported');
+
+      const sent = layer.send('M10');
+      await vi.advanceTimersByTimeAsync(0);
+      layer.reset('Device disconnected');
+
+      await expect(sent).resolves.toMatchObject({ status: 'failed', error: 'Device disconnected' });
+      layer.handleLine('OK #1');
+      await expect(sent).resolves.toMatchObject({ status: 'failed' });
+    });
+  });
+});
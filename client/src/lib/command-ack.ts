@@ -0,0 +1,292 @@
+/**
+ * Command Acknowledgement
+ *
+ * Optional request/response layer on top of the command write queue.
+ * Commands are tagged with a sequence number ("M16 #7") and the firmware
+ * answers on the telemetry stream with "OK #7" or "ERR #7 <code>". Replies
+ * without a tag ("OK", "ERR <code>") acknowledge the oldest pending command.
+ *
+ * Commands that are not acknowledged within the timeout are re-sent. In
+ * 'auto' mode, commands are tagged only once the firmware is known to
+ * acknowledge them (capabilities handshake or an earlier reply). Until then
+ * they are sent untagged and fire-and-forget, as before, so legacy firmware
+ * never receives a tag it would reject.
+ */
+
+import type { CommandResult, CommandWriteQueue } from './command-queue';
+
+/**
+ * - auto: use acknowledgements if the firmware answers, fall back otherwise
+ * - required: every command must be acknowledged
+ * - off: fire-and-forget
+ */
+export type AckMode = 'auto' | 'required' | 'off';
+
+export type AckSupport = 'unknown' | 'supported' | 'unsupported';
+
+/**
+ * - pending: queued or waiting for the acknowledgement
+ * - confirmed: acknowledged by the firmware
+ * - sent: written, firmware does not acknowledge commands
+ * - failed: write failed, rejected by the firmware or never acknowledged
+ * - superseded: replaced by a newer speed command before it was written
+ */
+export type CommandStatus = 'pending' | 'confirmed' | 'sent' | 'failed' | 'superseded';
+
+export interface CommandRecord {
+  id: number;
+  command: string;
+  status: CommandStatus;
+  /** Sequence tag used on the wire, null when sent untagged */
+  seq: number | null;
+  /** Number of times the command was written */
+  attempts: number;
+  /** Error code reported by the firmware ("ERR <code>") */
+  code?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CommandReply {
+  ok: boolean;
+  /** Sequence number the reply refers to, null for untagged replies */
+  seq: number | null;
+  code?: string;
+}
+
+export interface CommandAckOptions {
+  mode?: AckMode;
+  /** Time to wait for an acknowledgement (ms, default: 1000) */
+  timeoutMs?: number;
+  /** Re-sends after the first attempt times out (default: 2) */
+  retries?: number;
+  /** Called whenever a command record changes */
+  onUpdate?: (record: CommandRecord) => void;
+}
+
+/**
+ * Error thrown for a command that failed or was rejected by the device
+ */
+export class CommandError extends Error {
+  constructor(readonly record: CommandRecord) {
+    super(record.error ?? `Command ${record.command} failed`);
+    this.name = 'CommandError';
+  }
+}
+
+interface PendingAck {
+  record: CommandRecord;
+  resolve: (reply: CommandReply | null) => void;
+  /** Started once the write completed */
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface ReplyWaiter {
+  reply: Promise<CommandReply | null>;
+  /** Start the timeout */
+  arm(): void;
+  /** Stop waiting */
+  cancel(): void;
+}
+
+const MAX_SEQ = 9999;
+
+/**
+ * Parse an acknowledgement line ("OK #7", "ERR #7 E_RANGE", "OK", "ERR 3")
+ * @returns Reply, or null if the line is not an acknowledgement
+ */
+export function parseCommandReply(line: string): CommandReply | null {
+  const match = line.trim().match(/^(OK|ERR)(?:\s+#(\d+))?(?:\s+(\S+))?$/i);
+  if (!match) return null;
+
+  const ok = match[1].toUpperCase() === 'OK';
+  const reply: CommandReply = { ok, seq: match[2] ? parseInt(match[2], 10) : null };
+  if (!ok && match[3]) {
+    reply.code = match[3];
+  }
+  return reply;
+}
+
+/**
+ * Append a sequence tag to a command
+ */
+export function tagCommand(command: string, seq: number): string {
+  return `${command} #${seq}`;
+}
+
+export class CommandAckLayer {
+  private support: AckSupport = 'unknown';
+  private nextSeq = 1;
+  private nextId = 1;
+  private pending = new Map<number, PendingAck>();
+
+  constructor(
+    private queue: CommandWriteQueue,
+    private options: CommandAckOptions = {}
+  ) {}
+
+  /**
+   * Whether the firmware is known to acknowledge commands
+   */
+  get ackSupport(): AckSupport {
+    return this.support;
+  }
+
+  /**
+   * Override detection, e.g. from a capabilities handshake
+   */
+  setAckSupport(support: AckSupport): void {
+    this.support = support;
+  }
+
+  /**
+   * Send a command and wait for its acknowledgement (if the firmware acks)
+   * @returns Final record of the command
+   */
+  async send(command: string): Promise<CommandRecord> {
+    const now = Date.now();
+    const record: CommandRecord = {
+      id: this.nextId++,
+      command,
+      status: 'pending',
+      seq: null,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.update(record, {});
+
+    const { mode = 'auto', retries = 2 } = this.options;
+    if (mode === 'off' || (mode === 'auto' && this.support !== 'supported')) {
+      return this.sendUntagged(record);
+    }
+
+    const seq = this.allocateSeq();
+    record.seq = seq;
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      // Register before writing: the reply may arrive before the write resolves
+      const waiter = this.expectReply(record);
+      const result = await this.write(record, tagCommand(command, seq));
+      if (result.status !== 'sent') {
+        waiter.cancel();
+        return this.finish(record, result);
+      }
+
+      waiter.arm();
+      const reply = await waiter.reply;
+      if (record.status !== 'pending') {
+        // Settled while waiting (reset on disconnect)
+        return record;
+      }
+      if (reply) {
+        return reply.ok
+          ? this.update(record, { status: 'confirmed' })
+          : this.update(record, {
+              status: 'failed',
+              code: reply.code,
+              error: `Command rejected by device${reply.code ? ` (${reply.code})` : ''}`,
+            });
+      }
+    }
+
+    return this.update(record, { status: 'failed', error: 'No acknowledgement from device' });
+  }
+
+  /**
+   * Consume an acknowledgement line from the telemetry stream
+   * @returns true if the line was an acknowledgement
+   */
+  handleLine(line: string): boolean {
+    const reply = parseCommandReply(line);
+    if (!reply) return false;
+
+    this.support = 'supported';
+    const entry =
+      reply.seq !== null
+        ? this.pending.get(reply.seq)
+        : Array.from(this.pending.values()).sort((a, b) => a.record.id - b.record.id)[0];
+
+    if (entry) {
+      this.pending.delete(entry.record.seq!);
+      if (entry.timer) clearTimeout(entry.timer);
+      entry.resolve(reply);
+    }
+    return true;
+  }
+
+  /**
+   * Fail every command waiting for an acknowledgement (e.g. on disconnect)
+   */
+  reset(reason = 'Device disconnected'): void {
+    const entries = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const entry of entries) {
+      if (entry.timer) clearTimeout(entry.timer);
+      this.update(entry.record, { status: 'failed', error: reason });
+      entry.resolve(null);
+    }
+  }
+
+  private async sendUntagged(record: CommandRecord): Promise<CommandRecord> {
+    const result = await this.write(record, record.command);
+    return this.finish(record, result);
+  }
+
+  private async write(record: CommandRecord, wireCommand: string): Promise<CommandResult> {
+    this.update(record, { attempts: record.attempts + 1 });
+    return this.queue.send(wireCommand);
+  }
+
+  private finish(record: CommandRecord, result: CommandResult): CommandRecord {
+    if (result.status === 'failed') {
+      return this.update(record, { status: 'failed', error: result.error });
+    }
+    return this.update(record, { status: result.status });
+  }
+
+  private expectReply(record: CommandRecord): ReplyWaiter {
+    const { timeoutMs = 1000 } = this.options;
+    const seq = record.seq!;
+
+    let entry!: PendingAck;
+    const reply = new Promise<CommandReply | null>((resolve) => {
+      entry = { record, resolve, timer: null };
+    });
+    this.pending.set(seq, entry);
+
+    const settle = () => {
+      if (this.pending.get(seq) !== entry) return;
+      this.pending.delete(seq);
+      if (entry.timer) clearTimeout(entry.timer);
+      entry.resolve(null);
+    };
+
+    return {
+      reply,
+      arm: () => {
+        if (this.pending.get(seq) === entry) {
+          entry.timer = setTimeout(settle, timeoutMs);
+        }
+      },
+      cancel: settle,
+    };
+  }
+
+  private allocateSeq(): number {
+    const seq = this.nextSeq;
+    this.nextSeq = seq >= MAX_SEQ ? 1 : seq + 1;
+    return seq;
+  }
+
+  private update(record: CommandRecord, changes: Partial<CommandRecord>): CommandRecord {
+    if (record.status !== 'pending' && changes.status) {
+      // Already settled (e.g. failed by reset), keep the first outcome
+      return record;
+    }
+    Object.assign(record, changes, { updatedAt: Date.now() });
+    this.options.onUpdate?.({ ...record });
+    return record;
+  }
+}
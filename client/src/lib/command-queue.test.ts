@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CommandWriteQueue, getCoalesceKey, splitIntoChunks } from './command-queue';
+import { FakeTransport } from './fake-transport';
+
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+/**
+ * Transport whose writes stay in flight until released
+ */
+function createHeldTransport(maxWriteLength?: number) {
+  const held: Array<() => void> = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const transport = new FakeTransport({
+    maxWriteLength,
+    onWrite: () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      return new Promise<void>((resolve) =>
+        held.push(() => {
+          inFlight--;
+          resolve();
+        })
+      );
+    },
+  });
+
+  return {
+    transport,
+    get maxInFlight() {
+      return maxInFlight;
+    },
+    /** Complete writes one by one until none is in flight */
+    async releaseAll() {
+      for (let i = 0; i < 100; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        const release = held.shift();
+        if (!release) return;
+        release();
+      }
+    },
+  };
+}
+
+describe('splitIntoChunks', () => {
+  it('keeps a payload of exactly the chunk size whole', () => {
+    expect(splitIntoChunks(new Uint8Array(20), 20)).toHaveLength(1);
+  });
+
+  it('splits a longer payload at the boundary', () => {
+    const chunks = splitIntoChunks(new Uint8Array(41), 20);
+    expect(chunks.map((chunk) => chunk.length)).toEqual([20, 20, 1]);
+  });
+});
+
+describe('getCoalesceKey', () => {
+  it('groups speed commands only', () => {
+    expect(getCoalesceKey('M10')).toBe('speed');
+    expect(getCoalesceKey('M12.5 #4')).toBe('speed');
+    expect(getCoalesceKey('MODE')).toBeNull();
+    expect(getCoalesceKey('R')).toBeNull();
+  });
+});
+
+describe('CommandWriteQueue', () => {
+  let transport: FakeTransport;
+
+  beforeEach(async () => {
+    transport = new FakeTransport({ maxWriteLength: 4 });
+    await transport.connect();
+  });
+
+  it('writes a command that fills the write length in one chunk', async () => {
+    const queue = new CommandWriteQueue(transport);
+
+    await expect(queue.send('M10')).resolves.toEqual({ command: 'M10', status: 'sent' });
+    expect(transport.writes.map(({ data }) => decode(data))).toEqual(['M10\n']);
+  });
+
+  it('splits a longer command into write-length chunks', async () => {
+    const queue = new CommandWriteQueue(transport);
+
+    await queue.send('M12.5');
+    expect(transport.writes.map(({ data }) => decode(data))).toEqual(['M12.', '5\n']);
+  });
+
+  it('applies the default and per-command write mode', async () => {
+    const queue = new CommandWriteQueue(transport, { withoutResponse: true });
+
+    await queue.send('R');
+    await queue.send('S', { withoutResponse: false });
+    expect(transport.writes.map(({ options }) => options.withoutResponse)).toEqual([true, false]);
+  });
+
+  it('writes concurrent sends one at a time in submission order', async () => {
+    const held = createHeldTransport(4);
+    await held.transport.connect();
+    const queue = new CommandWriteQueue(held.transport);
+
+    const results = Promise.all([queue.send('A'), queue.send('B12345'), queue.send('C')]);
+    await held.releaseAll();
+
+    expect((await results).map(({ status }) => status)).toEqual(['sent', 'sent', 'sent']);
+    expect(held.transport.writtenText).toBe('A\nB12345\nC\n');
+    expect(held.maxInFlight).toBe(1);
+  });
+
+  it('replaces a waiting speed command with the newest one', async () => {
+    const held = createHeldTransport();
+    await held.transport.connect();
+    const queue = new CommandWriteQueue(held.transport);
+
+    const first = queue.send('M10');
+    const reset = queue.send('R');
+    const second = queue.send('M20');
+    const third = queue.send('M30');
+    expect(queue.pending).toBe(2);
+    await held.releaseAll();
+
+    await expect(first).resolves.toMatchObject({ status: 'sent' });
+    await expect(reset).resolves.toMatchObject({ status: 'sent' });
+    await expect(second).resolves.toEqual({ command: 'M20', status: 'superseded', error: 'M30' });
+    await expect(third).resolves.toMatchObject({ status: 'sent' });
+    expect(held.transport.writtenText).toBe('M10\nR\nM30\n');
+  });
+
+  it('does not coalesce other commands', async () => {
+    const held = createHeldTransport();
+    await held.transport.connect();
+    const queue = new CommandWriteQueue(held.transport);
+
+    const results = Promise.all([queue.send('M10'), queue.send('R'), queue.send('R')]);
+    await held.releaseAll();
+
+    expect((await results).map(({ status }) => status)).toEqual(['sent', 'sent', 'sent']);
+    expect(held.transport.writtenText).toBe('M10\nR\nR\n');
+  });
+
+  it('reports a failed write and keeps draining', async () => {
+    const failing = new FakeTransport({
+      onWrite: (data) => {
+        if (decode(data).startsWith('X')) throw new Error('GATT operation failed');
+      },
+    });
+    await failing.connect();
+    const queue = new CommandWriteQueue(failing);
+
+    const results = await Promise.all([queue.send('X'), queue.send('R')]);
+    expect(results).toEqual([
+      { command: 'X', status: 'failed', error: 'GATT operation failed' },
+      { command: 'R', status: 'sent' },
+    ]);
+  });
+
+  it('reports writes to a closed link as failed', async () => {
+    await transport.disconnect();
+    const queue = new CommandWriteQueue(transport);
+
+    await expect(queue.send('R')).resolves.toEqual({ command: 'R', status: 'failed', error: 'Not connected to device' });
+  });
+
+  it('fails waiting commands when cleared', async () => {
+    const held = createHeldTransport();
+    await held.transport.connect();
+    const queue = new CommandWriteQueue(held.transport);
+
+    const inFlight = queue.send('M10');
+    const waiting = queue.send('R');
+    queue.clear('Disconnected');
+    await held.releaseAll();
+
+    await expect(inFlight).resolves.toMatchObject({ status: 'sent' });
+    await expect(waiting).resolves.toEqual({ command: 'R', status: 'failed', error: 'Disconnected' });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Command Write Queue
+ *
+ * Serializes command writes to a MotorTransport. GATT allows only one
+ * operation in flight, so overlapping writes (rapid clicks on the mode
+ * buttons) fail with "GATT operation already in progress". The queue
+ * writes one command at a time, splits payloads longer than the transport's
+ * write length, and drops speed commands that are superseded before they
+ * are written — only the latest "M<n>" matters.
+ */
+
+import { encodeCommand, type MotorTransport, type TransportWriteOptions } from './motor-transport';
+
+export type CommandStatus = 'sent' | 'superseded' | 'failed';
+
+export interface CommandResult {
+  command: string;
+  status: CommandStatus;
+  /** Failure reason, or the superseding command */
+  error?: string;
+}
+
+export interface CommandQueueOptions {
+  /** Default write mode for queued commands (default: with response) */
+  withoutResponse?: boolean;
+  /** Called right before the first chunk of a command is written */
+  onWrite?: (command: string) => void;
+}
+
+interface QueuedCommand {
+  command: string;
+  options: TransportWriteOptions;
+  resolve: (result: CommandResult) => void;
+}
+
+/**
+ * Key of commands that replace each other while waiting in the queue
+ * (ignores a trailing sequence tag)
+ */
+export function getCoalesceKey(command: string): string | null {
+  return /^M\d+(\.\d+)?(\s|$)/.test(command) ? 'speed' : null;
+}
+
+/**
+ * Split a payload into chunks of at most `size` bytes
+ */
+export function splitIntoChunks(data: Uint8Array, size: number): Uint8Array[] {
+  if (size <= 0 || data.length <= size) return [data];
+
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < data.length; offset += size) {
+    chunks.push(data.subarray(offset, offset + size));
+  }
+  return chunks;
+}
+
+export class CommandWriteQueue {
+  private queue: QueuedCommand[] = [];
+  private draining = false;
+
+  constructor(
+    private transport: MotorTransport,
+    private options: CommandQueueOptions = {}
+  ) {}
+
+  /**
+   * Number of commands waiting to be written (excluding the one in flight)
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue a command for writing
+   * @returns Resolves once the command was written, superseded or failed
+   */
+  send(command: string, options: TransportWriteOptions = {}): Promise<CommandResult> {
+    return new Promise((resolve) => {
+      const entry: QueuedCommand = {
+        command,
+        options: { withoutResponse: this.options.withoutResponse, ...options },
+        resolve,
+      };
+
+      // Drop a waiting command of the same kind; the new one keeps submission order
+      const key = getCoalesceKey(command);
+      const index = key ? this.queue.findIndex((queued) => getCoalesceKey(queued.command) === key) : -1;
+      if (index >= 0) {
+        const [superseded] = this.queue.splice(index, 1);
+        superseded.resolve({ command: superseded.command, status: 'superseded', error: command });
+      }
+      this.queue.push(entry);
+
+      this.drain();
+    });
+  }
+
+  /**
+   * Fail all commands still waiting in the queue (e.g. on disconnect)
+   */
+  clear(reason = 'Command queue cleared'): void {
+    const dropped = this.queue;
+    this.queue = [];
+    for (const entry of dropped) {
+      entry.resolve({ command: entry.command, status: 'failed', error: reason });
+    }
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      let entry: QueuedCommand | undefined;
+      while ((entry = this.queue.shift())) {
+        entry.resolve(await this.write(entry));
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async write({ command, options }: QueuedCommand): Promise<CommandResult> {
+    try {
+      this.options.onWrite?.(command);
+      const chunks = splitIntoChunks(encodeCommand(command), this.transport.maxWriteLength);
+      for (const chunk of chunks) {
+        await this.transport.write(chunk, options);
+      }
+      return { command, status: 'sent' };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : 'Failed to send command';
+      return { command, status: 'failed', error };
+    }
+  }
+}
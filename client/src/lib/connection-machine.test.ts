@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { canDisconnect, canStartConnection, ConnectionStateMachine } from './connection-machine';
+
+describe('ConnectionStateMachine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('walks through the connect flow to ready', () => {
+    const machine = new ConnectionStateMachine();
+    const phases: string[] = [];
+    machine.subscribe((snapshot) => phases.push(snapshot.phase));
+
+    for (const type of ['request', 'connect', 'discover', 'subscribe', 'ready'] as const) {
+      expect(machine.dispatch({ type })).toBe(true);
+    }
+
+    expect(phases).toEqual(['requesting', 'connecting', 'discovering', 'subscribing', 'ready']);
+    expect(machine.getSnapshot().error).toBeNull();
+  });
+
+  it('ignores events that are not valid in the current phase', () => {
+    const machine = new ConnectionStateMachine();
+    const listener = vi.fn();
+    machine.subscribe(listener);
+
+    expect(machine.can('ready')).toBe(false);
+    expect(machine.dispatch({ type: 'ready' })).toBe(false);
+    expect(machine.dispatch({ type: 'link-lost', error: 'gone' })).toBe(false);
+
+    expect(machine.phase).toBe('idle');
+    expect(machine.getSnapshot().history).toEqual([]);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('records the error of a lost link and of a failure', () => {
+    const machine = new ConnectionStateMachine();
+    machine.dispatch({ type: 'connect' });
+    machine.dispatch({ type: 'ready' });
+
+    machine.dispatch({ type: 'link-lost', error: 'GATT server disconnected' });
+    expect(machine.getSnapshot()).toMatchObject({ phase: 'reconnecting', error: 'GATT server disconnected' });
+
+    machine.dispatch({ type: 'fail', error: 'Gave up' });
+    expect(machine.getSnapshot()).toMatchObject({ phase: 'failed', error: 'Gave up' });
+    expect(canStartConnection(machine.phase)).toBe(true);
+    expect(canDisconnect(machine.phase)).toBe(false);
+  });
+
+  it('fails a phase that exceeds its timeout', () => {
+    const machine = new ConnectionStateMachine({ timeouts: { connecting: 1000 } });
+    machine.dispatch({ type: 'connect' });
+
+    vi.advanceTimersByTime(999);
+    expect(machine.phase).toBe('connecting');
+    vi.advanceTimersByTime(1);
+    expect(machine.getSnapshot()).toMatchObject({ phase: 'failed', error: 'Timed out while connecting' });
+  });
+
+  it('lets the owner handle a timeout', () => {
+    const onTimeout = vi.fn();
+    const machine = new ConnectionStateMachine({ timeouts: { connecting: 1000 }, onTimeout });
+    machine.dispatch({ type: 'connect' });
+
+    vi.advanceTimersByTime(1000);
+    expect(onTimeout).toHaveBeenCalledWith('connecting');
+    expect(machine.phase).toBe('connecting');
+  });
+
+  it('ignores a timer that outlived its phase', () => {
+    // Keep every timer alive, as if it had fired just before the transition cleared it
+    vi.spyOn(globalThis, 'clearTimeout').mockImplementation(() => {});
+    const onTimeout = vi.fn();
+    const machine = new ConnectionStateMachine({ timeouts: { connecting: 1000 }, onTimeout });
+
+    machine.dispatch({ type: 'connect' });
+    vi.advanceTimersByTime(600);
+    machine.dispatch({ type: 'retry', error: 'Reconnect failed' });
+    machine.dispatch({ type: 'connect' });
+
+    // The first connecting phase would have timed out here
+    vi.advanceTimersByTime(400);
+    expect(onTimeout).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(600);
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps only the most recent transitions', () => {
+    const machine = new ConnectionStateMachine({ historyLimit: 3 });
+    machine.dispatch({ type: 'connect' });
+    machine.dispatch({ type: 'ready' });
+    machine.dispatch({ type: 'disconnect' });
+    machine.dispatch({ type: 'closed' });
+
+    expect(machine.getSnapshot().history.map(({ from, to }) => `${from}→${to}`)).toEqual([
+      'connecting→ready',
+      'ready→disconnecting',
+      'disconnecting→idle',
+    ]);
+  });
+
+  it('stops the phase timer when disposed', () => {
+    const onTimeout = vi.fn();
+    const machine = new ConnectionStateMachine({ timeouts: { connecting: 1000 }, onTimeout });
+    machine.dispatch({ type: 'connect' });
+
+    machine.dispose();
+    vi.advanceTimersByTime(1000);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Connection State Machine
+ *
+ * Explicit lifecycle of the link to the motor control board:
+ *
+ *   idle → requesting → connecting → discovering → subscribing → ready
+ *   ready → reconnecting → connecting → ... → ready
+ *   any active phase → disconnecting → idle
+ *   any active phase → failed
+ *
+ * Transitions are driven by typed events; events that are not valid in the
+ * current phase are ignored, so late callbacks from a transport cannot put
+ * the UI into an impossible state. Every phase that waits on the device has
+ * a timeout, and all transitions are kept in a bounded history.
+ */
+
+export type ConnectionPhase =
+  | 'idle'
+  | 'requesting'
+  | 'connecting'
+  | 'discovering'
+  | 'subscribing'
+  | 'ready'
+  | 'reconnecting'
+  | 'disconnecting'
+  | 'failed';
+
+export type ConnectionEvent =
+  /** Device chooser opened */
+  | { type: 'request' }
+  /** Opening the GATT connection */
+  | { type: 'connect' }
+  /** Discovering the SPP service and characteristic */
+  | { type: 'discover' }
+  /** Enabling notifications */
+  | { type: 'subscribe' }
+  /** Link usable */
+  | { type: 'ready' }
+  /** Established link dropped unexpectedly */
+  | { type: 'link-lost'; error: string }
+  /** A reconnect attempt failed, another one follows */
+  | { type: 'retry'; error: string }
+  /** User asked to disconnect */
+  | { type: 'disconnect' }
+  /** Link closed */
+  | { type: 'closed' }
+  /** Reconnection abandoned by the user */
+  | { type: 'cancel' }
+  /** Current phase exceeded its timeout */
+  | { type: 'timeout' }
+  | { type: 'fail'; error: string };
+
+export type ConnectionEventType = ConnectionEvent['type'];
+
+const TRANSITIONS: Record<ConnectionPhase, Partial<Record<ConnectionEventType, ConnectionPhase>>> = {
+  idle: {
+    request: 'requesting',
+    connect: 'connecting',
+  },
+  requesting: {
+    connect: 'connecting',
+    retry: 'reconnecting',
+    disconnect: 'disconnecting',
+    timeout: 'failed',
+    fail: 'failed',
+  },
+  connecting: {
+    discover: 'discovering',
+    subscribe: 'subscribing',
+    ready: 'ready',
+    retry: 'reconnecting',
+    disconnect: 'disconnecting',
+    timeout: 'failed',
+    fail: 'failed',
+  },
+  discovering: {
+    subscribe: 'subscribing',
+    ready: 'ready',
+    retry: 'reconnecting',
+    disconnect: 'disconnecting',
+    timeout: 'failed',
+    fail: 'failed',
+  },
+  subscribing: {
+    ready: 'ready',
+    retry: 'reconnecting',
+    disconnect: 'disconnecting',
+    timeout: 'failed',
+    fail: 'failed',
+  },
+  ready: {
+    'link-lost': 'reconnecting',
+    disconnect: 'disconnecting',
+    closed: 'idle',
+    fail: 'failed',
+  },
+  reconnecting: {
+    request: 'requesting',
+    connect: 'connecting',
+    disconnect: 'disconnecting',
+    cancel: 'idle',
+    fail: 'failed',
+  },
+  disconnecting: {
+    closed: 'idle',
+    timeout: 'idle',
+    fail: 'failed',
+  },
+  failed: {
+    request: 'requesting',
+    connect: 'connecting',
+    closed: 'idle',
+  },
+};
+
+/**
+ * Default time allowed in each waiting phase (ms)
+ */
+export const DEFAULT_PHASE_TIMEOUTS: Partial<Record<ConnectionPhase, number>> = {
+  requesting: 60000,
+  connecting: 20000,
+  discovering: 10000,
+  subscribing: 10000,
+  disconnecting: 5000,
+};
+
+export const CONNECTION_PHASE_LABELS: Record<ConnectionPhase, string> = {
+  idle: 'Disconnected',
+  requesting: 'Scanning...',
+  connecting: 'Connecting...',
+  discovering: 'Discovering services...',
+  subscribing: 'Subscribing...',
+  ready: 'Connected',
+  reconnecting: 'Reconnecting...',
+  disconnecting: 'Disconnecting...',
+  failed: 'Connection failed',
+};
+
+export interface ConnectionTransition {
+  at: number;
+  from: ConnectionPhase;
+  to: ConnectionPhase;
+  event: ConnectionEventType;
+  error?: string;
+}
+
+export interface ConnectionSnapshot {
+  phase: ConnectionPhase;
+  /** Reason for the failed or reconnecting phase */
+  error: string | null;
+  /** Epoch ms the current phase was entered */
+  enteredAt: number;
+  /** Most recent transitions, oldest first */
+  history: readonly ConnectionTransition[];
+}
+
+export interface ConnectionMachineOptions {
+  /** Per-phase timeouts (ms), merged over the defaults */
+  timeouts?: Partial<Record<ConnectionPhase, number>>;
+  /**
+   * Called when a phase times out. Defaults to dispatching a 'timeout'
+   * event; owners that need a different reaction (e.g. retrying a
+   * reconnect attempt) dispatch their own event instead.
+   */
+  onTimeout?: (phase: ConnectionPhase) => void;
+  /** Number of transitions kept in the history (default: 50) */
+  historyLimit?: number;
+}
+
+export type ConnectionListener = (snapshot: ConnectionSnapshot) => void;
+
+/**
+ * Error message recorded when a phase times out
+ */
+export function getTimeoutMessage(phase: ConnectionPhase): string {
+  return `Timed out while ${phase}`;
+}
+
+export class ConnectionStateMachine {
+  private snapshot: ConnectionSnapshot = {
+    phase: 'idle',
+    error: null,
+    enteredAt: Date.now(),
+    history: [],
+  };
+  private listeners = new Set<ConnectionListener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private timeouts: Partial<Record<ConnectionPhase, number>>;
+  private historyLimit: number;
+
+  constructor(private options: ConnectionMachineOptions = {}) {
+    this.timeouts = { ...DEFAULT_PHASE_TIMEOUTS, ...options.timeouts };
+    this.historyLimit = options.historyLimit ?? 50;
+  }
+
+  get phase(): ConnectionPhase {
+    return this.snapshot.phase;
+  }
+
+  getSnapshot(): ConnectionSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Check whether an event is valid in the current phase
+   */
+  can(type: ConnectionEventType): boolean {
+    return TRANSITIONS[this.snapshot.phase][type] !== undefined;
+  }
+
+  /**
+   * Apply an event
+   * @returns true if the event caused a transition
+   */
+  dispatch(event: ConnectionEvent): boolean {
+    const from = this.snapshot.phase;
+    const to = TRANSITIONS[from][event.type];
+    if (!to) return false;
+
+    const at = Date.now();
+    let error: string | null = null;
+    if (to === 'failed' || to === 'reconnecting') {
+      error = 'error' in event ? event.error : event.type === 'timeout' ? getTimeoutMessage(from) : null;
+    }
+
+    const transition: ConnectionTransition = { at, from, to, event: event.type };
+    if (error) {
+      transition.error = error;
+    }
+
+    this.snapshot = {
+      phase: to,
+      error,
+      enteredAt: at,
+      history: [...this.snapshot.history, transition].slice(-this.historyLimit),
+    };
+
+    this.armTimeout(to);
+    for (const listener of Array.from(this.listeners)) {
+      listener(this.snapshot);
+    }
+    return true;
+  }
+
+  /**
+   * Subscribe to transitions
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ConnectionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop the phase timer and drop all listeners
+   */
+  dispose(): void {
+    this.clearTimeout();
+    this.listeners.clear();
+  }
+
+  private armTimeout(phase: ConnectionPhase): void {
+    this.clearTimeout();
+    const timeout = this.timeouts[phase];
+    if (!timeout) return;
+
+    const enteredAt = this.snapshot.enteredAt;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      // Ignore a timer that outlived its phase
+      if (this.snapshot.phase !== phase || this.snapshot.enteredAt !== enteredAt) return;
+
+      if (this.options.onTimeout) {
+        this.options.onTimeout(phase);
+      } else {
+        this.dispatch({ type: 'timeout' });
+      }
+    }, timeout);
+  }
+
+  private clearTimeout(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Phases in which a new connection may be started
+ */
+export function canStartConnection(phase: ConnectionPhase): boolean {
+  return phase === 'idle' || phase === 'failed';
+}
+
+/**
+ * Phases in which a connection attempt or link exists that can be torn down
+ */
+export function canDisconnect(phase: ConnectionPhase): boolean {
+  return TRANSITIONS[phase].disconnect !== undefined;
+}
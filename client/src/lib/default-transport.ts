@@ -0,0 +1,28 @@
+/**
+ * Default Transport Selection
+ *
+ * Picks the transport used by the "Connect Device" button: Web Bluetooth
+ * when the browser provides it, otherwise the native Bluetooth service of
+ * the Electron main process.
+ */
+
+import { ElectronIpcTransport, isElectronBluetoothAvailable } from './electron-ipc-transport';
+import type { MotorTransport } from './motor-transport';
+import { isWebBluetoothSupported, WebBluetoothTransport } from './web-bluetooth-transport';
+
+/**
+ * Whether any real Bluetooth transport is available
+ */
+export function isBluetoothAvailable(): boolean {
+  return isWebBluetoothSupported() || isElectronBluetoothAvailable();
+}
+
+/**
+ * Create the preferred Bluetooth transport for this environment
+ */
+export function createDefaultTransport(): MotorTransport {
+  if (!isWebBluetoothSupported() && isElectronBluetoothAvailable()) {
+    return new ElectronIpcTransport();
+  }
+  return new WebBluetoothTransport();
+}
@@ -0,0 +1,246 @@
+/**
+ * Device Capabilities
+ *
+ * Handshake run after every connect to learn what the board can do:
+ *
+ *   host → "VER?"   board → "VER fw=<firmware version> proto=<protocol version>"
+ *   host → "CAP?"   board → "CAP maxspeed=<rad/s> minspeed=<rad/s> speedres=<rad/s> cmds=M,AOFF sources=imu,audio ack=<0|1>"
+ *
+ * Keys are case-insensitive and unknown keys are ignored. Firmware that
+ * does not answer within the timeout is treated as legacy firmware and gets
+ * the capabilities this UI has always assumed, without acknowledgements.
+ */
+
+import type { AckSupport } from './command-ack';
+import { isOnResolution } from './speed-setpoint';
+
+export type AnomalySource = 'imu' | 'audio';
+
+export interface DeviceCapabilities {
+  /** Firmware version string, null if not reported */
+  firmwareVersion: string | null;
+  /** Protocol version (1 = original text protocol) */
+  protocolVersion: number;
+  /** Highest accepted speed setpoint (rad/s) */
+  maxSpeed: number;
+  /** Lowest accepted non-zero speed setpoint (rad/s); 0 if any speed runs */
+  minSpeed: number;
+  /** Step between accepted speed setpoints (rad/s); 1 = whole rad/s as in the original "M<n>" */
+  speedResolution: number;
+  /** Supported command mnemonics (e.g. "M", "AOFF") */
+  commands: string[];
+  /** Anomaly detector sources */
+  anomalySources: AnomalySource[];
+  /** Whether the firmware acknowledges commands; null if the handshake did not say */
+  acknowledgements: boolean | null;
+  /** True when the firmware did not answer the handshake */
+  legacy: boolean;
+}
+
+/**
+ * Capabilities of firmware that predates the handshake
+ */
+export const DEFAULT_CAPABILITIES: DeviceCapabilities = {
+  firmwareVersion: null,
+  protocolVersion: 1,
+  maxSpeed: 25,
+  minSpeed: 0,
+  speedResolution: 1,
+  commands: ['M', 'AOFF'],
+  anomalySources: ['imu', 'audio'],
+  acknowledgements: false,
+  legacy: true,
+};
+
+export const VERSION_QUERY = 'VER?';
+export const CAPABILITIES_QUERY = 'CAP?';
+
+/**
+ * Split "KEY k1=v1 k2=v2" into a lower-cased key/value map
+ * @returns Map of values, or null if the line does not start with the keyword
+ */
+function parseKeyValueReply(line: string, keyword: string): Map<string, string> | null {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0]?.toUpperCase() !== keyword) return null;
+
+  const values = new Map<string, string>();
+  for (const token of tokens.slice(1)) {
+    const separator = token.indexOf('=');
+    if (separator > 0) {
+      values.set(token.slice(0, separator).toLowerCase(), token.slice(separator + 1));
+    }
+  }
+  return values;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a "VER ..." reply
+ */
+export function parseVersionReply(line: string): Partial<DeviceCapabilities> | null {
+  const values = parseKeyValueReply(line, 'VER');
+  if (!values) return null;
+
+  const result: Partial<DeviceCapabilities> = {};
+  const firmware = values.get('fw');
+  if (firmware) {
+    result.firmwareVersion = firmware;
+  }
+  const protocol = parseInt(values.get('proto') ?? '', 10);
+  if (!isNaN(protocol)) {
+    result.protocolVersion = protocol;
+  }
+  return result;
+}
+
+/**
+ * Parse a "CAP ..." reply
+ */
+export function parseCapabilitiesReply(line: string): Partial<DeviceCapabilities> | null {
+  const values = parseKeyValueReply(line, 'CAP');
+  if (!values) return null;
+
+  const result: Partial<DeviceCapabilities> = {};
+  const maxSpeed = parseFloat(values.get('maxspeed') ?? '');
+  if (!isNaN(maxSpeed) && maxSpeed > 0) {
+    result.maxSpeed = maxSpeed;
+  }
+  const minSpeed = parseFloat(values.get('minspeed') ?? '');
+  if (!isNaN(minSpeed) && minSpeed >= 0) {
+    result.minSpeed = minSpeed;
+  }
+  const speedResolution = parseFloat(values.get('speedres') ?? '');
+  if (!isNaN(speedResolution) && speedResolution > 0 && speedResolution <= 1) {
+    result.speedResolution = speedResolution;
+  }
+  const commands = parseList(values.get('cmds'));
+  if (commands) {
+    result.commands = commands.map((command) => command.toUpperCase());
+  }
+  const sources = parseList(values.get('sources'));
+  if (sources) {
+    result.anomalySources = sources
+      .map((source) => source.toLowerCase())
+      .filter((source): source is AnomalySource => source === 'imu' || source === 'audio');
+  }
+  const ack = values.get('ack');
+  if (ack !== undefined) {
+    result.acknowledgements = ack === '1';
+  }
+  return result;
+}
+
+/**
+ * Acknowledgement support to apply after a handshake
+ * Legacy firmware never acknowledges; firmware that answered without an
+ * "ack" key is left to auto-detection.
+ */
+export function getAckSupport(capabilities: DeviceCapabilities): AckSupport {
+  if (capabilities.acknowledgements === null) return 'unknown';
+  return capabilities.acknowledgements ? 'supported' : 'unsupported';
+}
+
+/**
+ * Check whether the device accepts a command ("M16" needs "M", "AOFF1" needs "AOFF")
+ */
+export function supportsCommand(capabilities: DeviceCapabilities, command: string): boolean {
+  const mnemonic = command.match(/^[A-Za-z]+/)?.[0].toUpperCase();
+  return !!mnemonic && capabilities.commands.includes(mnemonic);
+}
+
+/**
+ * Validate a command against the device limits
+ * @returns Reason the command is invalid, or null if it may be sent
+ */
+export function validateCommand(capabilities: DeviceCapabilities, command: string): string | null {
+  if (!supportsCommand(capabilities, command)) {
+    return `Command ${command} is not supported by this firmware`;
+  }
+
+  const speedMatch = command.match(/^M(\d+(?:\.\d+)?)$/);
+  if (speedMatch) {
+    const speed = parseFloat(speedMatch[1]);
+    if (speed > capabilities.maxSpeed) {
+      return `Speed ${speedMatch[1]} rad/s exceeds the device maximum of ${capabilities.maxSpeed} rad/s`;
+    }
+    if (speed > 0 && speed < capabilities.minSpeed) {
+      return `Speed ${speedMatch[1]} rad/s is below the device minimum of ${capabilities.minSpeed} rad/s`;
+    }
+    if (!isOnResolution(speed, capabilities.speedResolution)) {
+      return `Speed ${speedMatch[1]} rad/s is not a multiple of the device resolution of ${capabilities.speedResolution} rad/s`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Collects the VER/CAP replies of one handshake from the telemetry stream
+ */
+export class CapabilityHandshake {
+  private replies: {
+    version?: Partial<DeviceCapabilities>;
+    capabilities?: Partial<DeviceCapabilities>;
+  } = {};
+  private onReply: (() => void) | null = null;
+
+  /**
+   * Consume a handshake reply line
+   * @returns true if the line was a VER or CAP reply
+   */
+  handleLine(line: string): boolean {
+    const version = parseVersionReply(line);
+    const capabilities = version ? null : parseCapabilitiesReply(line);
+    if (!version && !capabilities) return false;
+
+    if (version) this.replies.version = version;
+    if (capabilities) this.replies.capabilities = capabilities;
+    this.onReply?.();
+    return true;
+  }
+
+  /**
+   * Query the device and wait for both replies
+   * @param send - Writes a query to the device
+   * @param timeoutMs - Time to wait for the replies (default: 1500)
+   */
+  async run(
+    send: (query: string) => Promise<unknown>,
+    timeoutMs = 1500
+  ): Promise<DeviceCapabilities> {
+    this.replies = {};
+
+    const replies = new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, timeoutMs);
+      this.onReply = () => {
+        if (this.replies.version && this.replies.capabilities) {
+          clearTimeout(timer);
+          resolve();
+        }
+      };
+    });
+
+    try {
+      await send(VERSION_QUERY);
+      await send(CAPABILITIES_QUERY);
+      await replies;
+    } finally {
+      this.onReply = null;
+    }
+
+    const { version, capabilities } = this.replies;
+    if (!version && !capabilities) {
+      return DEFAULT_CAPABILITIES;
+    }
+    return {
+      ...DEFAULT_CAPABILITIES,
+      acknowledgements: null,
+      ...version,
+      ...capabilities,
+      legacy: false,
+    };
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Device Chooser
+ *
+ * Renderer-side state of the in-app BLE device picker. A device source
+ * (Electron's select-bluetooth-device event, or a native IPC scan) opens a
+ * request, pushes the devices it discovers, and awaits the user's choice.
+ * The DevicePickerDialog component renders the current request.
+ *
+ * A remembered device is picked automatically as soon as it shows up.
+ */
+
+export interface ChooserDevice {
+  id: string;
+  name: string;
+  /** Signal strength in dBm, when the source reports it */
+  rssi?: number;
+}
+
+export interface DeviceChooserState {
+  open: boolean;
+  devices: ChooserDevice[];
+  /** Epoch ms at which the request is cancelled automatically */
+  deadline: number | null;
+}
+
+export interface DeviceChooserRequest {
+  /** Replace the list of devices shown to the user */
+  update(devices: ChooserDevice[]): void;
+  /** Abort the request from the source side */
+  cancel(): void;
+  /** Chosen device, or null when cancelled or timed out */
+  readonly result: Promise<ChooserDevice | null>;
+}
+
+export interface DeviceChooserOptions {
+  /** Time after which an unanswered request is cancelled (ms) */
+  timeoutMs?: number;
+  /** Storage used to remember the chosen device */
+  storage?: Storage;
+}
+
+type DeviceChooserListener = (state: DeviceChooserState) => void;
+
+const REMEMBERED_DEVICE_KEY = 'mg24.rememberedDevice';
+const CLOSED_STATE: DeviceChooserState = { open: false, devices: [], deadline: null };
+
+export class DeviceChooser {
+  private state: DeviceChooserState = CLOSED_STATE;
+  private listeners = new Set<DeviceChooserListener>();
+  private active: {
+    resolve: (device: ChooserDevice | null) => void;
+    timer: ReturnType<typeof setTimeout>;
+  } | null = null;
+
+  constructor(private options: DeviceChooserOptions = {}) {}
+
+  /**
+   * Open a new chooser request, cancelling any request still pending
+   */
+  request(): DeviceChooserRequest {
+    this.finish(null);
+
+    const timeoutMs = this.options.timeoutMs ?? 30000;
+    let resolveResult!: (device: ChooserDevice | null) => void;
+    const result = new Promise<ChooserDevice | null>((resolve) => {
+      resolveResult = resolve;
+    });
+    const active = {
+      resolve: resolveResult,
+      timer: setTimeout(() => this.finish(null), timeoutMs),
+    };
+    this.active = active;
+    this.setState({ open: true, devices: [], deadline: Date.now() + timeoutMs });
+
+    return {
+      update: (devices) => {
+        if (this.active !== active) return;
+        const remembered = this.getRememberedDevice();
+        const match = remembered && devices.find((device) => device.id === remembered.id);
+        if (match) {
+          this.finish(match);
+          return;
+        }
+        this.setState({ ...this.state, devices });
+      },
+      cancel: () => {
+        if (this.active === active) {
+          this.finish(null);
+        }
+      },
+      result,
+    };
+  }
+
+  /**
+   * Pick a device from the current request
+   */
+  select(deviceId: string, remember = false): void {
+    const device = this.state.devices.find((candidate) => candidate.id === deviceId);
+    if (!device) return;
+    if (remember) {
+      this.rememberDevice(device);
+    }
+    this.finish(device);
+  }
+
+  /**
+   * Dismiss the current request
+   */
+  cancel(): void {
+    this.finish(null);
+  }
+
+  getState(): DeviceChooserState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to state changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: DeviceChooserListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Device picked automatically by future requests, if any
+   */
+  getRememberedDevice(): ChooserDevice | null {
+    try {
+      const stored = this.storage?.getItem(REMEMBERED_DEVICE_KEY);
+      return stored ? (JSON.parse(stored) as ChooserDevice) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  rememberDevice(device: ChooserDevice): void {
+    this.storage?.setItem(REMEMBERED_DEVICE_KEY, JSON.stringify({ id: device.id, name: device.name }));
+  }
+
+  forgetDevice(): void {
+    this.storage?.removeItem(REMEMBERED_DEVICE_KEY);
+  }
+
+  private get storage(): Storage | undefined {
+    return this.options.storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined);
+  }
+
+  private finish(device: ChooserDevice | null): void {
+    const active = this.active;
+    if (!active) return;
+    this.active = null;
+    clearTimeout(active.timer);
+    this.setState(CLOSED_STATE);
+    active.resolve(device);
+  }
+
+  private setState(state: DeviceChooserState): void {
+    this.state = state;
+    for (const listener of Array.from(this.listeners)) {
+      listener(state);
+    }
+  }
+}
+
+// Shared chooser used by the transports and the picker dialog
+export const deviceChooser = new DeviceChooser();
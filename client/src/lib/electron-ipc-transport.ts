@@ -0,0 +1,261 @@
+/**
+ * Electron IPC Transport
+ *
+ * MotorTransport implementation that drives the native Bluetooth service in
+ * the Electron main process over the bluetooth:* IPC channels. Used when the
+ * renderer has no Web Bluetooth (e.g. Electron on Linux).
+ */
+
+import type { ElectronAPI, IpcResult, NativeBluetoothDevice } from '@shared/bluetooth-ipc';
+import { deviceChooser, type DeviceChooser, type DeviceChooserRequest } from './device-chooser';
+import {
+  BaseMotorTransport,
+  DEFAULT_MAX_WRITE_LENGTH,
+  SPP_DATA_CHARACTERISTIC_UUID,
+  SPP_SERVICE_UUID,
+  type TransportWriteOptions,
+} from './motor-transport';
+
+declare global {
+  interface Window {
+    electronAPI?: ElectronAPI;
+  }
+}
+
+/**
+ * Check whether the native Bluetooth IPC bridge is available
+ */
+export function isElectronBluetoothAvailable(): boolean {
+  return typeof window !== 'undefined' && !!window.electronAPI?.bluetooth;
+}
+
+/**
+ * Answer Electron's select-bluetooth-device requests with the in-app picker.
+ * Each time main reports the candidate list the picker is updated; the
+ * user's choice (or cancellation) is sent back to main.
+ * @returns Function detaching the listener
+ */
+export function attachElectronDeviceChooser(chooser: DeviceChooser = deviceChooser): () => void {
+  const api = window.electronAPI?.bluetooth;
+  if (!api) return () => {};
+
+  let request: DeviceChooserRequest | null = null;
+
+  const off = api.on('bluetooth:device-chooser', ({ devices }) => {
+    if (!request) {
+      const current = chooser.request();
+      request = current;
+      current.result.then((device) => {
+        request = null;
+        api.selectDevice(device?.id ?? null);
+      });
+    }
+    request.update(devices);
+  });
+
+  return () => {
+    off();
+    request?.cancel();
+  };
+}
+
+export interface ElectronIpcTransportOptions {
+  /** How long to scan before picking a device when selectDevice is given (ms) */
+  scanDurationMs?: number;
+  /**
+   * Choose the device to connect to from the scan results.
+   * Defaults to asking the user through the in-app device picker.
+   */
+  selectDevice?: (devices: NativeBluetoothDevice[]) => Promise<NativeBluetoothDevice | null>;
+  /** Device picker used when selectDevice is not given */
+  chooser?: DeviceChooser;
+}
+
+/**
+ * Unwrap an IPC result, throwing its error message on failure
+ */
+function unwrap<T extends object>(result: IpcResult<T>): T {
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result;
+}
+
+export class ElectronIpcTransport extends BaseMotorTransport {
+  readonly name = 'Native Bluetooth';
+
+  private api: ElectronAPI['bluetooth'];
+  private listeners: Array<() => void> = [];
+  private selectedDeviceId: string | null = null;
+  private writeLength = DEFAULT_MAX_WRITE_LENGTH;
+
+  constructor(private options: ElectronIpcTransportOptions = {}) {
+    super();
+    if (!window.electronAPI) {
+      throw new Error('Native Bluetooth bridge not available');
+    }
+    this.api = window.electronAPI.bluetooth;
+  }
+
+  get deviceId(): string | null {
+    return this.selectedDeviceId;
+  }
+
+  /**
+   * Scan, pick a device and connect to its SPP characteristic
+   */
+  async connect(): Promise<void> {
+    try {
+      this.setState('requesting');
+      const device = await this.scanForDevice();
+      await this.openDevice(device.id);
+    } catch (err) {
+      await this.fail(err, 'Connection failed');
+    }
+  }
+
+  /**
+   * Reconnect to the previously selected device without scanning
+   */
+  async reconnect(): Promise<void> {
+    try {
+      if (!this.selectedDeviceId) {
+        throw new Error('No previously connected device available');
+      }
+      await this.openDevice(this.selectedDeviceId);
+    } catch (err) {
+      await this.fail(err, 'Reconnection failed');
+    }
+  }
+
+  /**
+   * Disconnect from the device
+   */
+  async disconnect(): Promise<void> {
+    if (this.state === 'disconnected') return;
+
+    this.setState('disconnecting');
+    this.removeListeners();
+    try {
+      await this.api.unsubscribeNotifications(SPP_SERVICE_UUID, SPP_DATA_CHARACTERISTIC_UUID);
+      unwrap(await this.api.disconnect());
+    } catch (err) {
+      console.error('Disconnect error:', err);
+    } finally {
+      this.setState('disconnected');
+    }
+  }
+
+  get maxWriteLength(): number {
+    return this.writeLength;
+  }
+
+  /**
+   * Write raw bytes to the SPP characteristic
+   */
+  async write(data: Uint8Array, options: TransportWriteOptions = {}): Promise<void> {
+    if (this.state !== 'connected') {
+      throw new Error('Not connected to device');
+    }
+    unwrap(
+      await this.api.writeCharacteristic(
+        SPP_SERVICE_UUID,
+        SPP_DATA_CHARACTERISTIC_UUID,
+        Array.from(data),
+        options.withoutResponse
+      )
+    );
+  }
+
+  /**
+   * Connect to a device and subscribe to the SPP characteristic
+   */
+  private async openDevice(deviceId: string): Promise<void> {
+    this.setState('connecting');
+    this.selectedDeviceId = deviceId;
+    const { mtu } = unwrap(await this.api.connect(deviceId));
+    // ATT header takes 3 bytes of every write
+    this.writeLength = mtu ? mtu - 3 : DEFAULT_MAX_WRITE_LENGTH;
+
+    this.listeners.push(
+      this.api.on('bluetooth:notification', (event) => {
+        if (event.characteristicUuid === SPP_DATA_CHARACTERISTIC_UUID) {
+          this.emitData(new Uint8Array(event.data));
+        }
+      }),
+      this.api.on('bluetooth:disconnected', (event) => {
+        if (event.deviceId !== this.selectedDeviceId || event.reason !== 'link-lost') return;
+        this.removeListeners();
+        this.setState('disconnected', new Error('Device connection lost'));
+      })
+    );
+
+    // The main process discovers the service and characteristic while subscribing
+    this.setState('subscribing');
+    unwrap(await this.api.subscribeNotifications(SPP_SERVICE_UUID, SPP_DATA_CHARACTERISTIC_UUID));
+
+    this.setState('connected');
+  }
+
+  /**
+   * Report a failed (re)connection attempt and rethrow it
+   */
+  private async fail(err: unknown, fallbackMessage: string): Promise<never> {
+    this.removeListeners();
+    await this.api.disconnect();
+    const error = err instanceof Error ? err : new Error(fallbackMessage);
+    this.setState('disconnected', error);
+    throw error;
+  }
+
+  /**
+   * Scan for SPP devices and pick one
+   */
+  private async scanForDevice(): Promise<{ id: string }> {
+    const { scanDurationMs = 3000, selectDevice, chooser = deviceChooser } = this.options;
+
+    if (selectDevice) {
+      unwrap(await this.api.startScan([SPP_SERVICE_UUID]));
+      await new Promise((resolve) => setTimeout(resolve, scanDurationMs));
+      const { devices } = unwrap(await this.api.getDevices());
+      await this.api.stopScan();
+
+      const device = await selectDevice(devices);
+      if (!device) {
+        throw new Error('No device selected');
+      }
+      return device;
+    }
+
+    // Live-update the picker while the scan runs
+    const request = chooser.request();
+    const found = new Map<string, NativeBluetoothDevice>();
+    const off = this.api.on('bluetooth:device-discovered', (device) => {
+      found.set(device.id, device);
+      request.update(Array.from(found.values()).sort((a, b) => b.rssi - a.rssi));
+    });
+
+    try {
+      const started = await this.api.startScan([SPP_SERVICE_UUID]);
+      if (!started.success) {
+        request.cancel();
+        throw new Error(started.error);
+      }
+      const device = await request.result;
+      if (!device) {
+        throw new Error('Device selection cancelled');
+      }
+      return device;
+    } finally {
+      off();
+      await this.api.stopScan();
+    }
+  }
+
+  private removeListeners(): void {
+    for (const off of this.listeners) {
+      off();
+    }
+    this.listeners = [];
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Event Bus
+ *
+ * Minimal typed publish/subscribe hub. The event map type fixes the payload
+ * of every event name, so subscribers get typed events without casts.
+ */
+
+export type EventListener<T> = (event: T) => void;
+
+export class EventBus<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  /**
+   * Subscribe to one event type
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener as EventListener<never>);
+    return () => {
+      listeners.delete(listener as EventListener<never>);
+    };
+  }
+
+  /**
+   * Deliver an event to every subscriber of its type
+   *
+   * A throwing subscriber is logged and does not stop the others.
+   */
+  emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners) return;
+
+    for (const listener of Array.from(listeners) as EventListener<Events[K]>[]) {
+      try {
+        listener(event);
+      } catch (err) {
+        console.error(`[EventBus] ${String(type)} subscriber failed:`, err);
+      }
+    }
+  }
+
+  /**
+   * Remove all subscribers
+   */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
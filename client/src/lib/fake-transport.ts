@@ -0,0 +1,77 @@
+/**
+ * Fake Transport
+ *
+ * In-memory MotorTransport for tests. Writes are recorded and can be
+ * scripted (delayed or failed), and received bytes are injected directly,
+ * so the command and telemetry layers run without a device.
+ */
+
+import { BaseMotorTransport, DEFAULT_MAX_WRITE_LENGTH, type TransportWriteOptions } from './motor-transport';
+
+export interface FakeTransportOptions {
+  deviceId?: string | null;
+  /** Largest payload accepted by a single write */
+  maxWriteLength?: number;
+  /** Called for every write; may return a promise to hold it or throw to fail it */
+  onWrite?: (data: Uint8Array, options: TransportWriteOptions) => void | Promise<void>;
+}
+
+export interface FakeTransportWrite {
+  data: Uint8Array;
+  options: TransportWriteOptions;
+}
+
+export class FakeTransport extends BaseMotorTransport {
+  readonly name = 'Fake';
+  readonly deviceId: string | null;
+  readonly writes: FakeTransportWrite[] = [];
+
+  constructor(private options: FakeTransportOptions = {}) {
+    super();
+    this.deviceId = options.deviceId ?? 'fake';
+  }
+
+  get maxWriteLength(): number {
+    return this.options.maxWriteLength ?? DEFAULT_MAX_WRITE_LENGTH;
+  }
+
+  /**
+   * Text of all writes so far, in order
+   */
+  get writtenText(): string {
+    return this.writes.map(({ data }) => new TextDecoder().decode(data)).join('');
+  }
+
+  async connect(): Promise<void> {
+    this.setState('connecting');
+    this.setState('connected');
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.state === 'disconnected') return;
+    this.setState('disconnecting');
+    this.setState('disconnected');
+  }
+
+  async write(data: Uint8Array, options: TransportWriteOptions = {}): Promise<void> {
+    if (this.state !== 'connected') {
+      throw new Error('Not connected to device');
+    }
+    this.writes.push({ data: data.slice(), options });
+    await this.options.onWrite?.(data, options);
+  }
+
+  /**
+   * Deliver bytes (or text) as if the device had sent them
+   */
+  receive(data: Uint8Array | string): void {
+    this.emitData(typeof data === 'string' ? new TextEncoder().encode(data) : data);
+  }
+
+  /**
+   * Drop the link as if the device had gone away
+   */
+  dropLink(error = new Error('Device connection lost')): void {
+    this.setState('disconnected', error);
+  }
+}
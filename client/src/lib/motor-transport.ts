@@ -0,0 +1,155 @@
+/**
+ * Motor Transport
+ *
+ * Transport abstraction between the fan controller UI and the MG24 board.
+ * A transport moves raw bytes of the SPP text protocol in both directions
+ * and reports its connection state; it knows nothing about telemetry or
+ * commands. Web Bluetooth, Electron IPC, simulators and serial links all
+ * implement the same interface so the UI can be driven by any of them.
+ */
+
+// Custom 128-bit UUIDs for Silicon Labs SPP service
+export const SPP_SERVICE_UUID = '4880c12c-fdcb-4077-8920-a450d7f9b907';
+export const SPP_DATA_CHARACTERISTIC_UUID = 'fec26ec4-6d71-4442-9f81-55bc21d658d6';
+
+export type TransportState =
+  | 'disconnected'
+  | 'requesting'
+  | 'connecting'
+  | 'discovering'
+  | 'subscribing'
+  | 'connected'
+  | 'disconnecting';
+
+/**
+ * Largest write payload when the ATT MTU is unknown (default MTU 23 minus
+ * the 3 byte ATT header)
+ */
+export const DEFAULT_MAX_WRITE_LENGTH = 20;
+
+export interface TransportWriteOptions {
+  /** Write without waiting for the link-layer response (default: false) */
+  withoutResponse?: boolean;
+}
+
+export type TransportDataListener = (data: Uint8Array) => void;
+export type TransportStateListener = (state: TransportState, error?: Error) => void;
+
+export interface MotorTransport {
+  /** Human readable name of the transport (e.g. "Web Bluetooth") */
+  readonly name: string;
+  /** Stable identifier of the selected device, null before one was selected */
+  readonly deviceId: string | null;
+  /** Current connection state */
+  readonly state: TransportState;
+  /** Largest payload accepted by a single write (negotiated MTU minus header) */
+  readonly maxWriteLength: number;
+
+  /**
+   * Open the link to the device.
+   * Resolves once data can be written and received; rejects on failure.
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Reopen the link to the previously connected device without user
+   * interaction (no chooser). Used for automatic reconnection.
+   */
+  reconnect(): Promise<void>;
+
+  /**
+   * Close the link to the device. Safe to call when already disconnected.
+   */
+  disconnect(): Promise<void>;
+
+  /**
+   * Write raw bytes to the device in a single operation.
+   * Callers split payloads longer than maxWriteLength.
+   */
+  write(data: Uint8Array, options?: TransportWriteOptions): Promise<void>;
+
+  /**
+   * Subscribe to bytes received from the device
+   * @returns Unsubscribe function
+   */
+  onData(listener: TransportDataListener): () => void;
+
+  /**
+   * Subscribe to connection state changes
+   * @returns Unsubscribe function
+   */
+  onStateChange(listener: TransportStateListener): () => void;
+}
+
+/**
+ * Base class handling listener bookkeeping and state reporting
+ * shared by all transport implementations
+ */
+export abstract class BaseMotorTransport implements MotorTransport {
+  abstract readonly name: string;
+  abstract readonly deviceId: string | null;
+
+  private currentState: TransportState = 'disconnected';
+  private dataListeners = new Set<TransportDataListener>();
+  private stateListeners = new Set<TransportStateListener>();
+
+  get state(): TransportState {
+    return this.currentState;
+  }
+
+  get maxWriteLength(): number {
+    return DEFAULT_MAX_WRITE_LENGTH;
+  }
+
+  abstract connect(): Promise<void>;
+  abstract disconnect(): Promise<void>;
+  abstract write(data: Uint8Array, options?: TransportWriteOptions): Promise<void>;
+
+  /**
+   * Transports without a device chooser can simply connect again
+   */
+  reconnect(): Promise<void> {
+    return this.connect();
+  }
+
+  onData(listener: TransportDataListener): () => void {
+    this.dataListeners.add(listener);
+    return () => {
+      this.dataListeners.delete(listener);
+    };
+  }
+
+  onStateChange(listener: TransportStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Update the connection state and notify listeners
+   */
+  protected setState(state: TransportState, error?: Error): void {
+    if (state === this.currentState && !error) return;
+    this.currentState = state;
+    for (const listener of Array.from(this.stateListeners)) {
+      listener(state, error);
+    }
+  }
+
+  /**
+   * Deliver received bytes to listeners
+   */
+  protected emitData(data: Uint8Array): void {
+    for (const listener of Array.from(this.dataListeners)) {
+      listener(data);
+    }
+  }
+}
+
+/**
+ * Encode a text command for the SPP protocol (newline terminated)
+ */
+export function encodeCommand(command: string): Uint8Array {
+  return new TextEncoder().encode(command + '\n');
+}
@@ -0,0 +1,76 @@
+/**
+ * Reconnect Policy
+ *
+ * Exponential backoff settings for automatic reconnection after the board
+ * resets or drifts out of range, plus the session state that is re-applied
+ * once the link is back.
+ */
+
+export interface ReconnectPolicy {
+  /** Reconnect automatically after an unexpected disconnect */
+  enabled: boolean;
+  /** Delay before the first attempt (ms) */
+  initialDelayMs: number;
+  /** Upper bound for the delay between attempts (ms) */
+  maxDelayMs: number;
+  /** Factor applied to the delay after each failed attempt */
+  multiplier: number;
+  /** Attempts before giving up */
+  maxAttempts: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  enabled: true,
+  initialDelayMs: 1000,
+  maxDelayMs: 15000,
+  multiplier: 2,
+  maxAttempts: 5,
+};
+
+/**
+ * Delay before a reconnect attempt
+ * @param attempt - 1-based attempt number
+ */
+export function getReconnectDelay(attempt: number, policy: ReconnectPolicy): number {
+  const delay = policy.initialDelayMs * Math.pow(policy.multiplier, attempt - 1);
+  return Math.min(policy.maxDelayMs, delay);
+}
+
+/**
+ * Last state commanded by the user, re-applied after a reconnect
+ */
+export interface SessionCommands {
+  /** Last speed command ("M<n>") */
+  speed: string | null;
+  /** Last auto-shutoff command ("AOFF0" / "AOFF1") */
+  autoShutoff: string | null;
+  /** Last anomaly source command ("ASRC imu" / "ASRC audio") */
+  anomalySource: string | null;
+}
+
+export function createSessionCommands(): SessionCommands {
+  return { speed: null, autoShutoff: null, anomalySource: null };
+}
+
+/**
+ * Remember a successfully sent command if it changes session state
+ */
+export function recordSessionCommand(session: SessionCommands, command: string): void {
+  if (/^M\d/.test(command)) {
+    session.speed = command;
+  } else if (/^AOFF[01]$/.test(command)) {
+    session.autoShutoff = command;
+  } else if (/^ASRC\s+\S+$/.test(command)) {
+    session.anomalySource = command;
+  }
+}
+
+/**
+ * Commands restoring the session on a fresh link, auto-shutoff and detector
+ * source first so the board is protected before the motor spins up
+ * @param stopLatched - A latched stop (safety interlock trip) restores the motor stopped
+ */
+export function getResumeCommands(session: SessionCommands, stopLatched = false): string[] {
+  const speed = stopLatched && session.speed ? 'M0' : session.speed;
+  return [session.autoShutoff, session.anomalySource, speed].filter((command): command is string => !!command);
+}
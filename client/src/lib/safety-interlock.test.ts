@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_INTERLOCK_CONFIG, SafetyInterlock, type InterlockTrip } from './safety-interlock';
+import { createClockedPipeline, type ClockedPipeline } from './telemetry-fixture';
+import { TelemetryRecorder } from './telemetry-recorder';
+
+describe('SafetyInterlock', () => {
+  let clock: ClockedPipeline;
+  let interlock: SafetyInterlock;
+  let onTrip: ReturnType<typeof vi.fn<(trip: InterlockTrip) => void>>;
+
+  beforeEach(() => {
+    clock = createClockedPipeline();
+    const { pipeline, now } = clock;
+    const recorder = new TelemetryRecorder();
+    recorder.attach(pipeline);
+    onTrip = vi.fn<(trip: InterlockTrip) => void>();
+    interlock = new SafetyInterlock({ config: DEFAULT_INTERLOCK_CONFIG, recorder, onTrip, now });
+    interlock.attach(pipeline);
+    interlock.arm();
+  });
+
+  it('trips on an anomaly only once it lasted the configured duration', () => {
+    clock.receive(0, 'Motor: Running Speed: 10.00 Anomaly: 90% mode: imu');
+    clock.receive(2999, 'Motor: Running Speed: 10.00 Anomaly: 90% mode: imu');
+    expect(onTrip).not.toHaveBeenCalled();
+
+    clock.receive(3000, 'Motor: Running Speed: 10.00 Anomaly: 90% mode: imu');
+    expect(onTrip).toHaveBeenCalledTimes(1);
+    expect(interlock.tripped).toMatchObject({ rule: 'anomaly', at: 3000 });
+    expect(interlock.tripped?.frames.map((frame) => frame.receivedAt)).toEqual([0, 2999, 3000]);
+  });
+
+  it('restarts the anomaly duration when the score drops in between', () => {
+    clock.receive(0, 'Motor: Running Speed: 10.00 Anomaly: 90% mode: imu');
+    clock.receive(2000, 'Motor: Running Speed: 10.00 Anomaly: 20% mode: imu');
+    clock.receive(2500, 'Motor: Running Speed: 10.00 Anomaly: 90% mode: imu');
+    clock.receive(5000, 'Motor: Running Speed: 10.00 Anomaly: 90% mode: imu');
+    expect(onTrip).not.toHaveBeenCalled();
+
+    clock.receive(5500, 'Motor: Running Speed: 10.00 Anomaly: 90% mode: imu');
+    expect(onTrip).toHaveBeenCalledTimes(1);
+  });
+
+  it('stays latched until acknowledged', () => {
+    clock.receive(0, 'Motor: Error Speed: 0.00 Anomaly: 0%');
+    clock.receive(500, 'Motor: Running Speed: 30.00 Anomaly: 0%');
+    expect(onTrip).toHaveBeenCalledTimes(1);
+    expect(interlock.tripped?.rule).toBe('error');
+
+    clock.setTime(800);
+    expect(interlock.acknowledge()?.rule).toBe('error');
+    expect(interlock.tripped).toBeNull();
+
+    clock.receive(1000, 'Motor: Running Speed: 30.00 Anomaly: 0%');
+    expect(onTrip).toHaveBeenCalledTimes(2);
+    expect(interlock.tripped).toMatchObject({ id: 2, rule: 'overspeed', at: 1000 });
+  });
+
+  it('lets the motor run at the device maximum', () => {
+    clock.receive(0, 'Motor: Running Speed: 25.00 Anomaly: 0%');
+    expect(onTrip).not.toHaveBeenCalled();
+
+    clock.pipeline.setLimits({ maxSpeed: 40 });
+    interlock.setMaxSpeed(40);
+    clock.receive(500, 'Motor: Running Speed: 40.00 Anomaly: 0%');
+    expect(onTrip).not.toHaveBeenCalled();
+
+    clock.receive(1000, 'Motor: Running Speed: 40.50 Anomaly: 0%');
+    expect(interlock.tripped).toMatchObject({ rule: 'overspeed', at: 1000 });
+  });
+
+  it('trips above a speed limit set below the device maximum', () => {
+    interlock.setConfig({ ...DEFAULT_INTERLOCK_CONFIG, overspeed: { enabled: true, limit: 20 } });
+
+    clock.receive(0, 'Motor: Running Speed: 20.00 Anomaly: 0%');
+    expect(onTrip).not.toHaveBeenCalled();
+    clock.receive(500, 'Motor: Running Speed: 20.50 Anomaly: 0%');
+    expect(interlock.tripped).toMatchObject({
+      rule: 'overspeed',
+      reason: 'Speed 20.50 rad/s above the limit of 20 rad/s',
+    });
+  });
+
+  it('keeps a trip latched across disarm and re-arm', () => {
+    clock.receive(0, 'Motor: Error Speed: 0.00 Anomaly: 0%');
+    interlock.disarm();
+    interlock.arm();
+
+    expect(interlock.tripped?.rule).toBe('error');
+    clock.receive(100, 'Motor: Error Speed: 0.00 Anomaly: 0%');
+    expect(onTrip).toHaveBeenCalledTimes(1);
+  });
+
+  it('trips on stale telemetry only while the motor is running', () => {
+    clock.receive(0, 'Motor: Stop Speed: 0.00 Anomaly: 0%');
+    clock.setTime(10_000);
+    interlock.check();
+    expect(onTrip).not.toHaveBeenCalled();
+
+    clock.receive(10_000, 'Motor: Running Speed: 10.00 Anomaly: 0%');
+    clock.setTime(13_000);
+    interlock.check();
+    expect(onTrip).not.toHaveBeenCalled();
+
+    clock.setTime(13_001);
+    interlock.check();
+    expect(interlock.tripped).toMatchObject({ rule: 'stale', at: 13_001 });
+  });
+
+  it('ignores telemetry while disarmed', () => {
+    interlock.disarm();
+    clock.receive(0, 'Motor: Error Speed: 0.00 Anomaly: 0%');
+    clock.setTime(10_000);
+    interlock.check();
+    expect(onTrip).not.toHaveBeenCalled();
+  });
+});
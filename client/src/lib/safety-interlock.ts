@@ -0,0 +1,263 @@
+/**
+ * Safety Interlock
+ *
+ * Host-side protection that does not depend on the firmware's auto-shutoff
+ * (AOFF1). Every telemetry frame is checked against a set of rules:
+ * - anomaly  anomaly score above a threshold for a minimum time
+ * - error    the board reports "Motor: Error"
+ * - overspeed  measured speed above a limit (the device maximum unless set
+ *              lower), or a speed reading rejected as out of the device range
+ * - stale    no telemetry for a timeout while the motor is running
+ *
+ * The first rule that fires trips the interlock: the owner stops the motor,
+ * and the trip stays latched until an operator acknowledges it. Each trip
+ * carries the telemetry frames that led up to it.
+ */
+
+import { loadSetting, saveSetting } from './settings-storage';
+import type { TelemetryDiagnostic } from './telemetry-diagnostics';
+import type { TelemetryFrameEvent, TelemetryPipeline } from './telemetry-pipeline';
+import type { TelemetryRecorder } from './telemetry-recorder';
+import { DEFAULT_TELEMETRY_LIMITS } from './telemetry-schema';
+
+export type InterlockRule = 'anomaly' | 'error' | 'overspeed' | 'stale';
+
+export interface InterlockConfig {
+  anomaly: { enabled: boolean; threshold: number; durationMs: number };
+  error: { enabled: boolean };
+  /** Limit in rad/s, null for the device maximum */
+  overspeed: { enabled: boolean; limit: number | null };
+  stale: { enabled: boolean; timeoutMs: number };
+}
+
+export interface InterlockTrip {
+  id: number;
+  rule: InterlockRule;
+  /** Human readable cause */
+  reason: string;
+  at: number;
+  /** Telemetry frames leading up to the trip, oldest first */
+  frames: TelemetryFrameEvent[];
+  /** Rejected line that caused the trip, if any */
+  line?: string;
+  /** When an operator acknowledged the trip */
+  acknowledgedAt?: number;
+}
+
+export const INTERLOCK_RULE_LABELS: Record<InterlockRule, string> = {
+  anomaly: 'Anomaly',
+  error: 'Motor error',
+  overspeed: 'Over-speed',
+  stale: 'Stale telemetry',
+};
+
+export const DEFAULT_INTERLOCK_CONFIG: InterlockConfig = {
+  anomaly: { enabled: true, threshold: 80, durationMs: 3000 },
+  error: { enabled: true },
+  overspeed: { enabled: true, limit: null },
+  stale: { enabled: true, timeoutMs: 3000 },
+};
+
+/** Frames attached to a trip at most */
+const MAX_TRIP_FRAMES = 40;
+/** Look-back attached to a trip beyond the rule's own window (ms) */
+const TRIP_CONTEXT_MS = 5000;
+
+const STORAGE_KEY = 'mg24.interlock';
+
+/**
+ * Check a configuration edited by the user
+ * @returns Error message, or null if the configuration is usable
+ */
+export function validateInterlockConfig(config: InterlockConfig): string | null {
+  const { anomaly, overspeed, stale } = config;
+  if (!Number.isFinite(anomaly.threshold) || anomaly.threshold <= 0 || anomaly.threshold > 100) {
+    return 'Anomaly threshold must be between 1 and 100%';
+  }
+  if (!Number.isFinite(anomaly.durationMs) || anomaly.durationMs < 0) {
+    return 'Anomaly duration must not be negative';
+  }
+  if (overspeed.limit !== null && (!Number.isFinite(overspeed.limit) || overspeed.limit <= 0)) {
+    return 'Speed limit must be positive';
+  }
+  if (!Number.isFinite(stale.timeoutMs) || stale.timeoutMs < 500) {
+    return 'Stale telemetry timeout must be at least 500 ms';
+  }
+  return null;
+}
+
+export interface SafetyInterlockOptions {
+  config?: InterlockConfig;
+  /** Source of the frames attached to a trip */
+  recorder: TelemetryRecorder;
+  /** Called once per trip; the owner stops the motor */
+  onTrip: (trip: InterlockTrip) => void;
+  /** Device maximum speed in rad/s (default: DEFAULT_TELEMETRY_LIMITS.maxSpeed) */
+  maxSpeed?: number;
+  /** Clock, injectable for deterministic runs */
+  now?: () => number;
+}
+
+export class SafetyInterlock {
+  private config: InterlockConfig;
+  private maxSpeed: number;
+  private trip: InterlockTrip | null = null;
+  private tripCount = 0;
+  private armed = false;
+  /** Since when the anomaly score has been above the threshold */
+  private anomalySince: number | null = null;
+  private lastFrameAt: number | null = null;
+  private running = false;
+
+  constructor(private options: SafetyInterlockOptions) {
+    this.config = options.config ?? DEFAULT_INTERLOCK_CONFIG;
+    this.maxSpeed = options.maxSpeed ?? DEFAULT_TELEMETRY_LIMITS.maxSpeed;
+  }
+
+  /**
+   * Latched trip awaiting acknowledgement, null when clear
+   */
+  get tripped(): InterlockTrip | null {
+    return this.trip;
+  }
+
+  setConfig(config: InterlockConfig): void {
+    this.config = config;
+    this.anomalySince = null;
+  }
+
+  /**
+   * Update the device maximum speed (e.g. after the capability handshake)
+   */
+  setMaxSpeed(maxSpeed: number): void {
+    this.maxSpeed = maxSpeed;
+  }
+
+  /**
+   * Check the telemetry of a pipeline
+   * @returns Detach function
+   */
+  attach(pipeline: TelemetryPipeline): () => void {
+    const subscriptions = [
+      pipeline.on('telemetry', (frame) => this.handleFrame(frame)),
+      pipeline.on('diagnostic', (diagnostic) => this.handleDiagnostic(diagnostic)),
+    ];
+    return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+  }
+
+  /**
+   * Start checking (link up); the stale timer starts now
+   */
+  arm(): void {
+    this.armed = true;
+    this.lastFrameAt = this.now();
+    this.running = false;
+    this.anomalySince = null;
+  }
+
+  /**
+   * Stop checking (link down); a latched trip stays latched
+   */
+  disarm(): void {
+    this.armed = false;
+    this.lastFrameAt = null;
+    this.running = false;
+    this.anomalySince = null;
+  }
+
+  /**
+   * Clear a latched trip
+   */
+  acknowledge(): InterlockTrip | null {
+    const trip = this.trip;
+    this.trip = null;
+    this.anomalySince = null;
+    this.lastFrameAt = this.armed ? this.now() : null;
+    return trip;
+  }
+
+  handleFrame(frame: TelemetryFrameEvent): void {
+    const { telemetry, receivedAt } = frame;
+    this.lastFrameAt = receivedAt;
+    this.running = telemetry.status === 'Running' || telemetry.speed > 0;
+    if (!this.armed || this.trip) return;
+
+    const { anomaly, error, overspeed } = this.config;
+    if (error.enabled && telemetry.status === 'Error') {
+      this.fire('error', 'Board reported Motor: Error', receivedAt, { trigger: frame });
+      return;
+    }
+    const speedLimit = overspeed.limit ?? this.maxSpeed;
+    if (overspeed.enabled && telemetry.speed > speedLimit) {
+      const reason = `Speed ${telemetry.speed.toFixed(2)} rad/s above the limit of ${speedLimit} rad/s`;
+      this.fire('overspeed', reason, receivedAt, { trigger: frame });
+      return;
+    }
+    if (anomaly.enabled && telemetry.anomalyActive && telemetry.anomalyPercentage > anomaly.threshold) {
+      this.anomalySince ??= receivedAt;
+      if (receivedAt - this.anomalySince >= anomaly.durationMs) {
+        const seconds = ((receivedAt - this.anomalySince) / 1000).toFixed(1);
+        const reason = `Anomaly ${telemetry.anomalyPercentage}% above ${anomaly.threshold}% for ${seconds} s`;
+        this.fire('anomaly', reason, receivedAt, { trigger: frame, windowMs: receivedAt - this.anomalySince });
+      }
+    } else {
+      this.anomalySince = null;
+    }
+  }
+
+  handleDiagnostic(diagnostic: TelemetryDiagnostic): void {
+    if (!this.armed || this.trip || !this.config.overspeed.enabled) return;
+    if (diagnostic.severity === 'error' && diagnostic.reason === 'out-of-range' && diagnostic.field === 'speed') {
+      this.fire('overspeed', `Rejected speed reading: ${diagnostic.message}`, this.now(), { line: diagnostic.line });
+    }
+  }
+
+  /**
+   * Check for stale telemetry; call periodically
+   */
+  check(): void {
+    if (!this.armed || this.trip || !this.config.stale.enabled || !this.running || this.lastFrameAt === null) return;
+    const now = this.now();
+    const silentMs = now - this.lastFrameAt;
+    if (silentMs > this.config.stale.timeoutMs) {
+      this.fire('stale', `No telemetry for ${(silentMs / 1000).toFixed(1)} s while running`, now, { windowMs: silentMs });
+    }
+  }
+
+  /**
+   * Latch a trip with the frames of the rule's window plus some context
+   */
+  private fire(
+    rule: InterlockRule,
+    reason: string,
+    at: number,
+    context: { trigger?: TelemetryFrameEvent; windowMs?: number; line?: string } = {}
+  ): void {
+    const { trigger, windowMs = 0, line } = context;
+    const frames = this.options.recorder.getFrames(at - windowMs - TRIP_CONTEXT_MS);
+    // Subscribers run in order; the recorder may not have seen the triggering frame yet
+    if (trigger && !frames.includes(trigger)) frames.push(trigger);
+    this.trip = { id: ++this.tripCount, rule, reason, at, frames: frames.slice(-MAX_TRIP_FRAMES), line };
+    this.options.onTrip(this.trip);
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
+
+/**
+ * Saved interlock rules, or the defaults
+ */
+export function loadInterlockConfig(storage?: Storage): InterlockConfig {
+  return loadSetting(
+    STORAGE_KEY,
+    DEFAULT_INTERLOCK_CONFIG,
+    (stored) => (validateInterlockConfig(stored as InterlockConfig) === null ? (stored as InterlockConfig) : null),
+    storage
+  );
+}
+
+export function saveInterlockConfig(config: InterlockConfig, storage?: Storage): void {
+  saveSetting(STORAGE_KEY, config, storage);
+}
@@ -0,0 +1,53 @@
+/**
+ * Settings Storage
+ *
+ * Settings are kept as JSON in localStorage under "mg24." keys. Settings
+ * kept per device append the transport device id to their key prefix, or
+ * "default" while no device has been identified. A stored value that does
+ * not parse or validate reads back as the defaults.
+ */
+
+/** Storage key suffix used while no device has been identified */
+const DEFAULT_DEVICE_KEY = 'default';
+
+function getStorage(storage?: Storage): Storage | undefined {
+  return storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined);
+}
+
+/**
+ * Storage key of a per-device setting
+ * @param deviceId - Transport device id; null for the shared default
+ */
+export function deviceSettingKey(prefix: string, deviceId: string | null): string {
+  return prefix + (deviceId ?? DEFAULT_DEVICE_KEY);
+}
+
+/**
+ * Saved value of a setting, or the fallback
+ * @param parse - Turns the stored JSON into a usable value, null to reject it
+ */
+export function loadSetting<T>(
+  key: string,
+  fallback: T,
+  parse: (stored: unknown) => T | null,
+  storage?: Storage
+): T {
+  try {
+    const stored = getStorage(storage)?.getItem(key);
+    if (!stored) return fallback;
+    return parse(JSON.parse(stored)) ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveSetting(key: string, value: unknown, storage?: Storage): void {
+  getStorage(storage)?.setItem(key, JSON.stringify(value));
+}
+
+/**
+ * Drop a saved setting, returning it to its defaults
+ */
+export function clearSetting(key: string, storage?: Storage): void {
+  getStorage(storage)?.removeItem(key);
+}
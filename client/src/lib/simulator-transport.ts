@@ -0,0 +1,84 @@
+/**
+ * Simulator Transport
+ *
+ * MotorTransport backed by the virtual MG24 device, for development and
+ * demos without the board.
+ */
+
+import { Mg24Simulator, type Mg24SimulatorOptions } from '@shared/mg24-simulator';
+import { BaseMotorTransport } from './motor-transport';
+
+export class SimulatorTransport extends BaseMotorTransport {
+  readonly name = 'Simulator';
+  readonly deviceId = 'simulator';
+
+  private simulator: Mg24Simulator | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private options: Mg24SimulatorOptions = {}) {
+    super();
+  }
+
+  /**
+   * Start a fresh simulated device
+   */
+  async connect(): Promise<void> {
+    this.setState('connecting');
+
+    const simulator = new Mg24Simulator(this.options);
+    const encoder = new TextEncoder();
+    const offLine = simulator.onLine((line) => this.emitData(encoder.encode(line)));
+    const offFrame = simulator.onFrame((frame) => this.emitData(frame));
+    this.unsubscribe = () => {
+      offLine();
+      offFrame();
+    };
+    simulator.start();
+    this.simulator = simulator;
+
+    this.setState('connected');
+  }
+
+  /**
+   * Stop the simulated device
+   */
+  async disconnect(): Promise<void> {
+    if (this.state === 'disconnected') return;
+
+    this.setState('disconnecting');
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.simulator?.stop();
+    this.simulator = null;
+    this.setState('disconnected');
+  }
+
+  /**
+   * Deliver bytes to the simulated device
+   */
+  async write(data: Uint8Array): Promise<void> {
+    if (!this.simulator || this.state !== 'connected') {
+      throw new Error('Not connected to device');
+    }
+    this.simulator.receive(data);
+  }
+
+  /**
+   * Drop the link as if the board had reset, to exercise reconnection
+   */
+  simulateLinkLoss(): void {
+    if (this.state !== 'connected') return;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.simulator?.stop();
+    this.simulator = null;
+    this.setState('disconnected', new Error('Device connection lost'));
+  }
+
+  /**
+   * Access the running simulator (e.g. to inject anomalies)
+   */
+  getSimulator(): Mg24Simulator | null {
+    return this.simulator;
+  }
+}
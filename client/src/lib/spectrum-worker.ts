@@ -0,0 +1,16 @@
+/**
+ * Spectrum Worker
+ *
+ * Web Worker entry computing spectra off the main thread. Receives a
+ * SpectrumRequest, answers with the SpectrumResult (magnitudes transferred).
+ *
+ * Created with:
+ *   new Worker(new URL('./spectrum-worker.ts', import.meta.url), { type: 'module' })
+ */
+
+import { computeSpectrum, type SpectrumRequest } from './spectrum';
+
+self.addEventListener('message', (event: MessageEvent<SpectrumRequest>) => {
+  const result = computeSpectrum(event.data);
+  self.postMessage(result, { transfer: [result.magnitudes.buffer] });
+});
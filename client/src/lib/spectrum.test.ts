@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { computeSpectrum, fft, SPECTRUM_FLOOR_DB } from './spectrum';
+
+function sine(length: number, frequency: number, sampleRate: number, amplitude: number, offset = 0): Float32Array {
+  return Float32Array.from({ length }, (_, i) => offset + amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+}
+
+/** Index of the largest magnitude */
+function peakBin(magnitudes: Float32Array): number {
+  return magnitudes.reduce((peak, value, index) => (value > magnitudes[peak] ? index : peak), 0);
+}
+
+describe('fft', () => {
+  it('transforms an impulse into a flat spectrum', () => {
+    const real = new Float32Array(8);
+    const imag = new Float32Array(8);
+    real[0] = 1;
+
+    fft(real, imag);
+    expect(Array.from(real)).toEqual(new Array(8).fill(1));
+    expect(Array.from(imag, Math.abs)).toEqual(new Array(8).fill(0));
+  });
+
+  it('rejects lengths that are not a power of two', () => {
+    expect(() => fft(new Float32Array(12), new Float32Array(12))).toThrow('FFT length must be a power of two, got 12');
+  });
+});
+
+describe('computeSpectrum', () => {
+  it('finds a sine at its bin with its amplitude', () => {
+    // 64 Hz at 1024 Hz over 1024 samples lies exactly on bin 64
+    const result = computeSpectrum({ id: 7, samples: sine(1024, 64, 1024, 0.5), sampleRate: 1024, size: 1024 });
+
+    expect(result.id).toBe(7);
+    expect(result.binHz).toBe(1);
+    expect(result.magnitudes).toHaveLength(513);
+
+    const peak = peakBin(result.magnitudes);
+    expect(peak).toBe(64);
+    // 0.5 full scale = -6.02 dBFS
+    expect(result.magnitudes[peak]).toBeCloseTo(20 * Math.log10(0.5), 1);
+  });
+
+  it('removes a DC offset', () => {
+    const result = computeSpectrum({ id: 1, samples: sine(256, 32, 256, 0.25, 0.5), sampleRate: 256, size: 256 });
+
+    expect(result.magnitudes[0]).toBeLessThan(-60);
+    expect(peakBin(result.magnitudes)).toBe(32);
+  });
+
+  it('analyses the most recent samples only', () => {
+    const samples = new Float32Array(512);
+    samples.set(sine(256, 16, 256, 0.5), 0);
+
+    const result = computeSpectrum({ id: 1, samples, sampleRate: 256, size: 256 });
+    expect(result.magnitudes.every((magnitude) => magnitude === SPECTRUM_FLOOR_DB)).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Spectrum Analysis
+ *
+ * Magnitude spectrum of a waveform window: Hann window, radix-2 FFT,
+ * single-sided amplitude in dB full scale. Runs in the spectrum worker
+ * (spectrum-worker.ts) so large windows never block rendering.
+ */
+
+export interface SpectrumRequest {
+  id: number;
+  /** Most recent samples, at least `size` long */
+  samples: Float32Array;
+  sampleRate: number;
+  /** FFT length, a power of two */
+  size: number;
+}
+
+export interface SpectrumResult {
+  id: number;
+  /** Width of one bin (Hz) */
+  binHz: number;
+  /** Amplitude per bin from 0 Hz to Nyquist (dBFS), size / 2 + 1 values */
+  magnitudes: Float32Array;
+}
+
+/** Floor of the reported magnitudes (dBFS) */
+export const SPECTRUM_FLOOR_DB = -120;
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+export function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+  if (n & (n - 1)) {
+    throw new Error(`FFT length must be a power of two, got ${n}`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let length = 2; length <= n; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < n; start += length) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k;
+        const b = a + length / 2;
+        const tReal = real[b] * wReal - imag[b] * wImag;
+        const tImag = real[b] * wImag + imag[b] * wReal;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+        [wReal, wImag] = [wReal * stepReal - wImag * stepImag, wReal * stepImag + wImag * stepReal];
+      }
+    }
+  }
+}
+
+/**
+ * Amplitude spectrum of the last `request.size` samples
+ */
+export function computeSpectrum(request: SpectrumRequest): SpectrumResult {
+  const { samples, size, sampleRate } = request;
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  const start = samples.length - size;
+
+  // Hann window; remove the mean so DC offset does not mask low frequencies
+  let mean = 0;
+  for (let i = 0; i < size; i++) mean += samples[start + i];
+  mean /= size;
+  let windowSum = 0;
+  for (let i = 0; i < size; i++) {
+    const w = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+    real[i] = (samples[start + i] - mean) * w;
+    windowSum += w;
+  }
+
+  fft(real, imag);
+
+  const magnitudes = new Float32Array(size / 2 + 1);
+  for (let k = 0; k <= size / 2; k++) {
+    // Single-sided amplitude, corrected for the window gain
+    const amplitude = ((k === 0 || k === size / 2 ? 1 : 2) * Math.hypot(real[k], imag[k])) / windowSum;
+    magnitudes[k] = Math.max(SPECTRUM_FLOOR_DB, 20 * Math.log10(amplitude));
+  }
+  return { id: request.id, binHz: sampleRate / size, magnitudes };
+}
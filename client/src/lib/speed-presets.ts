@@ -0,0 +1,163 @@
+/**
+ * Speed Presets
+ *
+ * Named shortcuts on the speed control. Each preset sends "M<command>" and
+ * is labelled with the speed the motor is expected to reach, so a board
+ * whose firmware maps the command to a different speed can still be
+ * described truthfully. Presets are saved per device and can be moved
+ * between machines as JSON:
+ *
+ *   { "version": 1, "presets": [{ "name": "Low", "icon": "🌀", "command": 7, ... }] }
+ *
+ * Presets saved or imported for a device are checked against its limits and
+ * speed resolution, so every preset sends exactly the command it shows.
+ */
+
+import { clearSetting, deviceSettingKey, loadSetting, saveSetting } from './settings-storage';
+import { isOnResolution, type SpeedLimits } from './speed-setpoint';
+
+export interface SpeedPreset {
+  id: string;
+  name: string;
+  /** Emoji or short text shown on the button */
+  icon: string;
+  /** Setpoint sent as "M<command>" (rad/s) */
+  command: number;
+  /** Speed the motor settles at (rad/s), shown on the button */
+  expectedSpeed: number;
+  /** Button color (#rrggbb) */
+  color: string;
+}
+
+export const DEFAULT_SPEED_PRESETS: SpeedPreset[] = [
+  { id: 'stop', name: 'Stop', icon: '⏹', command: 0, expectedSpeed: 0, color: '#6b7280' },
+  { id: 'low', name: 'Low', icon: '🌀', command: 7, expectedSpeed: 7, color: '#22c55e' },
+  { id: 'high', name: 'High', icon: '⚡', command: 16, expectedSpeed: 16, color: '#0ea5e9' },
+];
+
+export const MAX_SPEED_PRESETS = 8;
+
+const PRESETS_FILE_VERSION = 1;
+const STORAGE_KEY_PREFIX = 'mg24.presets.';
+
+/**
+ * Check presets edited or imported by the user
+ * @param limits - Device the presets are for; without it only the format is checked
+ * @returns Error message, or null if the presets are usable
+ */
+export function validateSpeedPresets(presets: SpeedPreset[], limits?: SpeedLimits): string | null {
+  if (presets.length === 0) {
+    return 'At least one preset is required';
+  }
+  if (presets.length > MAX_SPEED_PRESETS) {
+    return `At most ${MAX_SPEED_PRESETS} presets are supported`;
+  }
+  for (let index = 0; index < presets.length; index++) {
+    const preset = presets[index];
+    if (typeof preset.name !== 'string' || !preset.name.trim()) {
+      return `Preset ${index + 1} needs a name`;
+    }
+    if (typeof preset.icon !== 'string') {
+      return `${preset.name} icon must be text`;
+    }
+    if (!Number.isFinite(preset.command) || preset.command < 0) {
+      return `${preset.name} command value must be a speed of 0 or more`;
+    }
+    if (limits) {
+      const { minSpeed, maxSpeed, speedResolution } = limits;
+      if (!isOnResolution(preset.command, speedResolution)) {
+        return `${preset.name} command value must be a multiple of ${speedResolution} rad/s for this device`;
+      }
+      if (preset.command > maxSpeed) {
+        return `${preset.name} command value exceeds the device maximum of ${maxSpeed} rad/s`;
+      }
+      if (preset.command > 0 && preset.command < minSpeed) {
+        return `${preset.name} command value is below the device minimum of ${minSpeed} rad/s`;
+      }
+    }
+    if (!Number.isFinite(preset.expectedSpeed) || preset.expectedSpeed < 0) {
+      return `${preset.name} expected speed must be 0 or more`;
+    }
+    if (typeof preset.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(preset.color)) {
+      return `${preset.name} color must be #rrggbb`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Presets as a JSON document for export
+ */
+export function serializeSpeedPresets(presets: SpeedPreset[]): string {
+  const exported = presets.map(({ name, icon, command, expectedSpeed, color }) => ({
+    name,
+    icon,
+    command,
+    expectedSpeed,
+    color,
+  }));
+  return JSON.stringify({ version: PRESETS_FILE_VERSION, presets: exported }, null, 2);
+}
+
+/**
+ * Read presets from an exported JSON document (or a bare array of presets)
+ * @param limits - Device the presets are imported for
+ * @returns Presets with fresh ids, or the reason the document was rejected
+ */
+export function parseSpeedPresets(json: string, limits?: SpeedLimits): { presets: SpeedPreset[] } | { error: string } {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    return { error: 'File is not valid JSON' };
+  }
+
+  const list = Array.isArray(document) ? document : (document as { presets?: unknown } | null)?.presets;
+  if (!Array.isArray(list)) {
+    return { error: 'File contains no presets' };
+  }
+
+  const presets = list.map((item: unknown, index): SpeedPreset => {
+    const entry = (item ?? {}) as Partial<SpeedPreset>;
+    return {
+      id: `preset-${index}-${Date.now()}`,
+      name: entry.name ?? '',
+      icon: entry.icon ?? '',
+      command: Number(entry.command),
+      expectedSpeed: Number(entry.expectedSpeed ?? entry.command),
+      color: entry.color ?? '',
+    };
+  });
+  const invalid = validateSpeedPresets(presets, limits);
+  return invalid ? { error: invalid } : { presets };
+}
+
+/**
+ * Saved presets of a device, or the defaults
+ * @param deviceId - Transport device id; null for the shared default
+ */
+export function loadSpeedPresets(deviceId: string | null, storage?: Storage): SpeedPreset[] {
+  return loadSetting(
+    deviceSettingKey(STORAGE_KEY_PREFIX, deviceId),
+    DEFAULT_SPEED_PRESETS,
+    (stored) =>
+      Array.isArray(stored) && validateSpeedPresets(stored as SpeedPreset[]) === null
+        ? (stored as SpeedPreset[])
+        : null,
+    storage
+  );
+}
+
+/**
+ * Persist the presets of a device
+ */
+export function saveSpeedPresets(deviceId: string | null, presets: SpeedPreset[], storage?: Storage): void {
+  saveSetting(deviceSettingKey(STORAGE_KEY_PREFIX, deviceId), presets, storage);
+}
+
+/**
+ * Drop the saved presets of a device, returning it to the defaults
+ */
+export function clearSpeedPresets(deviceId: string | null, storage?: Storage): void {
+  clearSetting(deviceSettingKey(STORAGE_KEY_PREFIX, deviceId), storage);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SPEED_PROFILE, loadSpeedProfile, saveSpeedProfile, type SpeedProfile } from './speed-profile';
+
+const STORAGE_KEY = 'mg24.speedProfile';
+
+function createStorage(entries: Record<string, string> = {}): Storage {
+  const values = new Map(Object.entries(entries));
+  return {
+    get length() {
+      return values.size;
+    },
+    clear: () => values.clear(),
+    getItem: (key) => values.get(key) ?? null,
+    key: (index) => Array.from(values.keys())[index] ?? null,
+    removeItem: (key) => {
+      values.delete(key);
+    },
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+  };
+}
+
+describe('loadSpeedProfile', () => {
+  it('reads back a saved profile', () => {
+    const storage = createStorage();
+    const profile: SpeedProfile = {
+      name: 'Cycle',
+      segments: [
+        { type: 'step', speed: 5 },
+        { type: 'ramp', speed: 15, durationMs: 1000 },
+        { type: 'hold', durationMs: 500 },
+        { type: 'repeat', count: 2, times: 3 },
+      ],
+    };
+
+    saveSpeedProfile(profile, storage);
+    expect(loadSpeedProfile(storage)).toEqual(profile);
+  });
+
+  it.each([
+    ['a null segment', { name: 'Broken', segments: [null] }],
+    ['a segment without its fields', { name: 'Broken', segments: [{ type: 'ramp' }] }],
+    ['a segment of an unknown type', { name: 'Broken', segments: [{ type: 'spin', speed: 5 }] }],
+    ['a speed that is not a number', { name: 'Broken', segments: [{ type: 'step', speed: '5' }] }],
+    ['no name', { segments: [] }],
+    ['null', null],
+  ])('falls back to the default for %s', (_name, stored) => {
+    const storage = createStorage({ [STORAGE_KEY]: JSON.stringify(stored) });
+    expect(loadSpeedProfile(storage)).toBe(DEFAULT_SPEED_PROFILE);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Speed Profiles
+ *
+ * Scripted speed over time for endurance and demo runs. A profile is an
+ * ordered list of segments:
+ * - step    jump to a speed
+ * - ramp    change linearly to a speed over a duration
+ * - hold    keep the current speed for a duration
+ * - repeat  run the preceding segments again
+ *
+ * compileProfile() turns the segments into a piecewise linear plan of
+ * (time, speed) points; ProfileRunner walks the plan in real time and
+ * writes a setpoint whenever the planned speed changes.
+ */
+
+import { loadSetting, saveSetting } from './settings-storage';
+import { isOnResolution, type SpeedLimits } from './speed-setpoint';
+
+export type ProfileSegment =
+  | { type: 'step'; speed: number }
+  | { type: 'ramp'; speed: number; durationMs: number }
+  | { type: 'hold'; durationMs: number }
+  /** Run the preceding `count` segments `times` more times */
+  | { type: 'repeat'; count: number; times: number };
+
+export type ProfileSegmentType = ProfileSegment['type'];
+
+export interface SpeedProfile {
+  name: string;
+  segments: ProfileSegment[];
+}
+
+export interface ProfilePoint {
+  /** Time since the start of the run (ms) */
+  at: number;
+  /** Planned speed (rad/s) */
+  speed: number;
+}
+
+export interface ProfilePlan {
+  /** Breakpoints in time order; a step is two points at the same time */
+  points: ProfilePoint[];
+  durationMs: number;
+}
+
+export type ProfileRunState = 'idle' | 'running' | 'paused' | 'finished' | 'aborted';
+
+/** Ramp up, hold, step down, stop */
+export const DEFAULT_SPEED_PROFILE: SpeedProfile = {
+  name: 'Endurance',
+  segments: [
+    { type: 'ramp', speed: 20, durationMs: 30_000 },
+    { type: 'hold', durationMs: 300_000 },
+    { type: 'step', speed: 10 },
+    { type: 'hold', durationMs: 30_000 },
+    { type: 'step', speed: 0 },
+  ],
+};
+
+/** Upper bounds that keep a mistyped repeat from expanding without end */
+const MAX_PLAN_POINTS = 20_000;
+const MAX_PROFILE_DURATION_MS = 24 * 60 * 60 * 1000;
+const MAX_REPEAT_TIMES = 1000;
+
+const STORAGE_KEY = 'mg24.speedProfile';
+
+/**
+ * Primitive segments of a profile with repeats unrolled
+ * @returns Segments, or null if the expansion exceeds MAX_PLAN_POINTS
+ */
+function expandSegments(segments: ProfileSegment[]): ProfileSegment[] | null {
+  // Expansion of every source segment, so a repeat can copy nested repeats
+  const expanded: ProfileSegment[][] = [];
+  let total = 0;
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    if (segment.type !== 'repeat') {
+      expanded.push([segment]);
+      total += 1;
+    } else {
+      const body = expanded.slice(Math.max(0, index - segment.count), index).flat();
+      if (total + body.length * segment.times > MAX_PLAN_POINTS) return null;
+      const copies: ProfileSegment[] = [];
+      for (let time = 0; time < segment.times; time++) {
+        copies.push(...body);
+      }
+      expanded.push(copies);
+      total += copies.length;
+    }
+  }
+  return expanded.flat();
+}
+
+/**
+ * Check a profile edited by the user against the device limits
+ * @returns Error message, or null if the profile can be run
+ */
+export function validateSpeedProfile(profile: SpeedProfile, limits: SpeedLimits): string | null {
+  const { segments } = profile;
+  if (segments.length === 0) {
+    return 'Add at least one segment';
+  }
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    const label = `Segment ${index + 1} (${segment.type})`;
+    if (segment.type === 'step' || segment.type === 'ramp') {
+      if (!Number.isFinite(segment.speed) || segment.speed < 0 || segment.speed > limits.maxSpeed) {
+        return `${label}: speed must be between 0 and ${limits.maxSpeed} rad/s`;
+      }
+      if (segment.speed > 0 && segment.speed < limits.minSpeed) {
+        return `${label}: speed must be 0 or at least ${limits.minSpeed} rad/s`;
+      }
+      if (!isOnResolution(segment.speed, limits.speedResolution)) {
+        return `${label}: speed must be a multiple of ${limits.speedResolution} rad/s`;
+      }
+    }
+    if (segment.type === 'ramp' || segment.type === 'hold') {
+      if (!Number.isFinite(segment.durationMs) || segment.durationMs <= 0) {
+        return `${label}: duration must be positive`;
+      }
+    }
+    if (segment.type === 'repeat') {
+      if (!Number.isInteger(segment.count) || segment.count < 1 || segment.count > index) {
+        return `${label}: can repeat 1 to ${index} preceding segments`;
+      }
+      if (!Number.isInteger(segment.times) || segment.times < 1 || segment.times > MAX_REPEAT_TIMES) {
+        return `${label}: repeat 1 to ${MAX_REPEAT_TIMES} times`;
+      }
+    }
+  }
+
+  const plan = compileProfile(profile);
+  if (!plan) {
+    return `Profile expands to more than ${MAX_PLAN_POINTS} segments`;
+  }
+  if (plan.durationMs > MAX_PROFILE_DURATION_MS) {
+    return 'Profile runs longer than 24 hours';
+  }
+  return null;
+}
+
+/**
+ * Plan of a profile, starting from a stopped motor
+ * @returns Plan, or null if the repeats expand too far
+ */
+export function compileProfile(profile: SpeedProfile): ProfilePlan | null {
+  const segments = expandSegments(profile.segments);
+  if (!segments) return null;
+
+  const points: ProfilePoint[] = [{ at: 0, speed: 0 }];
+  let at = 0;
+  let speed = 0;
+  for (const segment of segments) {
+    switch (segment.type) {
+      case 'step':
+        speed = segment.speed;
+        points.push({ at, speed });
+        break;
+      case 'ramp':
+        at += segment.durationMs;
+        speed = segment.speed;
+        points.push({ at, speed });
+        break;
+      case 'hold':
+        at += segment.durationMs;
+        points.push({ at, speed });
+        break;
+    }
+  }
+  return { points, durationMs: at };
+}
+
+/**
+ * Planned speed at a time into the run
+ * At a step the new speed applies from the step time on.
+ */
+export function getPlannedSpeed(plan: ProfilePlan, at: number): number {
+  const { points } = plan;
+  let index = 0;
+  while (index + 1 < points.length && points[index + 1].at <= at) {
+    index++;
+  }
+  const from = points[index];
+  const to = points[index + 1];
+  if (!to || to.at === from.at) return from.speed;
+  return from.speed + ((to.speed - from.speed) * (at - from.at)) / (to.at - from.at);
+}
+
+export interface ProfileRunnerOptions {
+  /** Interval at which ramps are sampled (ms, default: 250) */
+  tickMs?: number;
+  /** Setpoint step the planned speed is rounded to (rad/s, default: 1) */
+  resolution?: number;
+  /** Called when the state or the elapsed time changes */
+  onChange?: () => void;
+}
+
+/**
+ * Runs a plan in real time
+ *
+ * Every tick the planned speed is rounded to the device resolution and
+ * written if it differs from the last written setpoint. Pausing keeps the
+ * current setpoint; aborting always writes a stop.
+ */
+export class ProfileRunner {
+  private runState: ProfileRunState = 'idle';
+  /** Run time accumulated before the current running stretch */
+  private elapsedBefore = 0;
+  private resumedAt = 0;
+  private lastSpeed: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    readonly plan: ProfilePlan,
+    private send: (speed: number) => void,
+    private options: ProfileRunnerOptions = {}
+  ) {}
+
+  get state(): ProfileRunState {
+    return this.runState;
+  }
+
+  /**
+   * Time into the run, excluding pauses (ms)
+   */
+  get elapsedMs(): number {
+    const running = this.runState === 'running' ? Date.now() - this.resumedAt : 0;
+    return Math.min(this.plan.durationMs, this.elapsedBefore + running);
+  }
+
+  start(): void {
+    if (this.runState !== 'idle') return;
+    this.elapsedBefore = 0;
+    this.run();
+  }
+
+  pause(): void {
+    if (this.runState !== 'running') return;
+    this.elapsedBefore = this.elapsedMs;
+    this.stopTimer();
+    this.setState('paused');
+  }
+
+  resume(): void {
+    if (this.runState !== 'paused') return;
+    this.run();
+  }
+
+  /**
+   * Stop the run and the motor
+   */
+  abort(): void {
+    if (this.runState === 'finished' || this.runState === 'aborted') return;
+    this.elapsedBefore = this.elapsedMs;
+    this.stopTimer();
+    this.setState('aborted');
+    this.lastSpeed = 0;
+    this.send(0);
+  }
+
+  private run(): void {
+    this.resumedAt = Date.now();
+    this.setState('running');
+    this.tick();
+    if (this.runState === 'running') {
+      this.timer = setInterval(() => this.tick(), this.options.tickMs ?? 250);
+    }
+  }
+
+  private tick(): void {
+    const elapsed = this.elapsedMs;
+    const planned = getPlannedSpeed(this.plan, elapsed);
+    const resolution = this.options.resolution ?? 1;
+    const speed = Number((Math.round(planned / resolution) * resolution).toFixed(6));
+    if (speed !== this.lastSpeed) {
+      this.lastSpeed = speed;
+      this.send(speed);
+    }
+
+    if (elapsed >= this.plan.durationMs) {
+      this.elapsedBefore = this.plan.durationMs;
+      this.stopTimer();
+      this.setState('finished');
+    } else {
+      this.options.onChange?.();
+    }
+  }
+
+  private setState(state: ProfileRunState): void {
+    this.runState = state;
+    this.options.onChange?.();
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Check that a stored value has the fields of its segment type; the values
+ * themselves are checked against the device limits by validateSpeedProfile
+ */
+function isProfileSegment(value: unknown): value is ProfileSegment {
+  if (typeof value !== 'object' || value === null) return false;
+  const segment = value as Record<string, unknown>;
+  const hasNumbers = (...keys: string[]) => keys.every((key) => typeof segment[key] === 'number');
+  switch (segment.type) {
+    case 'step':
+      return hasNumbers('speed');
+    case 'ramp':
+      return hasNumbers('speed', 'durationMs');
+    case 'hold':
+      return hasNumbers('durationMs');
+    case 'repeat':
+      return hasNumbers('count', 'times');
+    default:
+      return false;
+  }
+}
+
+function isSpeedProfile(value: unknown): value is SpeedProfile {
+  if (typeof value !== 'object' || value === null) return false;
+  const { name, segments } = value as Partial<SpeedProfile>;
+  return typeof name === 'string' && Array.isArray(segments) && segments.every(isProfileSegment);
+}
+
+/**
+ * Last edited profile, or the default if none was saved or it is malformed
+ */
+export function loadSpeedProfile(storage?: Storage): SpeedProfile {
+  return loadSetting(STORAGE_KEY, DEFAULT_SPEED_PROFILE, (stored) => (isSpeedProfile(stored) ? stored : null), storage);
+}
+
+export function saveSpeedProfile(profile: SpeedProfile, storage?: Storage): void {
+  saveSetting(STORAGE_KEY, profile, storage);
+}
@@ -0,0 +1,131 @@
+/**
+ * Speed Setpoint
+ *
+ * Continuous speed control on top of the "M<n>" command. Setpoints are
+ * clamped to the limits reported by the capability handshake and rounded
+ * to the resolution the firmware accepts: whole rad/s unless the firmware
+ * reports a finer step (CAP "speedres="). While the user drags the slider,
+ * SetpointThrottle limits how often a new setpoint is written; the command
+ * queue additionally drops setpoints superseded before they are written.
+ */
+
+import type { DeviceCapabilities } from './device-capabilities';
+
+export type SpeedLimits = Pick<DeviceCapabilities, 'minSpeed' | 'maxSpeed' | 'speedResolution'>;
+
+/** Slack for floating point error when counting resolution steps */
+const STEP_EPSILON = 1e-6;
+
+/** Minimum time between setpoints written while dragging (ms) */
+export const DEFAULT_SETPOINT_INTERVAL_MS = 200;
+
+/**
+ * Whole number of resolution steps in a speed, without floating point noise
+ */
+function toSteps(speed: number, resolution: number, round: (value: number) => number): number {
+  const steps = speed / resolution;
+  const nearest = Math.round(steps);
+  return Math.abs(steps - nearest) < STEP_EPSILON ? nearest : round(steps);
+}
+
+function fromSteps(steps: number, resolution: number): number {
+  return Number((steps * resolution).toFixed(6));
+}
+
+/**
+ * Whether a speed can be sent as is at the given resolution
+ */
+export function isOnResolution(speed: number, resolution: number): boolean {
+  return Math.abs(speed / resolution - Math.round(speed / resolution)) < STEP_EPSILON;
+}
+
+/**
+ * Clamp a requested speed to the device limits and resolution
+ * Zero and below stop the motor; a non-zero speed under the minimum is
+ * raised to it rather than rejected by the device.
+ */
+export function clampSetpoint(speed: number, limits: SpeedLimits): number {
+  if (!Number.isFinite(speed) || speed <= 0) return 0;
+  const { minSpeed, maxSpeed, speedResolution } = limits;
+  const lowest = Math.max(1, toSteps(minSpeed, speedResolution, Math.ceil));
+  const highest = toSteps(maxSpeed, speedResolution, Math.floor);
+  const steps = Math.round(speed / speedResolution);
+  return fromSteps(Math.min(highest, Math.max(lowest, steps)), speedResolution);
+}
+
+/**
+ * Speed command for a setpoint, e.g. "M7" (or "M7.5" on firmware with a finer resolution)
+ */
+export function formatSpeedCommand(speed: number): string {
+  return `M${Number(speed.toFixed(6))}`;
+}
+
+/**
+ * Setpoint of a speed command
+ * @returns Speed (rad/s), or null if the command is not "M<n>"
+ */
+export function parseSpeedCommand(command: string): number | null {
+  const match = command.match(/^M(\d+(?:\.\d+)?)(\s|$)/);
+  return match ? parseFloat(match[1]) : null;
+}
+
+/**
+ * Rate limiter for setpoints produced while dragging
+ *
+ * The first setpoint is written at once; later ones at most every
+ * `intervalMs`, always ending with the latest value.
+ */
+export class SetpointThrottle {
+  private lastSentAt = -Infinity;
+  private pending: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private send: (speed: number) => void,
+    private intervalMs = DEFAULT_SETPOINT_INTERVAL_MS
+  ) {}
+
+  /**
+   * Offer a new setpoint
+   */
+  update(speed: number): void {
+    this.pending = speed;
+    if (this.timer) return;
+
+    const wait = this.lastSentAt + this.intervalMs - Date.now();
+    if (wait <= 0) {
+      this.flush();
+    } else {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush();
+      }, wait);
+    }
+  }
+
+  /**
+   * Write the pending setpoint now, if any
+   */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending === null) return;
+    const speed = this.pending;
+    this.pending = null;
+    this.lastSentAt = Date.now();
+    this.send(speed);
+  }
+
+  /**
+   * Drop the pending setpoint
+   */
+  cancel(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = null;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Speed Units
+ *
+ * Display units for motor speed. The firmware speaks rad/s on the wire
+ * (telemetry and "M<n>" commands); everything shown to the user goes
+ * through these helpers so cards, charts, exports and presets agree.
+ *
+ * All units are linear in rad/s:
+ * - RPM            rad/s × 60 / 2π
+ * - Hz             rad/s / 2π (shaft rotation frequency)
+ * - Blade pass     rad/s × blades / 2π
+ * - % of max       rad/s / max speed × 100
+ */
+
+import { loadSetting, saveSetting } from './settings-storage';
+
+export type SpeedUnit = 'radps' | 'rpm' | 'hz' | 'bpf' | 'percent';
+
+export interface SpeedUnitContext {
+  /** Fan blades, for the blade-pass frequency */
+  bladeCount: number;
+  /** Device maximum speed (rad/s), for percent of max */
+  maxSpeed: number;
+}
+
+export interface SpeedUnitInfo {
+  id: SpeedUnit;
+  label: string;
+  symbol: string;
+  decimals: number;
+  /** Value of 1 rad/s in this unit */
+  factor: (context: SpeedUnitContext) => number;
+}
+
+export interface SpeedUnitSettings {
+  primary: SpeedUnit;
+  /** Shown below the primary value; null for none */
+  secondary: SpeedUnit | null;
+  bladeCount: number;
+}
+
+export const SPEED_UNITS: Record<SpeedUnit, SpeedUnitInfo> = {
+  radps: { id: 'radps', label: 'Radians per second', symbol: 'rad/s', decimals: 2, factor: () => 1 },
+  rpm: { id: 'rpm', label: 'Revolutions per minute', symbol: 'RPM', decimals: 0, factor: () => 60 / (2 * Math.PI) },
+  hz: { id: 'hz', label: 'Rotation frequency', symbol: 'Hz', decimals: 2, factor: () => 1 / (2 * Math.PI) },
+  bpf: {
+    id: 'bpf',
+    label: 'Blade-pass frequency',
+    symbol: 'Hz BPF',
+    decimals: 1,
+    factor: (context) => context.bladeCount / (2 * Math.PI),
+  },
+  percent: {
+    id: 'percent',
+    label: 'Percent of max speed',
+    symbol: '%',
+    decimals: 0,
+    factor: (context) => (context.maxSpeed > 0 ? 100 / context.maxSpeed : 0),
+  },
+};
+
+export const DEFAULT_SPEED_UNIT_SETTINGS: SpeedUnitSettings = {
+  primary: 'rpm',
+  secondary: 'radps',
+  bladeCount: 5,
+};
+
+const STORAGE_KEY = 'mg24.speedUnits';
+
+/**
+ * Convert a speed from rad/s
+ */
+export function convertSpeed(radPerSec: number, unit: SpeedUnit, context: SpeedUnitContext): number {
+  return radPerSec * SPEED_UNITS[unit].factor(context);
+}
+
+/**
+ * Convert a speed to rad/s (e.g. a value typed by the user)
+ */
+export function toRadPerSec(value: number, unit: SpeedUnit, context: SpeedUnitContext): number {
+  const factor = SPEED_UNITS[unit].factor(context);
+  return factor === 0 ? 0 : value / factor;
+}
+
+/**
+ * Format a speed in a unit, e.g. "95 RPM", "1.59 Hz", "40%"
+ */
+export function formatSpeed(radPerSec: number, unit: SpeedUnit, context: SpeedUnitContext): string {
+  const info = SPEED_UNITS[unit];
+  const value = convertSpeed(radPerSec, unit, context).toFixed(info.decimals);
+  return unit === 'percent' ? `${value}%` : `${value} ${info.symbol}`;
+}
+
+/**
+ * Check settings edited by the user
+ * @returns Error message, or null if the settings are usable
+ */
+export function validateSpeedUnitSettings(settings: SpeedUnitSettings): string | null {
+  if (!(settings.primary in SPEED_UNITS)) {
+    return `Unknown unit ${settings.primary}`;
+  }
+  if (settings.secondary !== null && !(settings.secondary in SPEED_UNITS)) {
+    return `Unknown unit ${settings.secondary}`;
+  }
+  if (!Number.isInteger(settings.bladeCount) || settings.bladeCount < 1 || settings.bladeCount > 32) {
+    return 'Blade count must be a whole number from 1 to 32';
+  }
+  return null;
+}
+
+/**
+ * Saved unit settings, or the defaults
+ */
+export function loadSpeedUnitSettings(storage?: Storage): SpeedUnitSettings {
+  return loadSetting(
+    STORAGE_KEY,
+    DEFAULT_SPEED_UNIT_SETTINGS,
+    (stored) => {
+      const settings = { ...DEFAULT_SPEED_UNIT_SETTINGS, ...(stored as Partial<SpeedUnitSettings>) };
+      return validateSpeedUnitSettings(settings) === null ? settings : null;
+    },
+    storage
+  );
+}
+
+export function saveSpeedUnitSettings(settings: SpeedUnitSettings, storage?: Storage): void {
+  saveSetting(STORAGE_KEY, settings, storage);
+}
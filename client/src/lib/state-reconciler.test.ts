@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RECONCILE_CONFIG, StateReconciler, type DeviceStop } from './state-reconciler';
+import { createClockedPipeline, type ClockedPipeline } from './telemetry-fixture';
+
+describe('StateReconciler', () => {
+  let clock: ClockedPipeline;
+  let reconciler: StateReconciler;
+  let onDeviceStop: ReturnType<typeof vi.fn<(stop: DeviceStop) => void>>;
+
+  beforeEach(() => {
+    clock = createClockedPipeline();
+    const { pipeline, now } = clock;
+    onDeviceStop = vi.fn<(stop: DeviceStop) => void>();
+    reconciler = new StateReconciler({ config: DEFAULT_RECONCILE_CONFIG, onDeviceStop, now });
+    reconciler.attach(pipeline);
+  });
+
+  it('lets the speed settle for the grace period after a command', () => {
+    clock.setTime(1000);
+    reconciler.setCommandedSpeed(10);
+
+    clock.receive(5999, 'Motor: Running Speed: 4.00 Anomaly: 0%');
+    expect(reconciler.state.speed.status).toBe('settling');
+
+    clock.receive(6000, 'Motor: Running Speed: 4.00 Anomaly: 0%');
+    expect(reconciler.state.speed).toEqual({
+      status: 'diverged',
+      message: 'Measured 4.00 rad/s, commanded 10 rad/s',
+    });
+
+    clock.receive(6500, 'Motor: Running Speed: 9.20 Anomaly: 0%');
+    expect(reconciler.state.speed.status).toBe('in-sync');
+  });
+
+  it('starts a new grace period when the link is restored', () => {
+    reconciler.setCommandedSpeed(10);
+    clock.receive(6000, 'Motor: Running Speed: 4.00 Anomaly: 0%');
+    expect(reconciler.state.speed.status).toBe('diverged');
+
+    clock.setTime(7000);
+    reconciler.restart();
+    clock.receive(11_999, 'Motor: Running Speed: 4.00 Anomaly: 0%');
+    expect(reconciler.state.speed.status).toBe('settling');
+    clock.receive(12_000, 'Motor: Running Speed: 4.00 Anomaly: 0%');
+    expect(reconciler.state.speed.status).toBe('diverged');
+  });
+
+  it('compares the auto-shutoff read-back after its own grace period', () => {
+    clock.setTime(2000);
+    reconciler.setCommandedAutoShutoff(true);
+
+    clock.receive(6999, 'Motor: Running Speed: 0.00 Anomaly: 0% AOFF: 0');
+    expect(reconciler.state.autoShutoff).toMatchObject({ status: 'settling', reported: false });
+
+    clock.receive(7000, 'Motor: Running Speed: 0.00 Anomaly: 0% AOFF: 0');
+    expect(reconciler.state.autoShutoff).toMatchObject({ status: 'diverged', reported: false });
+  });
+
+  it('reports a stop by the board at once and latches it', () => {
+    reconciler.setCommandedSpeed(10);
+    clock.receive(500, 'Motor: Running Speed: 3.00 Anomaly: 0%');
+    clock.receive(1000, 'Motor: Stop Speed: 0.00 Anomaly: 85% AOFF: 1');
+
+    expect(onDeviceStop).toHaveBeenCalledTimes(1);
+    expect(reconciler.state.deviceStop).toEqual({
+      at: 1000,
+      commanded: 10,
+      reason: 'Firmware auto-shutoff stopped the motor (anomaly 85%)',
+    });
+
+    clock.receive(1500, 'Motor: Stop Speed: 0.00 Anomaly: 85% AOFF: 1');
+    expect(onDeviceStop).toHaveBeenCalledTimes(1);
+    expect(reconciler.state.deviceStop?.at).toBe(1000);
+
+    reconciler.dismiss();
+    expect(reconciler.state.deviceStop).toBeNull();
+  });
+
+  it('does not report a commanded stop as a stop by the board', () => {
+    reconciler.setCommandedSpeed(10);
+    clock.receive(500, 'Motor: Running Speed: 9.80 Anomaly: 0%');
+
+    // An M0 confirmed right before the next frame
+    reconciler.setCommandedSpeed(0);
+    clock.receive(600, 'Motor: Stop Speed: 0.00 Anomaly: 0%');
+
+    expect(onDeviceStop).not.toHaveBeenCalled();
+    expect(reconciler.state.deviceStop).toBeNull();
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * State Reconciliation
+ *
+ * The controls show what the host last commanded; the board may disagree.
+ * Firmware auto-shutoff cuts the drive on its own, a setpoint may not take
+ * effect, and the auto-shutoff flag may differ from what was last written.
+ * Every telemetry frame is compared with the commanded state:
+ * - speed        measured speed against the commanded setpoint
+ * - auto-shutoff the "AOFF" read-back against the commanded flag
+ * - device stop  the board reports Stop/Error after it was running at a
+ *                commanded speed, i.e. it cut the motor itself
+ *
+ * A mismatch only counts as a divergence once it outlasts a grace period
+ * after the last command, so the motor can settle. A device stop is
+ * reported at once and stays latched until dismissed or a new speed is
+ * commanded.
+ */
+
+import type { TelemetryFrameEvent, TelemetryPipeline } from './telemetry-pipeline';
+
+export type ReconcileStatus = 'settling' | 'in-sync' | 'diverged';
+
+export interface SpeedReconciliation {
+  status: ReconcileStatus;
+  /** Human readable mismatch, null when in sync */
+  message: string | null;
+}
+
+export interface AutoShutoffReconciliation {
+  /** 'unknown' while the board does not report its auto-shutoff state */
+  status: ReconcileStatus | 'unknown';
+  /** Auto-shutoff state reported by the board, null if not reported */
+  reported: boolean | null;
+  message: string | null;
+}
+
+export interface DeviceStop {
+  at: number;
+  /** Speed that was commanded when the board stopped (rad/s) */
+  commanded: number;
+  /** Human readable cause */
+  reason: string;
+}
+
+export interface ReconcileState {
+  speed: SpeedReconciliation;
+  autoShutoff: AutoShutoffReconciliation;
+  /** Latched stop by the board, null if none */
+  deviceStop: DeviceStop | null;
+}
+
+export interface ReconcileConfig {
+  /** Time after a command before a mismatch counts (ms) */
+  graceMs: number;
+  /** Speed deviation that always counts as in sync (rad/s) */
+  tolerance: number;
+  /** Speed deviation relative to the setpoint that counts as in sync */
+  relativeTolerance: number;
+}
+
+/** Covers the simulator's 1.5 s time constant with margin for real fans */
+export const DEFAULT_RECONCILE_CONFIG: ReconcileConfig = {
+  graceMs: 5000,
+  tolerance: 0.5,
+  relativeTolerance: 0.1,
+};
+
+export const INITIAL_RECONCILE_STATE: ReconcileState = {
+  speed: { status: 'in-sync', message: null },
+  autoShutoff: { status: 'unknown', reported: null, message: null },
+  deviceStop: null,
+};
+
+export interface StateReconcilerOptions {
+  config?: ReconcileConfig;
+  /** Called when the reconciled state changes */
+  onChange?: (state: ReconcileState) => void;
+  /** Called once per stop by the board */
+  onDeviceStop?: (stop: DeviceStop) => void;
+  /** Clock, injectable for deterministic runs */
+  now?: () => number;
+}
+
+export class StateReconciler {
+  private config: ReconcileConfig;
+  private current: ReconcileState = INITIAL_RECONCILE_STATE;
+  private commandedSpeed = 0;
+  private speedCommandedAt: number;
+  private commandedAutoShutoff = false;
+  private autoShutoffCommandedAt: number;
+  /** Board reported Running since a speed above 0 was commanded */
+  private sawRunning = false;
+
+  constructor(private options: StateReconcilerOptions = {}) {
+    this.config = options.config ?? DEFAULT_RECONCILE_CONFIG;
+    this.speedCommandedAt = this.now();
+    this.autoShutoffCommandedAt = this.now();
+  }
+
+  get state(): ReconcileState {
+    return this.current;
+  }
+
+  /**
+   * Compare the telemetry of a pipeline
+   * @returns Detach function
+   */
+  attach(pipeline: TelemetryPipeline): () => void {
+    return pipeline.on('telemetry', (frame) => this.handleFrame(frame));
+  }
+
+  /**
+   * Record a speed write; the grace period starts now
+   */
+  setCommandedSpeed(speed: number): void {
+    if (speed === this.commandedSpeed) return;
+    if (this.commandedSpeed === 0) {
+      this.sawRunning = false;
+    }
+    this.commandedSpeed = speed;
+    this.speedCommandedAt = this.now();
+    // A new speed supersedes the stop; stopping keeps it on screen
+    const deviceStop = speed > 0 ? null : this.current.deviceStop;
+    this.update({ speed: { status: 'settling', message: null }, deviceStop });
+  }
+
+  /**
+   * Record an auto-shutoff write; the grace period starts now
+   */
+  setCommandedAutoShutoff(enabled: boolean): void {
+    if (enabled === this.commandedAutoShutoff) return;
+    this.commandedAutoShutoff = enabled;
+    this.autoShutoffCommandedAt = this.now();
+  }
+
+  /**
+   * Restart the grace periods (link restored); the board needs time to
+   * reflect the restored session
+   */
+  restart(): void {
+    this.speedCommandedAt = this.now();
+    this.autoShutoffCommandedAt = this.now();
+    this.sawRunning = false;
+    this.update({
+      speed: { status: 'settling', message: null },
+      autoShutoff: { status: 'unknown', reported: null, message: null },
+    });
+  }
+
+  /**
+   * Clear a latched device stop
+   */
+  dismiss(): void {
+    if (this.current.deviceStop) {
+      this.update({ deviceStop: null });
+    }
+  }
+
+  handleFrame(frame: TelemetryFrameEvent): void {
+    const { telemetry, receivedAt } = frame;
+    const commanded = this.commandedSpeed;
+
+    if (commanded > 0 && telemetry.status === 'Running') {
+      this.sawRunning = true;
+    } else if (commanded > 0 && this.sawRunning) {
+      // Running at a commanded speed, now stopped without a stop command
+      this.sawRunning = false;
+      const deviceStop: DeviceStop = { at: receivedAt, commanded, reason: this.describeStop(frame) };
+      this.update({ deviceStop });
+      this.options.onDeviceStop?.(deviceStop);
+    }
+
+    this.update({
+      speed: this.reconcileSpeed(frame),
+      autoShutoff: this.reconcileAutoShutoff(frame),
+    });
+  }
+
+  private reconcileSpeed({ telemetry, receivedAt }: TelemetryFrameEvent): SpeedReconciliation {
+    const commanded = this.commandedSpeed;
+    const { tolerance, relativeTolerance, graceMs } = this.config;
+    const deviation = Math.abs(telemetry.speed - commanded);
+    if (deviation <= Math.max(tolerance, commanded * relativeTolerance)) {
+      return { status: 'in-sync', message: null };
+    }
+    if (receivedAt - this.speedCommandedAt < graceMs) {
+      return { status: 'settling', message: null };
+    }
+    const measured = telemetry.speed.toFixed(2);
+    if (commanded === 0) {
+      return { status: 'diverged', message: `Still turning at ${measured} rad/s after stop` };
+    }
+    if (telemetry.status !== 'Running') {
+      return { status: 'diverged', message: `Board reports ${telemetry.status} with ${commanded} rad/s commanded` };
+    }
+    return { status: 'diverged', message: `Measured ${measured} rad/s, commanded ${commanded} rad/s` };
+  }
+
+  private reconcileAutoShutoff({ telemetry, receivedAt }: TelemetryFrameEvent): AutoShutoffReconciliation {
+    const value = telemetry.fields.autoShutoff;
+    if (typeof value !== 'number') {
+      return { status: 'unknown', reported: null, message: null };
+    }
+    const reported = value === 1;
+    if (reported === this.commandedAutoShutoff) {
+      return { status: 'in-sync', reported, message: null };
+    }
+    if (receivedAt - this.autoShutoffCommandedAt < this.config.graceMs) {
+      return { status: 'settling', reported, message: null };
+    }
+    return { status: 'diverged', reported, message: `Board reports auto-shutoff ${reported ? 'on' : 'off'}` };
+  }
+
+  private describeStop({ telemetry }: TelemetryFrameEvent): string {
+    if (telemetry.status === 'Error') {
+      return 'Board reported Motor: Error';
+    }
+    const autoShutoff = typeof telemetry.fields.autoShutoff === 'number'
+      ? telemetry.fields.autoShutoff === 1
+      : this.commandedAutoShutoff;
+    if (autoShutoff) {
+      return `Firmware auto-shutoff stopped the motor (anomaly ${telemetry.anomalyPercentage}%)`;
+    }
+    return 'Board stopped the motor without a stop command';
+  }
+
+  private update(changes: Partial<ReconcileState>): void {
+    const next = { ...this.current, ...changes };
+    if (
+      next.deviceStop === this.current.deviceStop &&
+      sameEntry(next.speed, this.current.speed) &&
+      sameEntry(next.autoShutoff, this.current.autoShutoff)
+    ) {
+      return;
+    }
+    this.current = next;
+    this.options.onChange?.(next);
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
+
+function sameEntry<T extends object>(a: T, b: T): boolean {
+  return (Object.keys(a) as Array<keyof T>).every((key) => a[key] === b[key]);
+}
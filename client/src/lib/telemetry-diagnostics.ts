@@ -0,0 +1,107 @@
+/**
+ * Telemetry Diagnostics
+ *
+ * Structured reports of what the telemetry parser rejected or repaired, so
+ * a misbehaving board can be told apart from a noisy link: garbage lines,
+ * out-of-range values, truncated lines and corrupted binary frames each
+ * get their own reason code and counter.
+ */
+
+export type TelemetryIssueReason =
+  /** Line contains no "Key: value" tokens */
+  | 'malformed'
+  /** A required field is absent */
+  | 'missing-field'
+  /** A field value cannot be parsed (wrong type, unknown enum value) */
+  | 'invalid-value'
+  /** A numeric field is outside its schema range or the device limits */
+  | 'out-of-range'
+  /** Text line cut off by a binary frame */
+  | 'truncated-line'
+  /** Binary frame failed the CRC check */
+  | 'crc-mismatch'
+  /** Binary frame of a type the parser does not handle */
+  | 'unknown-frame'
+  /** Binary frame with a malformed payload */
+  | 'invalid-payload'
+  /** Line exceeded the maximum length and was skipped up to its terminator */
+  | 'buffer-overflow';
+
+export type TelemetryIssueSeverity = 'error' | 'warning';
+
+/**
+ * Problem found while parsing a single message
+ */
+export interface TelemetryIssue {
+  reason: TelemetryIssueReason;
+  message: string;
+  /** Schema field the issue concerns, if it is about a single field */
+  field?: string;
+}
+
+export interface TelemetryDiagnostic extends TelemetryIssue {
+  /** 'error' rejects the message, 'warning' drops a single optional field */
+  severity: TelemetryIssueSeverity;
+  /** Offending text line, or hex dump of the offending bytes */
+  line: string;
+  /** Byte offset of the message in the stream since the link came up */
+  offset: number;
+  timestamp: number;
+}
+
+export type TelemetryDiagnosticListener = (diagnostic: TelemetryDiagnostic) => void;
+
+/**
+ * Running counters of the telemetry stream
+ */
+export interface TelemetryCounters {
+  bytesReceived: number;
+  /** Complete text lines, including intercepted replies */
+  textLines: number;
+  /** Binary frames found on the stream (valid CRC) */
+  binaryFrames: number;
+  /** Lines consumed by a reply handler (acks, handshake) */
+  interceptedLines: number;
+  /** Non-telemetry frames consumed by a frame handler (waveform chunks) */
+  interceptedFrames: number;
+  /** Telemetry messages accepted */
+  framesOk: number;
+  /** Messages rejected, by reason */
+  rejected: Partial<Record<TelemetryIssueReason, number>>;
+  /** Optional fields dropped */
+  warnings: number;
+  bufferOverflows: number;
+}
+
+export const TELEMETRY_ISSUE_LABELS: Record<TelemetryIssueReason, string> = {
+  malformed: 'Malformed line',
+  'missing-field': 'Missing field',
+  'invalid-value': 'Invalid value',
+  'out-of-range': 'Out of range',
+  'truncated-line': 'Truncated line',
+  'crc-mismatch': 'CRC mismatch',
+  'unknown-frame': 'Unknown frame type',
+  'invalid-payload': 'Invalid payload',
+  'buffer-overflow': 'Line too long',
+};
+
+export function createTelemetryCounters(): TelemetryCounters {
+  return {
+    bytesReceived: 0,
+    textLines: 0,
+    binaryFrames: 0,
+    interceptedLines: 0,
+    interceptedFrames: 0,
+    framesOk: 0,
+    rejected: {},
+    warnings: 0,
+    bufferOverflows: 0,
+  };
+}
+
+/**
+ * Total number of rejected messages across all reasons
+ */
+export function getRejectedTotal(counters: TelemetryCounters): number {
+  return Object.values(counters.rejected).reduce((total, count) => total + (count ?? 0), 0);
+}
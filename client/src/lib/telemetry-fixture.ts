@@ -0,0 +1,38 @@
+/**
+ * Telemetry Fixture
+ *
+ * Telemetry pipeline on a manual clock, for tests of the consumers whose
+ * rules depend on time (severity dwell, interlock durations, reconciliation
+ * grace periods). Lines are delivered at chosen times without real delays.
+ */
+
+import { TelemetryPipeline } from './telemetry-pipeline';
+
+export interface ClockedPipeline {
+  pipeline: TelemetryPipeline;
+  /** Clock shared by the pipeline and the consumers under test */
+  now: () => number;
+  /** Move the clock without delivering data */
+  setTime(at: number): void;
+  /** Deliver one telemetry line (without terminator) at the given time (ms) */
+  receive(at: number, line: string): void;
+}
+
+export function createClockedPipeline(startAt = 0): ClockedPipeline {
+  let time = startAt;
+  const now = () => time;
+  const pipeline = new TelemetryPipeline({ now });
+  const encoder = new TextEncoder();
+
+  return {
+    pipeline,
+    now,
+    setTime: (at) => {
+      time = at;
+    },
+    receive: (at, line) => {
+      time = at;
+      pipeline.ingest(encoder.encode(`${line}\n`));
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { encodeTelemetryFrame } from '@shared/telemetry-frame';
+import { TelemetryStreamParser, type TelemetryStreamParserOptions } from './telemetry-parser';
+import type { TelemetryDiagnostic } from './telemetry-diagnostics';
+
+const LINE = 'Motor: Running  Speed: 10.00 Anomaly: 5%';
+
+function createParser(options: TelemetryStreamParserOptions = {}) {
+  const diagnostics: TelemetryDiagnostic[] = [];
+  const parser = new TelemetryStreamParser({ now: () => 0, onDiagnostic: (d) => diagnostics.push(d), ...options });
+  return { parser, diagnostics };
+}
+
+const bytesOf = (text: string) => new TextEncoder().encode(text);
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+describe('TelemetryStreamParser', () => {
+  it('keeps a multi-byte character split across packets', () => {
+    const { parser, diagnostics } = createParser();
+    const bytes = bytesOf(`${LINE} Note: 41°C\n`);
+    const split = bytes.indexOf(0xb0);
+
+    expect(parser.feed(bytes.subarray(0, split))).toEqual([]);
+    const [telemetry] = parser.feed(bytes.subarray(split));
+    expect(telemetry.extras).toEqual({ Note: '41°C' });
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('does not mistake a continuation byte equal to the sync byte for a frame', () => {
+    const { parser, diagnostics } = createParser();
+    // "¥" is encoded as c2 a5
+    const bytes = bytesOf(`${LINE} Price: ¥5\n`);
+    const split = bytes.indexOf(0xa5);
+
+    parser.feed(bytes.subarray(0, split));
+    const frames = parser.feed(bytes.subarray(split));
+    expect(frames).toHaveLength(1);
+    expect(frames[0].extras).toEqual({ Price: '¥5' });
+    expect(parser.getCounters().binaryFrames).toBe(0);
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('treats a CRLF split across packets as one line end', () => {
+    const { parser } = createParser();
+
+    expect(parser.feed(`${LINE}\r`)).toEqual([]);
+    expect(parser.feed(`\n${LINE}\r\n`)).toHaveLength(2);
+    expect(parser.getCounters().textLines).toBe(2);
+    expect(parser.getBuffer()).toBe('');
+  });
+
+  it('skips an overlong line up to its terminator', () => {
+    const { parser, diagnostics } = createParser({ maxLineLength: 60 });
+
+    for (let i = 0; i < 5; i++) {
+      expect(parser.feed('x'.repeat(40))).toEqual([]);
+    }
+    const frames = parser.feed(`yyy\n${LINE}\n`);
+
+    expect(frames).toHaveLength(1);
+    expect(frames[0].speed).toBe(10);
+    expect(parser.getCounters().bufferOverflows).toBe(1);
+    expect(diagnostics.map((d) => d.reason)).toEqual(['buffer-overflow']);
+  });
+
+  it('reports a complete overlong line once', () => {
+    const { parser, diagnostics } = createParser({ maxLineLength: 60 });
+
+    expect(parser.feed(`${'x'.repeat(61)}\n${LINE}\n`)).toHaveLength(1);
+    expect(diagnostics.map((d) => d.reason)).toEqual(['buffer-overflow']);
+  });
+
+  it('resyncs on a frame after a stray sync byte', () => {
+    const { parser, diagnostics } = createParser();
+    const frame = encodeTelemetryFrame({ status: 'Running', speed: 12.5, anomalyPercentage: 3 });
+
+    const frames = parser.feed(concat(new Uint8Array([0xa5]), frame));
+
+    expect(frames).toHaveLength(1);
+    expect(frames[0]).toMatchObject({ status: 'Running', speed: 12.5, anomalyPercentage: 3 });
+    expect(diagnostics).toMatchObject([{ reason: 'crc-mismatch', offset: 0 }]);
+  });
+
+  it('recovers the text after a stray sync byte', () => {
+    const { parser, diagnostics } = createParser();
+    const text = Array.from({ length: 4 }, (_, i) => `Motor: Running  Speed: ${10 + i}.00 Anomaly: 5%\n`).join('');
+
+    const frames = parser.feed(concat(new Uint8Array([0xa5]), bytesOf(text)));
+
+    expect(frames.map((telemetry) => telemetry.speed)).toEqual([10, 11, 12, 13]);
+    expect(diagnostics.map((d) => d.reason)).toEqual(['crc-mismatch']);
+  });
+
+  it('recovers a frame split across packets', () => {
+    const { parser } = createParser();
+    const frame = encodeTelemetryFrame({ status: 'Stop', speed: 0, anomalyPercentage: 0 });
+
+    expect(parser.feed(frame.subarray(0, 2))).toEqual([]);
+    expect(parser.feed(frame.subarray(2, 4))).toEqual([]);
+    expect(parser.feed(concat(frame.subarray(4), bytesOf(`${LINE}\n`)))).toHaveLength(2);
+  });
+});
@@ -3,147 +3,595 @@
  * 
  * Parses telemetry messages from Silicon Labs MG24 motor control board.
  * 
+ * A message is a sequence of "Key: value" tokens in any order, described by
+ * the field schema in telemetry-schema.ts. Unknown keys are kept in
+ * `extras` instead of rejecting the line.
+ * 
  * Message format:
- * "Motor: <status>  Speed: <speed> Anomaly: <percentage>%\n"
+ * "Motor: <status>  Speed: <speed> Anomaly: <percentage>%[ mode: <imu|audio>]\n"
  * 
  * Example:
  * "Motor: Running  Speed: 15.50 Anomaly: 5%"
  * "Motor: Stop  Speed: 0.00 Anomaly: 0%"
  * "Motor: Error  Speed: 0.00 Anomaly: 95%"
+ * "Motor: Running  Speed: 15.50 Anomaly: 5% Current: 1.20A Voltage: 12.1V Temp: 41.5C PWM: 62%"
+ * "Motor: Running  Speed: 15.50 Anomaly: 64% Imbalance: 58% Bearing: 4% Airflow: 1% Mount: 2%"
+ * 
+ * The stream parser also accepts binary telemetry frames (see
+ * shared/telemetry-frame.ts) interleaved with text lines on the same stream.
  */
 
+import {
+  DEFAULT_TELEMETRY_LIMITS,
+  findTelemetryField,
+  parseFieldValue,
+  TELEMETRY_SCHEMA,
+  type TelemetryFieldSchema,
+  type TelemetryLimits,
+  type TelemetryValue,
+} from './telemetry-schema';
+import type { AnomalySource } from './device-capabilities';
+import { ANOMALY_CLASSES, type AnomalyClassScores } from './anomaly-classes';
+import {
+  DEFAULT_SEVERITY_CONFIG,
+  getSeverityBand,
+  SeverityTracker,
+  type SeverityBand,
+  type SeverityConfig,
+} from './anomaly-severity';
+import {
+  decodeFrame,
+  decodeTelemetryPayload,
+  formatFrameHex,
+  FRAME_CRC_LENGTH,
+  FRAME_HEADER_LENGTH,
+  FRAME_MAX_PAYLOAD,
+  FRAME_SYNC,
+  TELEMETRY_FRAME_TYPE,
+  telemetrySampleToTokens,
+} from '@shared/telemetry-frame';
+import {
+  createTelemetryCounters,
+  type TelemetryCounters,
+  type TelemetryDiagnosticListener,
+  type TelemetryIssue,
+  type TelemetryIssueReason,
+} from './telemetry-diagnostics';
+
 export interface MotorTelemetry {
   status: 'Running' | 'Stop' | 'Error';
-  speed: number; // rad/sec
-  rpm: number; // calculated from speed
+  speed: number; // rad/sec; see speed-units.ts for display units
   anomalyPercentage: number; // 0-100%
-  anomalyDetected: boolean; // true if anomaly > 50%
-  anomalyActive: boolean; // true if anomaly is currently active
+  anomalyDetected: boolean; // true if the severity band is an alert band
+  severity: SeverityBand; // severity band of the anomaly score
+  anomalyActive: boolean; // true if a detector reports its source
+  anomalySource: AnomalySource | null; // detector producing the anomaly score, null if not reported
+  anomalyClasses: AnomalyClassScores; // per-class scores (0-100%), empty if not reported
+  fields: Record<string, TelemetryValue>; // all schema fields in the message, by field name
+  extras: Record<string, string>; // unknown "Key: value" tokens, by key as sent
   timestamp: number;
 }
 
+export type TelemetryParseResult =
+  | { telemetry: MotorTelemetry; warnings: TelemetryIssue[] }
+  | { error: string; reason: TelemetryIssueReason; field?: string };
+
+const TOKEN_PATTERN = /([A-Za-z][\w.-]*)\s*:\s*(\S+)/g;
+
+/**
+ * Split a message into "Key: value" tokens
+ */
+export function tokenizeTelemetry(message: string): Array<[key: string, value: string]> {
+  return Array.from(message.matchAll(TOKEN_PATTERN), (match) => [match[1], match[2]]);
+}
+
 /**
- * Parse telemetry message from firmware
- * Format: "Motor: <status>  Speed: <speed> Anomaly: <percentage>% [mode: <imu|audio>]"
+ * Parse a telemetry message against the field schema without logging
  * 
- * @param message - Raw telemetry message string
- * @returns Parsed telemetry data or null if invalid
+ * Invalid or missing required fields reject the message; invalid optional
+ * fields are dropped and reported as warnings.
  */
-export function parseTelemetry(message: string): MotorTelemetry | null {
-  try {
-    // Trim whitespace
-    const line = message.trim();
+export function parseTelemetryMessage(
+  message: string,
+  limits: TelemetryLimits = DEFAULT_TELEMETRY_LIMITS,
+  schema: readonly TelemetryFieldSchema[] = TELEMETRY_SCHEMA
+): TelemetryParseResult {
+  const tokens = tokenizeTelemetry(message.trim());
+  if (tokens.length === 0) {
+    return { error: 'Message does not match expected format', reason: 'malformed' };
+  }
+  return parseTelemetryTokens(tokens, limits, schema);
+}
 
-    // Match pattern: Motor: <status>  Speed: <speed> Anomaly: <percentage>% 
-    const regex = /Motor:\s*(\w+)\s+Speed:\s*([\d.]+)\s+Anomaly:\s*(\d+)%(?:\s+mode:\s*(imu|audio))?/i;
-    const match = line.match(regex);
+/**
+ * Validate "Key: value" tokens against the field schema
+ * 
+ * Shared by the text and binary formats so both are held to the same rules.
+ */
+export function parseTelemetryTokens(
+  tokens: ReadonlyArray<readonly [key: string, value: string]>,
+  limits: TelemetryLimits = DEFAULT_TELEMETRY_LIMITS,
+  schema: readonly TelemetryFieldSchema[] = TELEMETRY_SCHEMA
+): TelemetryParseResult {
+  const fields: Record<string, TelemetryValue> = {};
+  const extras: Record<string, string> = {};
+  const warnings: TelemetryIssue[] = [];
 
-    if (!match) {
-      console.warn('[Telemetry] Message does not match expected format:', line);
-      return null;
+  for (const [key, raw] of tokens) {
+    const field = findTelemetryField(key, schema);
+    if (!field) {
+      extras[key] = raw;
+      continue;
     }
 
-    const status = match[1] as 'Running' | 'Stop' | 'Error';
-    const speed = parseFloat(match[2]);
-    const anomalyPercentage = parseInt(match[3], 10);
-    const mode = match[4] ? (match[4].toLowerCase() as 'imu' | 'audio') : undefined;
-
-    // Validate status
-    if (!['Running', 'Stop', 'Error'].includes(status)) {
-      console.warn('[Telemetry] Invalid status:', status);
-      return null;
+    const result = parseFieldValue(field, raw, limits);
+    if ('error' in result) {
+      if (field.required) {
+        return { ...result, field: field.name };
+      }
+      warnings.push({ reason: result.reason, message: result.error, field: field.name });
+      continue;
     }
+    fields[field.name] = result.value;
+  }
 
-    // Validate speed
-    if (isNaN(speed) || speed < 0 || speed > 25) {
-      console.warn('[Telemetry] Invalid speed:', speed);
-      return null;
-    }
+  const missing = schema.find((field) => field.required && !(field.name in fields));
+  if (missing) {
+    return { error: `Missing ${missing.key} field`, reason: 'missing-field' };
+  }
 
-    // Validate anomaly percentage
-    if (isNaN(anomalyPercentage) || anomalyPercentage < 0 || anomalyPercentage > 100) {
-      console.warn('[Telemetry] Invalid anomaly percentage:', anomalyPercentage);
-      return null;
+  const speed = fields.speed as number;
+  const anomalyPercentage = fields.anomalyPercentage as number;
+  const anomalySource = (fields.anomalyMode as AnomalySource | undefined) ?? null;
+  const severity = getSeverityBand(DEFAULT_SEVERITY_CONFIG, anomalyPercentage);
+  const anomalyClasses: AnomalyClassScores = {};
+  for (const anomalyClass of ANOMALY_CLASSES) {
+    const score = fields[anomalyClass.fieldName];
+    if (typeof score === 'number') {
+      anomalyClasses[anomalyClass.id] = score;
     }
+  }
 
-    // Convert rad/sec to RPM: RPM = (rad/sec * 60) / (2π)
-    const rpm = (speed * 60) / (2 * Math.PI);
-
-    // Detect anomaly (true if percentage > 50%)
-    const anomalyDetected = anomalyPercentage > 50;
-
-    const anomalyActive = mode === 'imu';
-
-  
-
-    return {
-      status,
+  return {
+    telemetry: {
+      status: fields.status as MotorTelemetry['status'],
       speed,
-      rpm,
       anomalyPercentage,
-      anomalyDetected,
-      anomalyActive,
+      anomalyDetected: severity.alert,
+      severity,
+      anomalyActive: anomalySource !== null,
+      anomalySource,
+      anomalyClasses,
+      fields,
+      extras,
       timestamp: Date.now(),
-    };
+    },
+    warnings,
+  };
+}
+
+/**
+ * Parse telemetry message from firmware
+ * 
+ * @param message - Raw telemetry message string
+ * @param limits - Validation limits
+ * @returns Parsed telemetry data or null if invalid
+ */
+export function parseTelemetry(
+  message: string,
+  limits: TelemetryLimits = DEFAULT_TELEMETRY_LIMITS
+): MotorTelemetry | null {
+  try {
+    const line = message.trim();
+    const result = parseTelemetryMessage(line, limits);
+
+    if ('error' in result) {
+      console.warn(`[Telemetry] ${result.error}:`, line);
+      return null;
+    }
+    for (const warning of result.warnings) {
+      console.warn(`[Telemetry] ${warning.message}:`, line);
+    }
+    return result.telemetry;
   } catch (error) {
     console.error('[Telemetry] Parse error:', error);
     return null;
   }
 }
 
+export interface TelemetryStreamParserOptions {
+  /**
+   * Called for every complete line before it is parsed as telemetry.
+   * Return true to consume the line (e.g. command acknowledgements).
+   */
+  interceptLine?: (line: string) => boolean;
+  /**
+   * Called for every binary frame other than telemetry.
+   * Return true to consume the frame (e.g. waveform chunks), or an issue to
+   * reject it; frames nobody consumes are reported as unknown.
+   */
+  interceptFrame?: (type: number, payload: Uint8Array) => boolean | TelemetryIssue;
+  /** Validation limits (default: DEFAULT_TELEMETRY_LIMITS) */
+  limits?: TelemetryLimits;
+  /** Called for every rejected message and dropped field */
+  onDiagnostic?: TelemetryDiagnosticListener;
+  /** Strings that end a line (default: "\r\n" and "\n") */
+  lineTerminators?: readonly string[];
+  /** Longest accepted line in characters; longer lines are skipped up to their terminator (default: 512) */
+  maxLineLength?: number;
+  /** Severity bands applied with hysteresis and dwell time (default: DEFAULT_SEVERITY_CONFIG) */
+  severity?: SeverityConfig;
+  /** Clock for frame and diagnostic timestamps, which also drive the dwell time */
+  now?: () => number;
+}
+
+const DEFAULT_LINE_TERMINATORS: readonly string[] = ['\r\n', '\n'];
+const DEFAULT_MAX_LINE_LENGTH = 512;
+const FRAME_MAX_LENGTH = FRAME_HEADER_LENGTH + FRAME_MAX_PAYLOAD + FRAME_CRC_LENGTH;
+
 /**
  * Streaming telemetry parser for handling data from Bluetooth
  * Buffers incomplete messages and yields complete messages
+ * 
+ * Text is decoded with a single streaming TextDecoder, so multi-byte
+ * characters split across BLE packets survive. Text lines and binary frames
+ * may be mixed on one stream. A sync byte outside a multi-byte character
+ * starts a frame candidate; if its CRC does not match, the parser rescans
+ * from the byte after the sync byte, so a corrupted frame costs at most that
+ * frame.
+ * 
+ * Nothing is logged: rejected messages are reported through onDiagnostic
+ * and counted in getCounters().
+ * 
+ * Unlike a single parsed message, the severity band (and anomalyDetected)
+ * of a stream follows the score with hysteresis and a minimum dwell time.
  */
 export class TelemetryStreamParser {
-  private buffer: string = '';
+  private limits: TelemetryLimits;
+  private severity: SeverityTracker;
+  private counters = createTelemetryCounters();
+  private decoder = new TextDecoder();
+  private encoder = new TextEncoder();
+
+  /** Stream offset of the next byte fed */
+  private streamOffset = 0;
+  /** Decoded text not yet ended by a terminator */
+  private text = '';
+  /** Stream offset of the first byte of text */
+  private textOffset = 0;
+  /** Discarding an overlong line up to its terminator */
+  private skippingLine = false;
+  /** Continuation bytes the current UTF-8 character still needs */
+  private utf8Pending = 0;
+  /** Incomplete binary frame (frameLength = 0 when none) */
+  private frame = new Uint8Array(FRAME_MAX_LENGTH);
+  private frameLength = 0;
+  private frameOffset = 0;
+
+  constructor(private options: TelemetryStreamParserOptions = {}) {
+    this.limits = options.limits ?? DEFAULT_TELEMETRY_LIMITS;
+    this.severity = new SeverityTracker(options.severity);
+  }
+
+  /**
+   * Update the validation limits (e.g. after the capability handshake)
+   */
+  setLimits(limits: TelemetryLimits): void {
+    this.limits = limits;
+  }
+
+  /**
+   * Update the severity bands (e.g. for the connected device)
+   */
+  setSeverityConfig(config: SeverityConfig): void {
+    this.severity.setConfig(config);
+  }
 
   /**
    * Feed data into the parser
-   * @param data - Incoming data as string or Uint8Array
+   * @param data - Incoming data as string, bytes, or the DataView of a
+   *   characteristic value (read in place, not copied)
    * @returns Array of parsed telemetry frames
    */
-  feed(data: string | Uint8Array): MotorTelemetry[] {
+  feed(data: string | Uint8Array | DataView): MotorTelemetry[] {
+    const bytes =
+      typeof data === 'string'
+        ? this.encoder.encode(data)
+        : data instanceof DataView
+          ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+          : data;
+
     const frames: MotorTelemetry[] = [];
+    this.counters.bytesReceived += bytes.length;
+    this.scan(bytes, this.streamOffset, frames);
+    this.streamOffset += bytes.length;
+    return frames;
+  }
 
-    // Convert Uint8Array to string if needed
-    const str = typeof data === 'string' ? data : new TextDecoder().decode(data);
+  /**
+   * Split bytes into text runs and binary frames
+   * @param baseOffset - Stream offset of bytes[0]
+   */
+  private scan(bytes: Uint8Array, baseOffset: number, frames: MotorTelemetry[]): void {
+    let offset = 0;
+    while (offset < bytes.length) {
+      if (this.frameLength > 0) {
+        offset += this.collectFrame(bytes, offset, frames);
+        continue;
+      }
 
-    // Append to buffer
-    this.buffer += str;
+      if (bytes[offset] === FRAME_SYNC && this.utf8Pending === 0) {
+        this.frameOffset = baseOffset + offset;
+        this.frame[0] = FRAME_SYNC;
+        this.frameLength = 1;
+        offset++;
+        continue;
+      }
+
+      // Text runs up to the next sync byte that is not part of a character
+      let end = offset;
+      while (end < bytes.length && (bytes[end] !== FRAME_SYNC || this.utf8Pending > 0)) {
+        this.utf8Pending = nextUtf8Pending(bytes[end], this.utf8Pending);
+        end++;
+      }
+
+      if (this.text === '') {
+        this.textOffset = baseOffset + offset;
+      }
+      this.text += this.decoder.decode(bytes.subarray(offset, end), { stream: true });
+      this.extractLines(frames);
+      offset = end;
+    }
+  }
 
-    // Split by newline and process complete messages
-    const lines = this.buffer.split('\n');
+  /**
+   * Copy bytes of the pending frame until it is complete
+   * @returns Number of bytes consumed
+   */
+  private collectFrame(bytes: Uint8Array, offset: number, frames: MotorTelemetry[]): number {
+    const needed =
+      this.frameLength < FRAME_HEADER_LENGTH
+        ? FRAME_HEADER_LENGTH
+        : FRAME_HEADER_LENGTH + this.frame[2] + FRAME_CRC_LENGTH;
+    const take = Math.min(needed - this.frameLength, bytes.length - offset);
+    this.frame.set(bytes.subarray(offset, offset + take), this.frameLength);
+    this.frameLength += take;
 
-    // Keep the last incomplete line in the buffer
-    this.buffer = lines[lines.length - 1];
+    // The header alone is never a whole frame: the length byte decides what follows
+    if (this.frameLength === needed && needed > FRAME_HEADER_LENGTH) {
+      this.finishFrame(frames);
+    }
+    return take;
+  }
+
+  private finishFrame(frames: MotorTelemetry[]): void {
+    const bytes = this.frame.slice(0, this.frameLength);
+    const offset = this.frameOffset;
+    this.frameLength = 0;
+
+    const result = decodeFrame(bytes);
+    if (!('frame' in result)) {
+      // Not a frame after all (or a corrupted one): rescan from the next byte
+      this.report(
+        'error',
+        { reason: 'crc-mismatch', message: 'Frame CRC mismatch, resyncing' },
+        formatFrameHex(bytes),
+        offset
+      );
+      this.scan(bytes.subarray(1), offset + 1, frames);
+      return;
+    }
+
+    if (this.text !== '' && !this.skippingLine) {
+      this.report(
+        'error',
+        { reason: 'truncated-line', message: 'Line interrupted by a binary frame' },
+        this.text,
+        this.textOffset
+      );
+    }
+    this.text = '';
+    this.skippingLine = false;
+
+    this.counters.binaryFrames++;
+    const telemetry = this.processFrame(result.frame.type, result.frame.payload, bytes, offset);
+    if (telemetry) {
+      frames.push(telemetry);
+    }
+  }
 
-    // Process all complete lines
-    for (let i = 0; i < lines.length - 1; i++) {
-      const telemetry = parseTelemetry(lines[i]);
-      if (telemetry) {
-        frames.push(telemetry);
+  /**
+   * Process every terminated line in the text buffer
+   */
+  private extractLines(frames: MotorTelemetry[]): void {
+    const maxLineLength = this.options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+
+    for (let match = this.findTerminator(); match; match = this.findTerminator()) {
+      const line = this.text.slice(0, match.index);
+      const lineOffset = this.textOffset;
+      const consumed = match.index + match.length;
+      this.textOffset += this.encoder.encode(this.text.slice(0, consumed)).length;
+      this.text = this.text.slice(consumed);
+
+      if (this.skippingLine) {
+        this.skippingLine = false;
+      } else if (line.length > maxLineLength) {
+        this.reportOverflow(line, lineOffset, maxLineLength);
+      } else {
+        this.processTextLine(line, lineOffset, frames);
       }
     }
 
-    return frames;
+    if (this.text.length > maxLineLength) {
+      // Keep a possible partial terminator so the line end is still found
+      const keep = Math.max(...this.getTerminators().map((terminator) => terminator.length)) - 1;
+      const dropped = this.text.slice(0, this.text.length - keep);
+      if (!this.skippingLine) {
+        this.reportOverflow(dropped, this.textOffset, maxLineLength);
+        this.skippingLine = true;
+      }
+      this.textOffset += this.encoder.encode(dropped).length;
+      this.text = this.text.slice(dropped.length);
+    }
   }
 
   /**
-   * Reset the parser state
+   * Find the earliest (and on ties, longest) line terminator in the text
+   * @returns Match, or null if none or if it may be the start of a longer terminator
+   */
+  private findTerminator(): { index: number; length: number } | null {
+    let best: { index: number; length: number } | null = null;
+    for (const terminator of this.getTerminators()) {
+      const index = this.text.indexOf(terminator);
+      if (index === -1) continue;
+      if (!best || index < best.index || (index === best.index && terminator.length > best.length)) {
+        best = { index, length: terminator.length };
+      }
+    }
+    if (!best) return null;
+
+    // "\r" at the end of the text may still become "\r\n"
+    const tail = this.text.slice(best.index);
+    const ambiguous = this.getTerminators().some(
+      (terminator) => terminator.length > tail.length && terminator.startsWith(tail)
+    );
+    return ambiguous ? null : best;
+  }
+
+  private getTerminators(): readonly string[] {
+    return this.options.lineTerminators ?? DEFAULT_LINE_TERMINATORS;
+  }
+
+  private reportOverflow(line: string, offset: number, maxLineLength: number): void {
+    this.counters.bufferOverflows++;
+    this.report(
+      'error',
+      { reason: 'buffer-overflow', message: `Line exceeds ${maxLineLength} characters, skipping to the next line` },
+      line.slice(0, 80),
+      offset
+    );
+  }
+
+  private processTextLine(line: string, offset: number, frames: MotorTelemetry[]): void {
+    this.counters.textLines++;
+    if (this.options.interceptLine?.(line)) {
+      this.counters.interceptedLines++;
+      return;
+    }
+    if (line.trim() === '') return;
+
+    const result = parseTelemetryMessage(line, this.limits);
+    const telemetry = this.accept(result, line.trim(), offset);
+    if (telemetry) {
+      frames.push(telemetry);
+    }
+  }
+
+  private processFrame(type: number, payload: Uint8Array, bytes: Uint8Array, offset: number): MotorTelemetry | null {
+    if (type !== TELEMETRY_FRAME_TYPE) {
+      const intercepted = this.options.interceptFrame?.(type, payload) ?? false;
+      if (intercepted === true) {
+        this.counters.interceptedFrames++;
+      } else if (intercepted) {
+        this.report('error', intercepted, formatFrameHex(bytes), offset);
+      } else {
+        const message = `Unknown frame type 0x${type.toString(16).padStart(2, '0')}`;
+        this.report('error', { reason: 'unknown-frame', message }, formatFrameHex(bytes), offset);
+      }
+      return null;
+    }
+
+    const hex = formatFrameHex(bytes);
+    const decoded = decodeTelemetryPayload(payload);
+    if ('error' in decoded) {
+      this.report('error', { reason: 'invalid-payload', message: decoded.error }, hex, offset);
+      return null;
+    }
+
+    const result = parseTelemetryTokens(telemetrySampleToTokens(decoded.sample), this.limits);
+    return this.accept(result, hex, offset);
+  }
+
+  private accept(result: TelemetryParseResult, line: string, offset: number): MotorTelemetry | null {
+    if ('error' in result) {
+      this.report('error', { reason: result.reason, message: result.error, field: result.field }, line, offset);
+      return null;
+    }
+    for (const warning of result.warnings) {
+      this.report('warning', warning, line, offset);
+    }
+    this.counters.framesOk++;
+    const timestamp = this.now();
+    const severity = this.severity.update(result.telemetry.anomalyPercentage, timestamp);
+    return { ...result.telemetry, timestamp, severity, anomalyDetected: severity.alert };
+  }
+
+  private report(
+    severity: 'error' | 'warning',
+    issue: TelemetryIssue,
+    line: string,
+    offset: number
+  ): void {
+    if (severity === 'error') {
+      this.counters.rejected[issue.reason] = (this.counters.rejected[issue.reason] ?? 0) + 1;
+    } else {
+      this.counters.warnings++;
+    }
+    this.options.onDiagnostic?.({ ...issue, severity, line, offset, timestamp: this.now() });
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+
+  /**
+   * Counters since the last resetCounters()
+   */
+  getCounters(): TelemetryCounters {
+    return { ...this.counters, rejected: { ...this.counters.rejected } };
+  }
+
+  /**
+   * Reset the parser state (e.g. after the link dropped)
+   * Counters are kept; see resetCounters().
    */
   reset(): void {
-    this.buffer = '';
+    this.decoder = new TextDecoder();
+    this.streamOffset = 0;
+    this.text = '';
+    this.textOffset = 0;
+    this.skippingLine = false;
+    this.utf8Pending = 0;
+    this.frameLength = 0;
+    this.severity.reset();
+  }
+
+  /**
+   * Zero the counters
+   */
+  resetCounters(): void {
+    this.counters = createTelemetryCounters();
   }
 
   /**
-   * Get any remaining buffered data
+   * Get any remaining buffered text
    */
   getBuffer(): string {
-    return this.buffer;
+    return this.text;
   }
 }
 
+/**
+ * Track how many continuation bytes the current UTF-8 character still needs
+ */
+function nextUtf8Pending(byte: number, pending: number): number {
+  if (byte >= 0xf0) return 3;
+  if (byte >= 0xe0) return 2;
+  if (byte >= 0xc0) return 1;
+  if (byte >= 0x80 && pending > 0) return pending - 1;
+  return 0;
+}
+
 /**
  * Create a test telemetry message for development
  * @param status - Motor status
@@ -165,6 +613,5 @@ export function createTestTelemetry(
  * @returns true if message matches expected format
  */
 export function isValidTelemetryFormat(message: string): boolean {
-  const regex = /Motor:\s*(\w+)\s+Speed:\s*([\d.]+)\s+Anomaly:\s*(\d+)%(?:\s+mode:\s*(imu|audio))?/i;
-  return regex.test(message.trim());
+  return !('error' in parseTelemetryMessage(message));
 }
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { encodeTelemetryFrame } from '@shared/telemetry-frame';
+import { FakeTransport } from './fake-transport';
+import { TelemetryPipeline, type TelemetryFrameEvent } from './telemetry-pipeline';
+
+const LINE = 'Motor: Running  Speed: 10.00 Anomaly: 5%\n';
+
+describe('TelemetryPipeline', () => {
+  let time: number;
+  let pipeline: TelemetryPipeline;
+  let transport: FakeTransport;
+  let frames: TelemetryFrameEvent[];
+
+  beforeEach(() => {
+    time = 1000;
+    pipeline = new TelemetryPipeline({ now: () => time });
+    transport = new FakeTransport();
+    frames = [];
+    pipeline.on('telemetry', (event) => frames.push(event));
+  });
+
+  it('numbers chunks and frames and stamps them with the pipeline clock', () => {
+    pipeline.attach(transport);
+
+    transport.receive(LINE + LINE);
+    time = 1500;
+    transport.receive(LINE);
+
+    expect(frames.map(({ seq, chunkSeq, receivedAt }) => ({ seq, chunkSeq, receivedAt }))).toEqual([
+      { seq: 1, chunkSeq: 1, receivedAt: 1000 },
+      { seq: 2, chunkSeq: 1, receivedAt: 1000 },
+      { seq: 3, chunkSeq: 2, receivedAt: 1500 },
+    ]);
+    expect(frames[2].telemetry.timestamp).toBe(1500);
+  });
+
+  it('subscribes to a transport attached twice only once', () => {
+    pipeline.attach(transport);
+    pipeline.attach(transport);
+
+    transport.receive(LINE);
+    expect(frames).toHaveLength(1);
+  });
+
+  it('keeps a transport attached until every caller has detached', () => {
+    const detachFirst = pipeline.attach(transport);
+    const detachSecond = pipeline.attach(transport);
+
+    detachFirst();
+    detachFirst();
+    transport.receive(LINE);
+    expect(frames).toHaveLength(1);
+
+    detachSecond();
+    transport.receive(LINE);
+    expect(frames).toHaveLength(1);
+  });
+
+  it('subscribes again after the transport was fully detached', () => {
+    pipeline.attach(transport)();
+    const detach = pipeline.attach(transport);
+
+    transport.receive(LINE);
+    expect(frames).toHaveLength(1);
+    detach();
+  });
+
+  it('parses identical consecutive chunks', () => {
+    pipeline.attach(transport);
+    const frame = encodeTelemetryFrame({ status: 'Running', speed: 10, anomalyPercentage: 5 });
+
+    transport.receive(frame);
+    transport.receive(frame);
+    expect(frames).toHaveLength(2);
+  });
+});
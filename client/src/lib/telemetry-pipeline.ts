@@ -0,0 +1,215 @@
+/**
+ * Telemetry Pipeline
+ *
+ * The single path from transport bytes to everything that consumes them:
+ *
+ *   transport.onData → TelemetryStreamParser → event bus
+ *
+ * Consumers (UI state, debug console, recorder, ...) subscribe to typed
+ * events instead of being called by whoever receives the data. Every chunk
+ * and every parsed frame carries a sequence number and its receive time.
+ *
+ * Each transport feeds the pipeline through a single subscription:
+ * attaching a transport that is already attached does not subscribe again,
+ * so a notification can neither duplicate frames nor interleave with
+ * itself. The subscription is reference counted and ends with the last
+ * detach. Identical consecutive chunks are normal data (steady binary
+ * frames, silent waveform blocks) and are always parsed.
+ *
+ * Waveform frames are taken out of the parser and reassembled into blocks,
+ * published as 'waveform' events.
+ */
+
+import { decodeWaveformChunk, WAVEFORM_FRAME_TYPE } from '@shared/waveform-frame';
+import type { SeverityConfig } from './anomaly-severity';
+import { EventBus, type EventListener } from './event-bus';
+import type { MotorTransport } from './motor-transport';
+import type { TelemetryCounters, TelemetryDiagnostic, TelemetryIssue } from './telemetry-diagnostics';
+import { TelemetryStreamParser, type MotorTelemetry, type TelemetryStreamParserOptions } from './telemetry-parser';
+import type { TelemetryLimits } from './telemetry-schema';
+import { WaveformAssembler, type WaveformAssemblerStats, type WaveformBlock } from './waveform-assembler';
+
+export interface TelemetryChunkEvent {
+  /** Sequence number of the chunk since the pipeline was created */
+  seq: number;
+  receivedAt: number;
+  bytes: Uint8Array;
+}
+
+export interface TelemetryFrameEvent {
+  /** Sequence number of the frame since the pipeline was created */
+  seq: number;
+  /** Chunk that completed the frame */
+  chunkSeq: number;
+  receivedAt: number;
+  telemetry: MotorTelemetry;
+}
+
+export interface WaveformBlockEvent {
+  /** Chunk that completed the block */
+  chunkSeq: number;
+  receivedAt: number;
+  block: WaveformBlock;
+}
+
+export interface TelemetryPipelineEvents {
+  chunk: TelemetryChunkEvent;
+  telemetry: TelemetryFrameEvent;
+  waveform: WaveformBlockEvent;
+  diagnostic: TelemetryDiagnostic;
+  /** Counters after each chunk */
+  counters: TelemetryCounters;
+}
+
+export interface TelemetryPipelineOptions
+  extends Pick<TelemetryStreamParserOptions, 'interceptLine' | 'limits' | 'lineTerminators' | 'maxLineLength' | 'severity'> {
+  /** Clock for receive times and the parser's timestamps */
+  now?: () => number;
+}
+
+interface TransportSource {
+  unsubscribe: () => void;
+  /** Callers that have attached the transport and not detached yet */
+  attachments: number;
+}
+
+export class TelemetryPipeline {
+  private events = new EventBus<TelemetryPipelineEvents>();
+  private parser: TelemetryStreamParser;
+  private chunkSeq = 0;
+  private frameSeq = 0;
+  /** Transports feeding the pipeline */
+  private sources = new Map<MotorTransport, TransportSource>();
+  private waveforms = new WaveformAssembler();
+  /** Blocks completed by the chunk being parsed */
+  private completedBlocks: WaveformBlock[] = [];
+
+  constructor(private options: TelemetryPipelineOptions = {}) {
+    const { interceptLine, limits, lineTerminators, maxLineLength, severity, now } = options;
+    this.parser = new TelemetryStreamParser({
+      interceptLine,
+      limits,
+      lineTerminators,
+      maxLineLength,
+      severity,
+      now,
+      interceptFrame: (type, payload) => this.handleFrame(type, payload),
+      onDiagnostic: (diagnostic) => this.events.emit('diagnostic', diagnostic),
+    });
+  }
+
+  /**
+   * Subscribe to pipeline events
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof TelemetryPipelineEvents>(
+    type: K,
+    listener: EventListener<TelemetryPipelineEvents[K]>
+  ): () => void {
+    return this.events.on(type, listener);
+  }
+
+  /**
+   * Take the data of a transport; a transport already attached keeps its
+   * one subscription until every caller has detached
+   * @returns Detach function (repeated calls have no effect)
+   */
+  attach(transport: MotorTransport): () => void {
+    let source = this.sources.get(transport);
+    if (!source) {
+      source = { unsubscribe: transport.onData((data) => this.ingest(data)), attachments: 0 };
+      this.sources.set(transport, source);
+    }
+    source.attachments++;
+
+    const attached = source;
+    let detached = false;
+    return () => {
+      if (detached) return;
+      detached = true;
+      if (--attached.attachments > 0) return;
+      attached.unsubscribe();
+      this.sources.delete(transport);
+    };
+  }
+
+  /**
+   * Push received bytes through the pipeline
+   */
+  ingest(data: Uint8Array | DataView): void {
+    const bytes = data instanceof DataView ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : data;
+    const receivedAt = (this.options.now ?? Date.now)();
+    const seq = ++this.chunkSeq;
+
+    this.events.emit('chunk', { seq, receivedAt, bytes });
+    for (const telemetry of this.parser.feed(bytes)) {
+      this.events.emit('telemetry', { seq: ++this.frameSeq, chunkSeq: seq, receivedAt, telemetry });
+    }
+    const blocks = this.completedBlocks;
+    this.completedBlocks = [];
+    for (const block of blocks) {
+      this.events.emit('waveform', { chunkSeq: seq, receivedAt, block });
+    }
+    this.events.emit('counters', this.getCounters());
+  }
+
+  /**
+   * Reassemble waveform chunks; other frame types stay unknown
+   */
+  private handleFrame(type: number, payload: Uint8Array): boolean | TelemetryIssue {
+    if (type !== WAVEFORM_FRAME_TYPE) return false;
+    const decoded = decodeWaveformChunk(payload);
+    if ('error' in decoded) {
+      return { reason: 'invalid-payload', message: decoded.error };
+    }
+    const block = this.waveforms.push(decoded.chunk);
+    if (block) {
+      this.completedBlocks.push(block);
+    }
+    return true;
+  }
+
+  /**
+   * Update the validation limits (e.g. after the capability handshake)
+   */
+  setLimits(limits: TelemetryLimits): void {
+    this.parser.setLimits(limits);
+  }
+
+  /**
+   * Update the severity bands (e.g. for the connected device)
+   */
+  setSeverityConfig(config: SeverityConfig): void {
+    this.parser.setSeverityConfig(config);
+  }
+
+  /**
+   * Drop partial lines and frames (e.g. after the link dropped)
+   * Sequence numbers and counters continue.
+   */
+  reset(): void {
+    this.parser.reset();
+    this.waveforms.reset();
+  }
+
+  /**
+   * Zero the counters
+   */
+  resetCounters(): void {
+    this.parser.resetCounters();
+  }
+
+  /**
+   * Parser counters
+   */
+  getCounters(): TelemetryCounters {
+    return this.parser.getCounters();
+  }
+
+  /**
+   * Reassembled and dropped waveform blocks
+   */
+  getWaveformStats(): WaveformAssemblerStats {
+    return this.waveforms.getStats();
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Telemetry Recorder
+ *
+ * Pipeline subscriber that keeps the most recent telemetry frames in a
+ * bounded buffer, for export and for looking back at what led up to an
+ * event.
+ */
+
+import { convertSpeed, SPEED_UNITS, type SpeedUnit, type SpeedUnitContext } from './speed-units';
+import type { TelemetryFrameEvent, TelemetryPipeline } from './telemetry-pipeline';
+import { TELEMETRY_SCHEMA } from './telemetry-schema';
+
+const DEFAULT_CAPACITY = 1200; // 10 minutes at 2 Hz
+
+export class TelemetryRecorder {
+  private frames: TelemetryFrameEvent[] = [];
+
+  constructor(private capacity = DEFAULT_CAPACITY) {}
+
+  /**
+   * Record the telemetry frames of a pipeline
+   * @returns Detach function
+   */
+  attach(pipeline: TelemetryPipeline): () => void {
+    return pipeline.on('telemetry', (frame) => this.record(frame));
+  }
+
+  record(frame: TelemetryFrameEvent): void {
+    this.frames.push(frame);
+    if (this.frames.length > this.capacity) {
+      this.frames.splice(0, this.frames.length - this.capacity);
+    }
+  }
+
+  /**
+   * Recorded frames, oldest first
+   * @param sinceMs - Only frames received at or after this time
+   */
+  getFrames(sinceMs = 0): TelemetryFrameEvent[] {
+    return this.frames.filter((frame) => frame.receivedAt >= sinceMs);
+  }
+
+  get size(): number {
+    return this.frames.length;
+  }
+
+  clear(): void {
+    this.frames = [];
+  }
+
+  /**
+   * Export the recording as CSV, one column per schema field
+   * @param speedUnits - Display units added as derived speed columns
+   *   ("speed_rpm", ...); the schema's speed column is always rad/s
+   */
+  toCsv(speedUnits?: { units: readonly SpeedUnit[]; context: SpeedUnitContext }): string {
+    const context = speedUnits?.context;
+    const derived = context
+      ? speedUnits.units
+          .filter((unit) => unit !== 'radps')
+          .map((unit) => ({
+            name: `speed_${unit}`,
+            format: (speed: number) => convertSpeed(speed, unit, context).toFixed(SPEED_UNITS[unit].decimals),
+          }))
+      : [];
+    const header = [
+      'seq',
+      'received_at',
+      ...TELEMETRY_SCHEMA.map((field) => field.name),
+      ...derived.map((column) => column.name),
+    ];
+    const rows = this.frames.map((frame) => [
+      String(frame.seq),
+      new Date(frame.receivedAt).toISOString(),
+      ...TELEMETRY_SCHEMA.map((field) => String(frame.telemetry.fields[field.name] ?? '')),
+      ...derived.map((column) => column.format(frame.telemetry.speed)),
+    ]);
+    return [header, ...rows].map((row) => row.join(',')).join('\n') + '\n';
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Telemetry Schema
+ *
+ * Declarative description of the fields the firmware may send in a
+ * telemetry line. Each field is a "Key: value" token; tokens may appear in
+ * any order. Adding a field here is enough for it to be parsed, validated
+ * and shown in the telemetry panel.
+ */
+
+import { ANOMALY_CLASSES } from './anomaly-classes';
+
+export type TelemetryFieldType = 'number' | 'integer' | 'enum' | 'string';
+
+export type TelemetryValue = number | string;
+
+/**
+ * Limits that depend on the connected device (see DeviceCapabilities)
+ */
+export interface TelemetryLimits {
+  maxSpeed: number; // rad/sec
+}
+
+export const DEFAULT_TELEMETRY_LIMITS: TelemetryLimits = {
+  maxSpeed: 25,
+};
+
+export interface TelemetryFieldSchema {
+  /** Key as sent by the firmware (matched case-insensitively) */
+  key: string;
+  /** Property name in MotorTelemetry.fields */
+  name: string;
+  /** Human readable label */
+  label: string;
+  type: TelemetryFieldType;
+  /** Unit for display; numeric values may carry it as suffix ("5%") */
+  unit?: string;
+  /** Inclusive lower bound for numeric values */
+  min?: number;
+  /** Inclusive upper bound for numeric values */
+  max?: number;
+  /** Take the upper bound from the device limits instead of max */
+  maxLimit?: keyof TelemetryLimits;
+  /** Accepted values of an enum field */
+  values?: readonly string[];
+  /** Lines without this field are rejected */
+  required?: boolean;
+  /** Decimal places for display */
+  decimals?: number;
+  /** Shown by a dedicated card instead of the generic field list */
+  primary?: boolean;
+}
+
+export const TELEMETRY_SCHEMA: readonly TelemetryFieldSchema[] = [
+  {
+    key: 'Motor',
+    name: 'status',
+    label: 'Motor Status',
+    type: 'enum',
+    values: ['Running', 'Stop', 'Error'],
+    required: true,
+    primary: true,
+  },
+  {
+    key: 'Speed',
+    name: 'speed',
+    label: 'Speed',
+    type: 'number',
+    unit: 'rad/s',
+    min: 0,
+    maxLimit: 'maxSpeed',
+    required: true,
+    decimals: 2,
+    primary: true,
+  },
+  {
+    key: 'Anomaly',
+    name: 'anomalyPercentage',
+    label: 'Anomaly',
+    type: 'integer',
+    unit: '%',
+    min: 0,
+    max: 100,
+    required: true,
+    primary: true,
+  },
+  {
+    key: 'mode',
+    name: 'anomalyMode',
+    label: 'Anomaly Source',
+    type: 'enum',
+    values: ['imu', 'audio'],
+    primary: true,
+  },
+  {
+    // Read-back of AOFF1/AOFF0, shown by the auto-shutoff toggle
+    key: 'AOFF',
+    name: 'autoShutoff',
+    label: 'Auto-Shutoff',
+    type: 'integer',
+    min: 0,
+    max: 1,
+    primary: true,
+  },
+  {
+    key: 'Current',
+    name: 'motorCurrent',
+    label: 'Motor Current',
+    type: 'number',
+    unit: 'A',
+    min: 0,
+    decimals: 2,
+  },
+  {
+    key: 'Voltage',
+    name: 'busVoltage',
+    label: 'Bus Voltage',
+    type: 'number',
+    unit: 'V',
+    min: 0,
+    decimals: 1,
+  },
+  {
+    key: 'Temp',
+    name: 'temperature',
+    label: 'Temperature',
+    type: 'number',
+    unit: '°C',
+    min: -40,
+    max: 150,
+    decimals: 1,
+  },
+  {
+    key: 'PWM',
+    name: 'pwmDuty',
+    label: 'PWM Duty',
+    type: 'number',
+    unit: '%',
+    min: 0,
+    max: 100,
+    decimals: 0,
+  },
+  // Per-class anomaly scores, shown by the anomaly breakdown
+  ...ANOMALY_CLASSES.map(
+    (anomalyClass): TelemetryFieldSchema => ({
+      key: anomalyClass.key,
+      name: anomalyClass.fieldName,
+      label: `${anomalyClass.label} score`,
+      type: 'integer',
+      unit: '%',
+      min: 0,
+      max: 100,
+      primary: true,
+    })
+  ),
+];
+
+/**
+ * Find the schema entry for a wire key
+ */
+export function findTelemetryField(
+  key: string,
+  schema: readonly TelemetryFieldSchema[] = TELEMETRY_SCHEMA
+): TelemetryFieldSchema | undefined {
+  const lower = key.toLowerCase();
+  return schema.find((field) => field.key.toLowerCase() === lower);
+}
+
+/**
+ * Convert a raw token value according to its field schema
+ * @returns Parsed value, or the reason it was rejected
+ */
+export function parseFieldValue(
+  field: TelemetryFieldSchema,
+  raw: string,
+  limits: TelemetryLimits = DEFAULT_TELEMETRY_LIMITS
+): { value: TelemetryValue } | { error: string; reason: 'invalid-value' | 'out-of-range' } {
+  switch (field.type) {
+    case 'enum': {
+      const value = field.values?.find((candidate) => candidate.toLowerCase() === raw.toLowerCase());
+      return value !== undefined
+        ? { value }
+        : { error: `Invalid ${field.label.toLowerCase()}: ${raw}`, reason: 'invalid-value' };
+    }
+    case 'string':
+      return { value: raw };
+    case 'number':
+    case 'integer': {
+      // Number with an optional unit suffix ("5%", "1.20A")
+      const pattern = field.type === 'integer' ? /^([-+]?\d+)(\D*)$/ : /^([-+]?\d+(?:\.\d+)?)(\D*)$/;
+      const match = raw.match(pattern);
+      if (!match) {
+        return { error: `Invalid ${field.label.toLowerCase()}: ${raw}`, reason: 'invalid-value' };
+      }
+
+      const value = parseFloat(match[1]);
+      const max = field.maxLimit ? limits[field.maxLimit] : field.max;
+      if ((field.min !== undefined && value < field.min) || (max !== undefined && value > max)) {
+        return {
+          error: `${field.label} ${value} out of range [${field.min ?? '-∞'}, ${max ?? '∞'}]`,
+          reason: 'out-of-range',
+        };
+      }
+      return { value };
+    }
+  }
+}
+
+/**
+ * Format a field value with its unit for display
+ */
+export function formatFieldValue(field: TelemetryFieldSchema | undefined, value: TelemetryValue): string {
+  if (!field || typeof value === 'string') {
+    return field?.unit ? `${value} ${field.unit}` : String(value);
+  }
+  const text = field.decimals !== undefined ? value.toFixed(field.decimals) : String(value);
+  return field.unit ? `${text} ${field.unit}` : text;
+}
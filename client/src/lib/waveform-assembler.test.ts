@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFrame } from '@shared/telemetry-frame';
+import { decodeWaveformChunk, encodeWaveformBlock, type WaveformChunk } from '@shared/waveform-frame';
+import { WaveformAssembler } from './waveform-assembler';
+
+function createChunks(seq: number, length = 300): WaveformChunk[] {
+  const samples = Int16Array.from({ length }, (_, i) => (i % 3) * 16384 - 16384);
+  return encodeWaveformBlock({ source: 'imu', channelCount: 3, sampleRate: 1600, seq, samples }).map((bytes) => {
+    const result = decodeFrame(bytes);
+    const decoded = 'frame' in result ? decodeWaveformChunk(result.frame.payload) : null;
+    if (!decoded || 'error' in decoded) throw new Error('Invalid waveform chunk');
+    return decoded.chunk;
+  });
+}
+
+describe('WaveformAssembler', () => {
+  it('reassembles a block and splits it into scaled channels', () => {
+    const assembler = new WaveformAssembler();
+    const [first, second, third] = createChunks(5);
+
+    expect(assembler.push(first)).toBeNull();
+    expect(assembler.push(second)).toBeNull();
+    const block = assembler.push(third);
+
+    expect(block).toMatchObject({ source: 'imu', sampleRate: 1600, seq: 5 });
+    expect(block?.channels.map((channel) => channel.length)).toEqual([100, 100, 100]);
+    expect(block?.channels.map((channel) => channel[99])).toEqual([-0.5, 0, 0.5]);
+    expect(assembler.getStats()).toEqual({ blocks: 1, droppedBlocks: 0 });
+  });
+
+  it('drops a block that lost a chunk and assembles the next one', () => {
+    const assembler = new WaveformAssembler();
+    const [first, , third] = createChunks(5);
+
+    assembler.push(first);
+    assembler.push(third);
+    for (const chunk of createChunks(6)) {
+      assembler.push(chunk);
+    }
+
+    expect(assembler.getStats()).toEqual({ blocks: 1, droppedBlocks: 1 });
+  });
+
+  it('counts a repeated chunk once', () => {
+    const assembler = new WaveformAssembler();
+    const [first, second, third] = createChunks(5);
+
+    assembler.push(first);
+    assembler.push(first);
+    assembler.push(second);
+    expect(assembler.push(third)?.channels[0]).toHaveLength(100);
+  });
+
+  it('forgets the incomplete block on reset without counting it as dropped', () => {
+    const assembler = new WaveformAssembler();
+    const [first] = createChunks(5);
+
+    assembler.push(first);
+    assembler.reset();
+    for (const chunk of createChunks(6)) {
+      assembler.push(chunk);
+    }
+
+    expect(assembler.getStats()).toEqual({ blocks: 1, droppedBlocks: 0 });
+  });
+});
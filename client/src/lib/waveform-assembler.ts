@@ -0,0 +1,86 @@
+/**
+ * Waveform Assembler
+ *
+ * Reassembles waveform blocks from the chunks of shared/waveform-frame.ts.
+ * Chunks of one block arrive in order on the SPP stream; a chunk of a new
+ * block while another is incomplete means chunks were lost, and the
+ * incomplete block is dropped rather than shown with a gap.
+ */
+
+import type { WaveformChunk, WaveformSource } from '@shared/waveform-frame';
+
+export interface WaveformBlock {
+  source: WaveformSource;
+  sampleRate: number;
+  /** Block sequence number as sent (wraps at 65536) */
+  seq: number;
+  /** Samples per channel, scaled to ±1 full scale */
+  channels: Float32Array[];
+}
+
+export interface WaveformAssemblerStats {
+  blocks: number;
+  /** Blocks missing a chunk */
+  droppedBlocks: number;
+}
+
+export class WaveformAssembler {
+  private pending: { key: string; chunks: Int16Array[]; received: number } | null = null;
+  private stats: WaveformAssemblerStats = { blocks: 0, droppedBlocks: 0 };
+
+  /**
+   * Add a chunk
+   * @returns The completed block, or null while chunks are outstanding
+   */
+  push(chunk: WaveformChunk): WaveformBlock | null {
+    const key = `${chunk.source}/${chunk.seq}/${chunk.count}/${chunk.channelCount}/${chunk.sampleRate}`;
+    if (this.pending && this.pending.key !== key) {
+      this.stats.droppedBlocks++;
+      this.pending = null;
+    }
+    if (!this.pending) {
+      this.pending = { key, chunks: new Array(chunk.count), received: 0 };
+    }
+
+    const pending = this.pending;
+    if (!pending.chunks[chunk.index]) {
+      pending.received++;
+    }
+    pending.chunks[chunk.index] = chunk.samples;
+    if (pending.received < chunk.count) return null;
+
+    this.pending = null;
+    this.stats.blocks++;
+    return {
+      source: chunk.source,
+      sampleRate: chunk.sampleRate,
+      seq: chunk.seq,
+      channels: deinterleave(pending.chunks, chunk.channelCount),
+    };
+  }
+
+  getStats(): WaveformAssemblerStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Drop the incomplete block (e.g. after the link dropped)
+   */
+  reset(): void {
+    this.pending = null;
+  }
+}
+
+function deinterleave(chunks: Int16Array[], channelCount: number): Float32Array[] {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(total / channelCount));
+  let frame = 0;
+  for (const chunk of chunks) {
+    for (let i = 0; i < chunk.length; i += channelCount, frame++) {
+      for (let channel = 0; channel < channelCount; channel++) {
+        channels[channel][frame] = chunk[i + channel] / 32768;
+      }
+    }
+  }
+  return channels;
+}
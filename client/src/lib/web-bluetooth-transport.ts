@@ -0,0 +1,235 @@
+/**
+ * Web Bluetooth Transport
+ *
+ * MotorTransport implementation on top of the browser Web Bluetooth API,
+ * talking to the Silicon Labs SPP service of the MG24 board.
+ */
+
+import {
+  BaseMotorTransport,
+  SPP_DATA_CHARACTERISTIC_UUID,
+  SPP_SERVICE_UUID,
+  type TransportWriteOptions,
+} from './motor-transport';
+
+// Web Bluetooth API type definitions
+declare global {
+  interface Navigator {
+    bluetooth: Bluetooth;
+  }
+  interface Bluetooth {
+    requestDevice(options: RequestDeviceOptions): Promise<BluetoothDevice>;
+    /** Devices this origin has been granted access to (not in all browsers) */
+    getDevices?(): Promise<BluetoothDevice[]>;
+  }
+  interface RequestDeviceOptions {
+    filters?: BluetoothLEScanFilter[];
+    optionalServices?: (string | number)[];
+  }
+  interface BluetoothLEScanFilter {
+    services?: (string | number)[];
+  }
+  interface BluetoothDevice extends EventTarget {
+    id: string;
+    name?: string;
+    gatt?: BluetoothRemoteGATTServer;
+  }
+  interface BluetoothRemoteGATTServer {
+    connected: boolean;
+    connect(): Promise<BluetoothRemoteGATTServer>;
+    disconnect(): void;
+    getPrimaryService(service: string): Promise<BluetoothRemoteGATTService>;
+  }
+  interface BluetoothRemoteGATTService {
+    getCharacteristic(characteristic: string): Promise<BluetoothRemoteGATTCharacteristic>;
+  }
+  interface BluetoothRemoteGATTCharacteristic extends EventTarget {
+    value?: DataView;
+    startNotifications(): Promise<void>;
+    stopNotifications(): Promise<void>;
+    writeValue(value: BufferSource): Promise<void>;
+    writeValueWithResponse?(value: BufferSource): Promise<void>;
+    writeValueWithoutResponse?(value: BufferSource): Promise<void>;
+  }
+}
+
+/**
+ * Find a device this origin was granted earlier, if the browser supports
+ * navigator.bluetooth.getDevices()
+ */
+async function findGrantedDevice(): Promise<BluetoothDevice | null> {
+  if (!navigator.bluetooth.getDevices) return null;
+  const devices = await navigator.bluetooth.getDevices();
+  return devices[0] ?? null;
+}
+
+/**
+ * Check whether the Web Bluetooth API is available
+ */
+export function isWebBluetoothSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'bluetooth' in navigator;
+}
+
+export class WebBluetoothTransport extends BaseMotorTransport {
+  readonly name = 'Web Bluetooth';
+
+  private device: BluetoothDevice | null = null;
+  private characteristic: BluetoothRemoteGATTCharacteristic | null = null;
+
+  get deviceId(): string | null {
+    return this.device?.id ?? null;
+  }
+
+  /**
+   * Connect to Bluetooth device via Web Bluetooth API
+   */
+  async connect(): Promise<void> {
+    try {
+      this.setState('requesting');
+
+      // Request Bluetooth device using custom 128-bit UUIDs
+      const device = await navigator.bluetooth.requestDevice({
+        filters: [{ services: [SPP_SERVICE_UUID] }],
+        optionalServices: [SPP_SERVICE_UUID],
+      });
+
+      await this.openDevice(device);
+    } catch (err) {
+      this.fail(err, 'Connection failed');
+    }
+  }
+
+  /**
+   * Reconnect to the previously granted device without showing the chooser
+   */
+  async reconnect(): Promise<void> {
+    try {
+      this.setState('requesting');
+
+      const device = this.device ?? (await findGrantedDevice());
+      if (!device) {
+        throw new Error('No previously connected device available');
+      }
+
+      await this.openDevice(device);
+    } catch (err) {
+      this.fail(err, 'Reconnection failed');
+    }
+  }
+
+  /**
+   * Disconnect from Bluetooth device
+   */
+  async disconnect(): Promise<void> {
+    if (this.state === 'disconnected') return;
+
+    this.setState('disconnecting');
+    try {
+      await this.releaseCharacteristic();
+      this.device?.gatt?.disconnect();
+    } catch (err) {
+      console.error('Disconnect error:', err);
+    } finally {
+      this.setState('disconnected');
+    }
+  }
+
+  /**
+   * Write raw bytes to the SPP characteristic
+   */
+  async write(data: Uint8Array, options: TransportWriteOptions = {}): Promise<void> {
+    const characteristic = this.characteristic;
+    if (!characteristic || this.state !== 'connected') {
+      throw new Error('Not connected to device');
+    }
+
+    // Older browsers only provide writeValue (with response where supported)
+    if (options.withoutResponse && characteristic.writeValueWithoutResponse) {
+      await characteristic.writeValueWithoutResponse(data);
+    } else if (characteristic.writeValueWithResponse) {
+      await characteristic.writeValueWithResponse(data);
+    } else {
+      await characteristic.writeValue(data);
+    }
+  }
+
+  /**
+   * Connect to the GATT server of a device and subscribe to the SPP characteristic
+   */
+  private async openDevice(device: BluetoothDevice): Promise<void> {
+    if (this.device !== device) {
+      this.device?.removeEventListener('gattserverdisconnected', this.handleGattDisconnected);
+      device.addEventListener('gattserverdisconnected', this.handleGattDisconnected);
+      this.device = device;
+    }
+
+    this.setState('connecting');
+
+    // Connect to GATT server
+    const server = await device.gatt!.connect();
+
+    this.setState('discovering');
+    const service = await server.getPrimaryService(SPP_SERVICE_UUID);
+
+    // Get SPP characteristic (RX/TX)
+    const characteristic = await service.getCharacteristic(SPP_DATA_CHARACTERISTIC_UUID);
+    this.characteristic = characteristic;
+
+    // Notifications are the only data path: each value is emitted exactly once
+    this.setState('subscribing');
+    await characteristic.startNotifications();
+    characteristic.addEventListener('characteristicvaluechanged', this.handleCharacteristicChange);
+
+    this.setState('connected');
+  }
+
+  /**
+   * Stop notifications of the current characteristic
+   */
+  private async releaseCharacteristic(): Promise<void> {
+    const characteristic = this.characteristic;
+    this.characteristic = null;
+
+    if (characteristic) {
+      characteristic.removeEventListener(
+        'characteristicvaluechanged',
+        this.handleCharacteristicChange
+      );
+      if (this.device?.gatt?.connected) {
+        await characteristic.stopNotifications();
+      }
+    }
+  }
+
+  /**
+   * Report a failed (re)connection attempt and rethrow it
+   */
+  private fail(err: unknown, fallbackMessage: string): never {
+    this.characteristic = null;
+    const error = err instanceof Error ? err : new Error(fallbackMessage);
+    this.setState('disconnected', error);
+    throw error;
+  }
+
+  /**
+   * Handle link loss reported by the browser (board reset, out of range)
+   */
+  private handleGattDisconnected = () => {
+    if (this.state === 'disconnecting' || this.state === 'disconnected') return;
+
+    this.releaseCharacteristic().catch(() => {});
+    this.setState('disconnected', new Error('Device connection lost'));
+  };
+
+  /**
+   * Handle characteristic value changes (notifications)
+   */
+  private handleCharacteristicChange = (event: Event) => {
+    const characteristic = event.target as BluetoothRemoteGATTCharacteristic;
+    const value = characteristic.value;
+    if (value) {
+      // View of just this value; the underlying buffer may be larger
+      this.emitData(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+    }
+  };
+}
@@ -1,45 +1,64 @@
-import { useState, useEffect, useRef } from 'react';
-import { Bluetooth, AlertCircle, CheckCircle2, Zap, Power } from 'lucide-react';
+import { useState } from 'react';
+import {
+  Bluetooth,
+  AlertCircle,
+  CheckCircle2,
+  Cpu,
+  ListOrdered,
+  Zap,
+  Power,
+  RefreshCw,
+  Ruler,
+  ShieldAlert,
+  SlidersHorizontal,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { DebugConsole, type DebugMessage } from '@/components/DebugConsole';
-import { parseTelemetry, TelemetryStreamParser, type MotorTelemetry } from '@/lib/telemetry-parser';
-
-// Web Bluetooth API type definitions
-declare global {
-  interface Navigator {
-    bluetooth: Bluetooth;
-  }
-  interface Bluetooth {
-    requestDevice(options: RequestDeviceOptions): Promise<BluetoothDevice>;
-  }
-  interface RequestDeviceOptions {
-    filters?: BluetoothLEScanFilter[];
-    optionalServices?: (string | number)[];
-  }
-  interface BluetoothLEScanFilter {
-    services?: (string | number)[];
-  }
-  interface BluetoothDevice {
-    gatt?: BluetoothRemoteGATTServer;
-  }
-  interface BluetoothRemoteGATTServer {
-    connect(): Promise<BluetoothRemoteGATTServer>;
-    getPrimaryService(service: string): Promise<BluetoothRemoteGATTService>;
-  }
-  interface BluetoothRemoteGATTService {
-    getCharacteristic(characteristic: string): Promise<BluetoothRemoteGATTCharacteristic>;
-  }
-  interface BluetoothRemoteGATTCharacteristic {
-    value?: DataView;
-    readable?: ReadableStream<Uint8Array>;
-    startNotifications(): Promise<void>;
-    stopNotifications(): Promise<void>;
-    writeValue(value: BufferSource): Promise<void>;
-    addEventListener(type: string, listener: EventListener): void;
-  }
-}
-
-type MotorMode = 'stop' | 'low' | 'high';
+import { AnomalyClassBreakdown } from '@/components/AnomalyClassBreakdown';
+import { AnomalySeverityMeter } from '@/components/AnomalySeverityMeter';
+import { AnomalySourcePanel } from '@/components/AnomalySourcePanel';
+import { CommandStatusList } from '@/components/CommandStatusList';
+import { ConnectionHistory } from '@/components/ConnectionHistory';
+import { DebugConsole } from '@/components/DebugConsole';
+import { DevicePickerDialog } from '@/components/DevicePickerDialog';
+import { FirmwareInfoPanel } from '@/components/FirmwareInfoPanel';
+import { InterlockSettingsDialog } from '@/components/InterlockSettingsDialog';
+import { SafetyInterlockPanel } from '@/components/SafetyInterlockPanel';
+import { SeveritySettingsDialog } from '@/components/SeveritySettingsDialog';
+import { SpeedPresetsDialog } from '@/components/SpeedPresetsDialog';
+import { SpeedProfilePanel } from '@/components/SpeedProfilePanel';
+import { SpeedSetpointControl } from '@/components/SpeedSetpointControl';
+import { TelemetryDiagnosticsPanel } from '@/components/TelemetryDiagnosticsPanel';
+import { TelemetryFieldList } from '@/components/TelemetryFieldList';
+import { UnitSettingsDialog } from '@/components/UnitSettingsDialog';
+import { WaveformPanel } from '@/components/WaveformPanel';
+import { useMotorConnection } from '@/hooks/useMotorConnection';
+import { useProfileRunner } from '@/hooks/useProfileRunner';
+import { useSafetyInterlock } from '@/hooks/useSafetyInterlock';
+import { useSpeedPresets } from '@/hooks/useSpeedPresets';
+import { useSpeedSetpoint } from '@/hooks/useSpeedSetpoint';
+import { useSpeedUnits } from '@/hooks/useSpeedUnits';
+import { useStateReconciliation } from '@/hooks/useStateReconciliation';
+import { useWaveformStream } from '@/hooks/useWaveformStream';
+import { canDisconnect, canStartConnection, type ConnectionPhase } from '@/lib/connection-machine';
+import { isBluetoothAvailable } from '@/lib/default-transport';
+import { DEFAULT_CAPABILITIES, validateCommand, type AnomalySource } from '@/lib/device-capabilities';
+import { SimulatorTransport } from '@/lib/simulator-transport';
+import { INITIAL_RECONCILE_STATE } from '@/lib/state-reconciler';
+import { convertSpeed, type SpeedUnit } from '@/lib/speed-units';
+import type { WaveformSource } from '@shared/waveform-frame';
+
+// Header status pill colors per connection phase
+const PHASE_PILL_STYLES: Record<ConnectionPhase, { pill: string; dot: string }> = {
+  idle: { pill: 'bg-gray-100', dot: 'bg-gray-400' },
+  requesting: { pill: 'bg-yellow-50', dot: 'bg-yellow-500 animate-pulse' },
+  connecting: { pill: 'bg-yellow-50', dot: 'bg-yellow-500 animate-pulse' },
+  discovering: { pill: 'bg-yellow-50', dot: 'bg-yellow-500 animate-pulse' },
+  subscribing: { pill: 'bg-yellow-50', dot: 'bg-yellow-500 animate-pulse' },
+  ready: { pill: 'bg-green-50', dot: 'bg-green-500' },
+  reconnecting: { pill: 'bg-yellow-50', dot: 'bg-yellow-500 animate-pulse' },
+  disconnecting: { pill: 'bg-gray-100', dot: 'bg-gray-400 animate-pulse' },
+  failed: { pill: 'bg-red-50', dot: 'bg-red-500' },
+};
 
 /**
  * FanController Component
@@ -52,236 +71,153 @@ type MotorMode = 'stop' | 'low' | 'high';
  * - Auto-shutoff feature control
  */
 export default function FanController() {
-  // Custom 128-bit UUIDs for Silicon Labs SPP service
-  const SPP_SERVICE_UUID = '4880c12c-fdcb-4077-8920-a450d7f9b907';
-  const SPP_DATA_CHARACTERISTIC_UUID = 'fec26ec4-6d71-4442-9f81-55bc21d658d6';
-
-  const [connected, setConnected] = useState(false);
-  const [currentMode, setCurrentMode] = useState<MotorMode>('stop');
-  const [motorState, setMotorState] = useState<MotorTelemetry>({
-    status: 'Stop',
-    speed: 0,
-    rpm: 0,
-    anomalyPercentage: 0,
-    anomalyDetected: false,
-    timestamp: Date.now(),
-  });
-  const [connectionStatus, setConnectionStatus] = useState<string>('Disconnected');
-  const [error, setError] = useState<string | null>(null);
-  const [autoShutoffEnabled, setAutoShutoffEnabled] = useState(false);
-  const [debugMessages, setDebugMessages] = useState<DebugMessage[]>([]);
+  const {
+    connected,
+    connection,
+    connectionStatus,
+    reconnect,
+    error,
+    setError,
+    motorState,
+    anomalyHistory,
+    debugMessages,
+    clearDebugMessages,
+    diagnostics,
+    telemetryCounters,
+    clearDiagnostics,
+    pipeline,
+    recorder,
+    commands,
+    capabilities,
+    deviceId,
+    severityConfig,
+    updateSeverityConfig,
+    resetSeverityConfig,
+    connect,
+    disconnect,
+    sendCommand,
+    onCommandApplied,
+    setStopLatched,
+  } = useMotorConnection();
 
-  const characteristicRef = useRef<any>(null);
-  const readerRef = useRef<ReadableStreamDefaultReader<Uint8Array> | null>(null);
-  const telemetryParserRef = useRef<TelemetryStreamParser>(new TelemetryStreamParser());
-  const abortControllerRef = useRef<AbortController | null>(null);
-  const debugMessageIdRef = useRef(0);
-
-  /**
-   * Add a message to the debug console
-   */
-  const addDebugMessage = (type: 'sent' | 'received', data: string, raw?: Uint8Array) => {
-    const message: DebugMessage = {
-      id: `msg-${debugMessageIdRef.current++}`,
-      timestamp: Date.now(),
-      type,
-      data,
-      raw,
-    };
-    setDebugMessages((prev) => [...prev.slice(-99), message]); // Keep last 100 messages
-  };
-
-  /**
-   * Clear debug messages
-   */
-  const clearDebugMessages = () => {
-    setDebugMessages([]);
-    debugMessageIdRef.current = 0;
-  };
+  const [autoShutoffEnabled, setAutoShutoffEnabled] = useState(false);
+  const [severitySettingsOpen, setSeveritySettingsOpen] = useState(false);
+  const [unitSettingsOpen, setUnitSettingsOpen] = useState(false);
+  const [presetSettingsOpen, setPresetSettingsOpen] = useState(false);
+  const [interlockSettingsOpen, setInterlockSettingsOpen] = useState(false);
+  const waveform = useWaveformStream(pipeline);
+  const limits = capabilities ?? DEFAULT_CAPABILITIES;
+  const units = useSpeedUnits(limits.maxSpeed);
+  const speedSetpoint = useSpeedSetpoint({ sendCommand, limits, onError: setError });
+  const speedPresets = useSpeedPresets(deviceId);
+  const profileRunner = useProfileRunner({
+    pipeline,
+    connected,
+    sendSpeed: (speed) => void speedSetpoint.commit(speed),
+    resolution: limits.speedResolution,
+  });
+  // Aborting a profile run sends the stop itself
+  const stopMotor = () => (profileRunner.active ? profileRunner.abort() : void speedSetpoint.commit(0));
+  const interlock = useSafetyInterlock({
+    pipeline,
+    recorder,
+    connected,
+    maxSpeed: limits.maxSpeed,
+    stopMotor,
+    latchStop: setStopLatched,
+  });
+  const reconciliation = useStateReconciliation({
+    pipeline,
+    connected,
+    commandedSpeed: speedSetpoint.commanded,
+    commandedAutoShutoff: autoShutoffEnabled,
+    onCommandApplied,
+    // Follow the board: the controls show the stop, and a reconnect does not restart the motor
+    onDeviceStop: stopMotor,
+  });
 
   /**
    * Connect to Bluetooth device via Web Bluetooth API
    */
   const connectBluetooth = async () => {
-    try {
-      setError(null);
-      setConnectionStatus('Scanning...');
-
-      // Request Bluetooth device using custom 128-bit UUIDs
-      const device = await navigator.bluetooth.requestDevice({
-        filters: [
-          { services: [SPP_SERVICE_UUID] },
-        ],
-        optionalServices: [SPP_SERVICE_UUID],
-      });
-
-      setConnectionStatus('Connecting...');
-
-      // Connect to GATT server
-      const server = await device.gatt!.connect();
-      const service = await server.getPrimaryService(SPP_SERVICE_UUID);
-
-      // Get SPP characteristic (RX/TX)
-      const characteristic = await service.getCharacteristic(SPP_DATA_CHARACTERISTIC_UUID);
-
-      characteristicRef.current = characteristic;
-
-      // Start listening for notifications
-      await characteristic.startNotifications();
-      characteristic.addEventListener('characteristicvaluechanged', handleCharacteristicChange);
-
-      setConnected(true);
-      setConnectionStatus('Connected');
-      setCurrentMode('stop');
-
-      // Start reading from the characteristic
-      startReading(characteristic);
-    } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'Connection failed';
-      setError(errorMsg);
-      setConnectionStatus('Disconnected');
-      setConnected(false);
-    }
-  };
-
-  /**
-   * Start reading from BLE characteristic using Web Streams API
-   */
-  const startReading = async (characteristic: any) => {
-    try {
-      const reader = characteristic.readable?.getReader();
-      if (!reader) return;
-
-      readerRef.current = reader;
-      abortControllerRef.current = new AbortController();
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        // Feed data into the telemetry parser
-        const telemetryFrames = telemetryParserRef.current.feed(value);
-
-        // Process all parsed frames
-        for (const telemetry of telemetryFrames) {
-          setMotorState(telemetry);
-        }
-      }
-    } catch (err) {
-      if (!(err instanceof Error && err.message.includes('aborted'))) {
-        console.error('Reading error:', err);
-      }
-    }
+    await connect();
+    speedSetpoint.reset();
   };
 
   /**
-   * Handle characteristic value changes (notifications)
+   * Connect to the virtual MG24 device
    */
-  const handleCharacteristicChange = (event: Event) => {
-    const characteristic = event.target as any;
-    const value = characteristic.value;
-    if (value) {
-      // Log raw data
-      const rawData = new Uint8Array(value.buffer);
-      const dataStr = new TextDecoder().decode(rawData).trim();
-      if (dataStr) {
-        addDebugMessage('received', dataStr, rawData);
-      }
-
-      // Feed data into the telemetry parser
-      const telemetryFrames = telemetryParserRef.current.feed(value);
-
-      // Process all parsed frames
-      for (const telemetry of telemetryFrames) {
-        setMotorState(telemetry);
-      }
-    }
+  const connectSimulator = async () => {
+    await connect(new SimulatorTransport());
+    speedSetpoint.reset();
   };
 
   /**
-   * Send command to motor control board
+   * Toggle auto-shutoff feature
+   * The toggle moves at once and moves back if the write fails.
    */
-  const sendCommand = async (command: string) => {
-    if (!characteristicRef.current || !connected) {
-      setError('Not connected to device');
-      return;
-    }
+  const toggleAutoShutoff = async () => {
+    const newState = !autoShutoffEnabled;
+    const command = newState ? 'AOFF1' : 'AOFF0';
 
+    setAutoShutoffEnabled(newState);
     try {
-      const encoder = new TextEncoder();
-      const data = encoder.encode(command + '\n');
-      addDebugMessage('sent', command);
-      await characteristicRef.current.writeValue(data);
+      await sendCommand(command);
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'Failed to send command';
-      setError(errorMsg);
+      setAutoShutoffEnabled(!newState);
+      const reason = err instanceof Error ? `: ${err.message}` : '';
+      setError(`Failed to ${newState ? 'enable' : 'disable'} auto-shutoff${reason}`);
     }
   };
 
   /**
-   * Control motor mode
+   * Switch the anomaly detector on the board
+   * The card follows the source reported by the next telemetry line.
    */
-  const setMotorMode = async (mode: MotorMode) => {
-    let command = '';
-
-    switch (mode) {
-      case 'stop':
-        command = 'M0';
-        break;
-      case 'low':
-        command = 'M7';
-        break;
-      case 'high':
-        command = 'M16';
-        break;
+  const setAnomalySource = async (source: AnomalySource) => {
+    try {
+      await sendCommand(`ASRC ${source}`);
+    } catch (err) {
+      const reason = err instanceof Error ? `: ${err.message}` : '';
+      setError(`Failed to switch anomaly detector to ${source}${reason}`);
     }
-
-    setCurrentMode(mode);
-    await sendCommand(command);
   };
 
   /**
-   * Toggle auto-shutoff feature
+   * Start streaming the raw IMU or audio signal, or stop it
    */
-  const toggleAutoShutoff = async () => {
-    const newState = !autoShutoffEnabled;
-    const command = newState ? 'AOFF1' : 'AOFF0';
-
+  const setWaveformSource = async (source: WaveformSource | 'off') => {
     try {
-      await sendCommand(command);
-      setAutoShutoffEnabled(newState);
+      await sendCommand(`WAVE ${source}`);
     } catch (err) {
-      setError(`Failed to ${newState ? 'enable' : 'disable'} auto-shutoff`);
+      const reason = err instanceof Error ? `: ${err.message}` : '';
+      setError(`Failed to switch signal streaming to ${source}${reason}`);
     }
   };
 
   /**
-   * Disconnect from Bluetooth device
+   * Download the recorded telemetry as CSV, with speed in the selected units
    */
-  const disconnectBluetooth = async () => {
-    try {
-      if (readerRef.current) {
-        await readerRef.current.cancel();
-      }
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
-      if (characteristicRef.current) {
-        await characteristicRef.current.stopNotifications();
-      }
-
-      setConnected(false);
-      setConnectionStatus('Disconnected');
-      characteristicRef.current = null;
-      readerRef.current = null;
-      telemetryParserRef.current.reset();
-    } catch (err) {
-      console.error('Disconnect error:', err);
-    }
+  const exportRecording = () => {
+    const speedUnits = [units.settings.primary, units.settings.secondary].filter(
+      (unit): unit is SpeedUnit => unit !== null
+    );
+    const blob = new Blob([recorder.toCsv({ units: speedUnits, context: units.context })], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `telemetry-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
-  // Check Web Bluetooth support
-  const bluetoothSupported = 'bluetooth' in navigator;
+  // Check Bluetooth support (Web Bluetooth or native Electron bridge)
+  const bluetoothSupported = isBluetoothAvailable();
+  const pillStyle = PHASE_PILL_STYLES[connection.phase];
+
+  // Controls stay disabled until the capability handshake has finished
+  const canSend = (command: string) =>
+    connected && !!capabilities && validateCommand(capabilities, command) === null;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-secondary to-background">
@@ -299,8 +235,8 @@ export default function FanController() {
           </div>
 
           <div className="flex items-center gap-2">
-            <div className={`flex items-center gap-2 px-3 py-2 rounded-lg ${connected ? 'bg-green-50' : 'bg-red-50'}`}>
-              <div className={`w-2 h-2 rounded-full ${connected ? 'bg-green-500' : 'bg-red-500'}`} />
+            <div className={`flex items-center gap-2 px-3 py-2 rounded-lg ${pillStyle.pill}`}>
+              <div className={`w-2 h-2 rounded-full ${pillStyle.dot}`} />
               <span className="text-sm font-medium text-foreground">{connectionStatus}</span>
             </div>
           </div>
@@ -309,230 +245,339 @@ export default function FanController() {
 
       {/* Main Content */}
       <main className="container py-12">
-        {!bluetoothSupported ? (
-          <div className="max-w-2xl mx-auto bg-destructive/10 border border-destructive/20 rounded-xl p-8 text-center">
-            <AlertCircle className="w-12 h-12 text-destructive mx-auto mb-4" />
-            <h2 className="text-2xl font-bold text-foreground mb-2">Web Bluetooth Not Supported</h2>
-            <p className="text-muted-foreground mb-4">
-              Your browser does not support the Web Bluetooth API. Please use Chrome, Edge, or Opera on a device with Bluetooth hardware.
+        {!bluetoothSupported && (
+          <div className="max-w-2xl mx-auto mb-8 bg-destructive/10 border border-destructive/20 rounded-xl p-6 text-center">
+            <AlertCircle className="w-10 h-10 text-destructive mx-auto mb-3" />
+            <h2 className="text-xl font-bold text-foreground mb-2">Web Bluetooth Not Supported</h2>
+            <p className="text-muted-foreground">
+              Your browser does not support the Web Bluetooth API. Please use Chrome, Edge, or Opera on a device with Bluetooth hardware, or connect to the simulated device.
             </p>
           </div>
-        ) : (
-          <div className="grid lg:grid-cols-3 gap-8">
-            {/* Left: Technology Stack */}
-            <div className="lg:col-span-1">
-              <div className="bg-white rounded-xl p-6 shadow-sm border border-border">
-                <h2 className="text-lg font-bold text-primary mb-4">Technology Stack</h2>
-                <div className="space-y-3">
-                  <div className="flex items-start gap-3">
-                    <Bluetooth className="w-5 h-5 text-accent flex-shrink-0 mt-0.5" />
-                    <div>
-                      <p className="font-medium text-foreground">Bluetooth Connectivity</p>
-                      <p className="text-xs text-muted-foreground">Web Bluetooth SPP</p>
-                    </div>
+        )}
+
+        <div className="grid lg:grid-cols-3 gap-8">
+          {/* Left: Technology Stack */}
+          <div className="lg:col-span-1">
+            <div className="bg-white rounded-xl p-6 shadow-sm border border-border">
+              <h2 className="text-lg font-bold text-primary mb-4">Technology Stack</h2>
+              <div className="space-y-3">
+                <div className="flex items-start gap-3">
+                  <Bluetooth className="w-5 h-5 text-accent flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-medium text-foreground">Bluetooth Connectivity</p>
+                    <p className="text-xs text-muted-foreground">Web Bluetooth SPP</p>
                   </div>
-                  <div className="flex items-start gap-3">
-                    <Zap className="w-5 h-5 text-accent flex-shrink-0 mt-0.5" />
-                    <div>
-                      <p className="font-medium text-foreground">Motor Control</p>
-                      <p className="text-xs text-muted-foreground">PWM Speed Regulation</p>
-                    </div>
+                </div>
+                <div className="flex items-start gap-3">
+                  <Zap className="w-5 h-5 text-accent flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-medium text-foreground">Motor Control</p>
+                    <p className="text-xs text-muted-foreground">PWM Speed Regulation</p>
                   </div>
-                  <div className="flex items-start gap-3">
-                    <CheckCircle2 className="w-5 h-5 text-accent flex-shrink-0 mt-0.5" />
-                    <div>
-                      <p className="font-medium text-foreground">Anomaly Detection Active Sign</p>
-                      <p className="text-xs text-muted-foreground">AI/ML Edge Processing</p>
-                    </div>
+                </div>
+                <div className="flex items-start gap-3">
+                  <CheckCircle2 className="w-5 h-5 text-accent flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-medium text-foreground">Anomaly Detection Active Sign</p>
+                    <p className="text-xs text-muted-foreground">AI/ML Edge Processing</p>
                   </div>
                 </div>
+              </div>
 
-                {/* Connection Button */}
-                <div className="mt-6 pt-6 border-t border-border">
-                  {!connected ? (
+              {/* Connection Button */}
+              <div className="mt-6 pt-6 border-t border-border">
+                {canStartConnection(connection.phase) ? (
+                  <div className="space-y-2">
                     <Button
                       onClick={connectBluetooth}
+                      disabled={!bluetoothSupported}
                       className="w-full tech-button bg-accent hover:bg-accent/90 text-accent-foreground"
                     >
                       <Bluetooth className="w-4 h-4 mr-2" />
                       Connect Device
                     </Button>
-                  ) : (
                     <Button
-                      onClick={disconnectBluetooth}
-                      variant="outline"
+                      onClick={connectSimulator}
+                      variant="ghost"
                       className="w-full tech-button"
                     >
-                      Disconnect
+                      <Cpu className="w-4 h-4 mr-2" />
+                      Use Simulated Device
                     </Button>
-                  )}
-                </div>
+                  </div>
+                ) : (
+                  <Button
+                    onClick={disconnect}
+                    disabled={!canDisconnect(connection.phase)}
+                    variant="outline"
+                    className="w-full tech-button"
+                  >
+                    {connected ? 'Disconnect' : 'Cancel'}
+                  </Button>
+                )}
+
+                <ConnectionHistory history={connection.history} />
               </div>
             </div>
 
-            {/* Center: Control Panel */}
-            <div className="lg:col-span-1">
-              <div className="bg-white rounded-xl p-8 shadow-sm border border-border">
-                <h2 className="text-lg font-bold text-primary mb-8 text-center">Fan Control</h2>
+            {/* Firmware Info */}
+            {connected && <FirmwareInfoPanel capabilities={capabilities} formatSpeed={units.formatPrimary} />}
+
+            {/* Safety Interlock */}
+            <SafetyInterlockPanel
+              interlock={interlock}
+              connected={connected}
+              onConfigure={() => setInterlockSettingsOpen(true)}
+            />
+
+            {/* Telemetry Diagnostics */}
+            {telemetryCounters.bytesReceived > 0 && (
+              <TelemetryDiagnosticsPanel
+                counters={telemetryCounters}
+                diagnostics={diagnostics}
+                onReset={clearDiagnostics}
+                onExport={exportRecording}
+              />
+            )}
+          </div>
 
-                <div className="space-y-4">
-                  {/* Stop Button */}
-                  <button
-                    onClick={() => setMotorMode('stop')}
-                    disabled={!connected}
-                    className={`w-full tech-button py-4 rounded-xl font-semibold transition-all ${
-                      currentMode === 'stop'
-                        ? 'bg-gray-500 text-white shadow-lg'
-                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                    } disabled:opacity-50 disabled:cursor-not-allowed`}
-                  >
-                    <span className="text-lg">⏹</span> Stop
-                  </button>
+          {/* Center: Control Panel */}
+          <div className="lg:col-span-1">
+            <div className="bg-white rounded-xl p-8 shadow-sm border border-border">
+              <div className="relative mb-8">
+                <h2 className="text-lg font-bold text-primary text-center">Fan Control</h2>
+                <button
+                  onClick={() => setPresetSettingsOpen(true)}
+                  className="absolute right-0 top-0 p-1 rounded text-muted-foreground hover:text-foreground"
+                  title="Speed presets"
+                >
+                  <ListOrdered className="w-4 h-4" />
+                </button>
+              </div>
 
-                  {/* Low Speed Button */}
+              {/* Interlock Trip */}
+              {interlock.trip && (
+                <div className="mb-6 rounded-lg border border-destructive/20 bg-destructive/10 p-3 flex items-start gap-3">
+                  <ShieldAlert className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                  <div className="flex-1">
+                    <p className="font-medium text-destructive">Motor stopped by the safety interlock</p>
+                    <p className="text-sm text-destructive/80">{interlock.trip.reason}</p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={interlock.acknowledge}>
+                    Acknowledge
+                  </Button>
+                </div>
+              )}
+
+              {/* Stopped by Device */}
+              {connected && reconciliation.deviceStop && (
+                <div className="mb-6 rounded-lg border border-yellow-200 bg-yellow-50 p-3 flex items-start gap-3">
+                  <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+                  <div className="flex-1">
+                    <p className="font-medium text-foreground">Stopped by device</p>
+                    <p className="text-sm text-muted-foreground">
+                      {reconciliation.deviceStop.reason} at{' '}
+                      {new Date(reconciliation.deviceStop.at).toLocaleTimeString()} (was{' '}
+                      {units.formatPrimary(reconciliation.deviceStop.commanded)})
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={reconciliation.dismiss}>
+                    Dismiss
+                  </Button>
+                </div>
+              )}
+
+              <SpeedSetpointControl
+                commanded={speedSetpoint.commanded}
+                pending={speedSetpoint.pending}
+                setpoint={speedSetpoint.setpoint}
+                measured={motorState.speed}
+                sync={connected ? reconciliation.speed : INITIAL_RECONCILE_STATE.speed}
+                limits={limits}
+                presets={speedPresets.presets}
+                units={units}
+                disabled={!canSend('M0') || profileRunner.active || !!interlock.trip}
+                onPreview={speedSetpoint.preview}
+                onCommit={speedSetpoint.commit}
+              />
+
+              {/* Auto-Shutoff Toggle */}
+              <div className="mt-8 pt-8 border-t border-border">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-2">
+                    <Power className="w-5 h-5 text-primary" />
+                    <span className="font-medium text-foreground">Auto-Shutoff</span>
+                  </div>
                   <button
-                    onClick={() => setMotorMode('low')}
-                    disabled={!connected}
-                    className={`w-full tech-button py-4 rounded-xl font-semibold transition-all ${
-                      currentMode === 'low'
-                        ? 'bg-green-500 text-green-foreground shadow-lg'
-                        : 'bg-green-100 text-green-700 hover:bg-green-200'
+                    onClick={toggleAutoShutoff}
+                    disabled={!canSend('AOFF1')}
+                    className={`relative inline-flex h-8 w-14 items-center rounded-full transition-colors ${
+                      autoShutoffEnabled ? 'bg-accent' : 'bg-gray-300'
                     } disabled:opacity-50 disabled:cursor-not-allowed`}
                   >
-                    <span className="text-lg">🌀</span> Low (10 rad/s)
+                    <span
+                      className={`inline-block h-6 w-6 transform rounded-full bg-white transition-transform ${
+                        autoShutoffEnabled ? 'translate-x-7' : 'translate-x-1'
+                      }`}
+                    />
                   </button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {autoShutoffEnabled ? 'Auto-shutoff enabled' : 'Auto-shutoff disabled'}
+                  {connected && reconciliation.autoShutoff.status === 'in-sync' && ' · confirmed by device'}
+                  {connected && reconciliation.autoShutoff.status === 'unknown' && ' · not reported by device'}
+                </p>
+                {connected && reconciliation.autoShutoff.message && (
+                  <p className="text-xs text-destructive mt-1">{reconciliation.autoShutoff.message}</p>
+                )}
+              </div>
 
-                  {/* High Speed Button */}
+              {/* Command Status */}
+              <CommandStatusList commands={commands} />
+            </div>
+          </div>
+
+          {/* Right: Telemetry Display */}
+          <div className="lg:col-span-1">
+            <div className="bg-white rounded-xl p-8 shadow-sm border border-border">
+              <h2 className="text-lg font-bold text-primary mb-6 text-center">Real-Time Telemetry</h2>
+
+              {/* Status Indicator */}
+              <div className="mb-8">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-sm font-medium text-muted-foreground">Motor Status</span>
+                  <div className={`status-led ${motorState.status !== 'Stop' ? 'active' : ''} ${
+                    motorState.status === 'Error'
+                      ? 'bg-destructive'
+                      : motorState.status === 'Running'
+                        ? 'bg-green-500'
+                        : 'bg-muted'
+                  }`} />
+                </div>
+                <p className="text-2xl font-bold text-primary">{motorState.status}</p>
+              </div>
+
+              {/* Speed Display */}
+              <div className="mb-8">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-muted-foreground">Speed</span>
                   <button
-                    onClick={() => setMotorMode('high')}
-                    disabled={!connected}
-                    className={`w-full tech-button py-4 rounded-xl font-semibold transition-all ${
-                      currentMode === 'high'
-                        ? 'bg-accent text-accent-foreground shadow-lg'
-                        : 'bg-accent/10 text-accent hover:bg-accent/20'
-                    } disabled:opacity-50 disabled:cursor-not-allowed`}
+                    onClick={() => setUnitSettingsOpen(true)}
+                    className="p-1 rounded text-muted-foreground hover:text-foreground"
+                    title="Speed units"
                   >
-                    <span className="text-lg">⚡</span> High (20 rad/s)
+                    <Ruler className="w-4 h-4" />
                   </button>
                 </div>
+                <div className="bg-secondary/50 rounded-lg p-4">
+                  <p className="text-3xl font-mono font-bold text-accent">
+                    {units.formatPrimary(motorState.speed)}
+                  </p>
+                  {units.settings.secondary && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {units.formatSecondary(motorState.speed)}
+                    </p>
+                  )}
+                </div>
+              </div>
 
-                {/* Auto-Shutoff Toggle */}
-                <div className="mt-8 pt-8 border-t border-border">
-                  <div className="flex items-center justify-between mb-4">
-                    <div className="flex items-center gap-2">
-                      <Power className="w-5 h-5 text-primary" />
-                      <span className="font-medium text-foreground">Auto-Shutoff</span>
-                    </div>
+              {/* Anomaly Detection */}
+              <div className="mb-4">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-sm font-medium text-muted-foreground">Anomaly Detection</span>
+                  <div className="flex items-center gap-2">
                     <button
-                      onClick={toggleAutoShutoff}
-                      disabled={!connected}
-                      className={`relative inline-flex h-8 w-14 items-center rounded-full transition-colors ${
-                        autoShutoffEnabled ? 'bg-accent' : 'bg-gray-300'
-                      } disabled:opacity-50 disabled:cursor-not-allowed`}
+                      onClick={() => setSeveritySettingsOpen(true)}
+                      className="p-1 rounded text-muted-foreground hover:text-foreground"
+                      title="Severity settings"
                     >
-                      <span
-                        className={`inline-block h-6 w-6 transform rounded-full bg-white transition-transform ${
-                          autoShutoffEnabled ? 'translate-x-7' : 'translate-x-1'
-                        }`}
-                      />
+                      <SlidersHorizontal className="w-4 h-4" />
                     </button>
+                    <div
+                      className={`status-led ${motorState.anomalyDetected ? 'active' : ''} ${
+                        !motorState.anomalyActive ? 'bg-muted' : ''
+                      }`}
+                      style={motorState.anomalyActive ? { backgroundColor: motorState.severity.color } : undefined}
+                      title={motorState.severity.label}
+                    />
                   </div>
-                  <p className="text-xs text-muted-foreground">
-                    {autoShutoffEnabled ? 'Auto-shutoff enabled' : 'Auto-shutoff disabled'}
-                  </p>
                 </div>
+
+                <AnomalySourcePanel
+                  activeSource={motorState.anomalySource}
+                  history={anomalyHistory}
+                  availableSources={(capabilities ?? DEFAULT_CAPABILITIES).anomalySources}
+                  onSelect={canSend('ASRC imu') ? setAnomalySource : undefined}
+                />
+                
+                <AnomalySeverityMeter
+                  value={motorState.anomalyPercentage}
+                  severity={motorState.severity}
+                  config={severityConfig}
+                />
+
+                <AnomalyClassBreakdown
+                  scores={motorState.anomalyClasses}
+                  severity={motorState.severity}
+                />
+                
+                <p className="text-xs text-muted-foreground">
+                  {motorState.anomalyDetected ? '⚠️ Anomaly Detected' : '✓ Normal Operation'}
+                </p>
               </div>
-            </div>
 
-            {/* Right: Telemetry Display */}
-            <div className="lg:col-span-1">
-              <div className="bg-white rounded-xl p-8 shadow-sm border border-border">
-                <h2 className="text-lg font-bold text-primary mb-6 text-center">Real-Time Telemetry</h2>
-
-                {/* Status Indicator */}
-                <div className="mb-8">
-                  <div className="flex items-center justify-between mb-3">
-                    <span className="text-sm font-medium text-muted-foreground">Motor Status</span>
-                    <div className={`status-led ${motorState.status !== 'Stop' ? 'active' : ''} ${
-                      motorState.status === 'Error'
-                        ? 'bg-destructive'
-                        : motorState.status === 'Running'
-                          ? 'bg-green-500'
-                          : 'bg-muted'
-                    }`} />
-                  </div>
-                  <p className="text-2xl font-bold text-primary">{motorState.status}</p>
-                </div>
+              {/* Additional Fields */}
+              <TelemetryFieldList telemetry={motorState} />
 
-                {/* Speed Display */}
-                <div className="mb-8">
-                  <p className="text-sm font-medium text-muted-foreground mb-2">Speed</p>
-                  <div className="bg-secondary/50 rounded-lg p-4">
-                    <p className="text-3xl font-mono font-bold text-accent">
-                      {motorState.rpm.toFixed(0)} RPM
-                    </p>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      {motorState.speed.toFixed(2)} rad/s
-                    </p>
-                  </div>
-                </div>
+              {/* Last Update */}
+              <div className="pt-4 border-t border-border">
+                <p className="text-xs text-muted-foreground">
+                  Last update: {new Date(motorState.timestamp).toLocaleTimeString()}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
 
-                {/* Anomaly Detection */}
-                <div className="mb-4">
-                  <div className="flex items-center justify-between mb-3">
-                    <span className="text-sm font-medium text-muted-foreground">Anomaly Detection</span>
-                    <div className={`status-led ${motorState.anomalyDetected ? 'active' : ''} ${
-                      !motorState.anomalyActive ? 'bg-muted' :
-                        motorState.anomalyDetected ? 'bg-yellow-500' : 'bg-green-500'
-                    }`} />
-                  </div>
-                  
-                  {/* Anomaly Meter Bar */}
-                  <div className="mb-3">
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="text-2xl font-mono font-bold text-foreground">
-                        {motorState.anomalyPercentage}%
-                      </span>
-                      <span className="text-xs font-medium text-muted-foreground">
-                        {motorState.anomalyPercentage < 30 ? 'Normal' : motorState.anomalyPercentage < 70 ? 'Warning' : 'Critical'}
-                      </span>
-                    </div>
-                    
-                    {/* Progress Bar */}
-                    <div className="w-full h-3 bg-gray-200 rounded-full overflow-hidden">
-                      <div
-                        className={`h-full transition-all duration-300 ${
-                          motorState.anomalyPercentage < 30
-                            ? 'bg-green-500'
-                            : motorState.anomalyPercentage < 70
-                              ? 'bg-yellow-500'
-                              : 'bg-red-500'
-                        }`}
-                        style={{
-                          width: `${motorState.anomalyPercentage}%`,
-                        }}
-                      />
-                    </div>
-                  </div>
-                  
-                  <p className="text-xs text-muted-foreground">
-                    {motorState.anomalyDetected ? '⚠️ Anomaly Detected' : '✓ Normal Operation'}
-                  </p>
-                </div>
+        {/* Speed Profile */}
+        {connected && (
+          <SpeedProfilePanel
+            runner={profileRunner}
+            limits={limits}
+            units={units}
+            disabled={!canSend('M0') || !!interlock.trip}
+          />
+        )}
 
-                {/* Last Update */}
-                <div className="pt-4 border-t border-border">
-                  <p className="text-xs text-muted-foreground">
-                    Last update: {new Date(motorState.timestamp).toLocaleTimeString()}
-                  </p>
-                </div>
-              </div>
+        {/* Raw Signal */}
+        {connected && (
+          <WaveformPanel
+            stream={waveform}
+            rotationHz={convertSpeed(motorState.speed, 'hz', units.context)}
+            bladeCount={units.settings.bladeCount}
+            onSelectSource={canSend('WAVE off') ? setWaveformSource : undefined}
+          />
+        )}
+
+        {/* Reconnect Banner */}
+        {reconnect && (
+          <div className="mt-8 max-w-2xl mx-auto bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center gap-3">
+            <RefreshCw className="w-5 h-5 text-yellow-600 flex-shrink-0 animate-spin" />
+            <div className="flex-1">
+              <p className="font-medium text-yellow-800">Connection lost</p>
+              <p className="text-sm text-yellow-700">{connectionStatus}</p>
+              {connection.error && (
+                <p className="text-xs text-yellow-700/80">{connection.error}</p>
+              )}
             </div>
+            <Button variant="outline" size="sm" onClick={disconnect}>
+              Cancel
+            </Button>
           </div>
         )}
 
         {/* Error Message */}
-        {error && (
+        {error && !reconnect && (
           <div className="mt-8 max-w-2xl mx-auto bg-destructive/10 border border-destructive/20 rounded-lg p-4 flex items-start gap-3">
             <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
             <div>
@@ -543,6 +588,39 @@ export default function FanController() {
         )}
       </main>
 
+      {/* Device Picker (Electron / native Bluetooth) */}
+      <DevicePickerDialog />
+      <SeveritySettingsDialog
+        open={severitySettingsOpen}
+        onOpenChange={setSeveritySettingsOpen}
+        config={severityConfig}
+        deviceId={deviceId}
+        onSave={updateSeverityConfig}
+        onReset={resetSeverityConfig}
+      />
+      <SpeedPresetsDialog
+        open={presetSettingsOpen}
+        onOpenChange={setPresetSettingsOpen}
+        presets={speedPresets.presets}
+        deviceId={deviceId}
+        limits={limits}
+        onSave={speedPresets.updatePresets}
+        onReset={speedPresets.resetPresets}
+      />
+      <InterlockSettingsDialog
+        open={interlockSettingsOpen}
+        onOpenChange={setInterlockSettingsOpen}
+        config={interlock.config}
+        maxSpeed={limits.maxSpeed}
+        onSave={interlock.updateConfig}
+      />
+      <UnitSettingsDialog
+        open={unitSettingsOpen}
+        onOpenChange={setUnitSettingsOpen}
+        settings={units.settings}
+        onSave={units.updateSettings}
+      />
+
       {/* Debug Console */}
       <DebugConsole messages={debugMessages} onClear={clearDebugMessages} />
 
@@ -0,0 +1,141 @@
+/**
+ * BLE Adapter
+ *
+ * Minimal central-role BLE interface used by NativeBluetoothService.
+ * The shape follows @abandonware/noble so noble peripherals, services and
+ * characteristics satisfy it directly; tests and the simulator use the
+ * in-memory implementation in fake-ble-adapter.ts.
+ */
+
+export type BleAdapterState =
+  | 'unknown'
+  | 'resetting'
+  | 'unsupported'
+  | 'unauthorized'
+  | 'poweredOff'
+  | 'poweredOn';
+
+export interface BleCharacteristic {
+  uuid: string;
+  properties: string[];
+  readAsync(): Promise<Buffer>;
+  writeAsync(data: Buffer, withoutResponse: boolean): Promise<void>;
+  subscribeAsync(): Promise<void>;
+  unsubscribeAsync(): Promise<void>;
+  on(event: 'data', listener: (data: Buffer, isNotification: boolean) => void): unknown;
+  removeListener(event: 'data', listener: (data: Buffer, isNotification: boolean) => void): unknown;
+}
+
+export interface BleService {
+  uuid: string;
+  discoverCharacteristicsAsync(characteristicUuids: string[]): Promise<BleCharacteristic[]>;
+}
+
+export interface BlePeripheral {
+  id: string;
+  rssi: number;
+  advertisement: { localName?: string };
+  /** Negotiated ATT MTU once connected, null if unknown */
+  mtu?: number | null;
+  connectAsync(): Promise<void>;
+  disconnectAsync(): Promise<void>;
+  discoverServicesAsync(serviceUuids: string[]): Promise<BleService[]>;
+  once(event: 'disconnect', listener: () => void): unknown;
+  removeListener(event: 'disconnect', listener: () => void): unknown;
+}
+
+export type BleStateListener = (state: BleAdapterState) => void;
+export type BleDiscoverListener = (peripheral: BlePeripheral) => void;
+
+/** Event and listener pair accepted by BleAdapter.on / removeListener */
+export type BleAdapterSubscription =
+  | [event: 'stateChange', listener: BleStateListener]
+  | [event: 'discover', listener: BleDiscoverListener];
+
+export interface BleAdapter {
+  readonly state: BleAdapterState;
+  startScanningAsync(serviceUuids: string[], allowDuplicates: boolean): Promise<void>;
+  stopScanningAsync(): Promise<void>;
+  on(event: 'stateChange', listener: BleStateListener): void;
+  on(event: 'discover', listener: BleDiscoverListener): void;
+  removeListener(event: 'stateChange', listener: BleStateListener): void;
+  removeListener(event: 'discover', listener: BleDiscoverListener): void;
+}
+
+/**
+ * Normalize a UUID to the format used by noble (lowercase, no dashes)
+ */
+export function normalizeUuid(uuid: string): string {
+  return uuid.replace(/-/g, '').toLowerCase();
+}
+
+/**
+ * Create an adapter backed by @abandonware/noble.
+ * noble is loaded lazily because its native bindings are not available
+ * on every platform.
+ */
+export async function createNobleAdapter(): Promise<BleAdapter> {
+  const noble = await import('@abandonware/noble');
+
+  return {
+    get state() {
+      return noble._state;
+    },
+    startScanningAsync: (serviceUuids, allowDuplicates) =>
+      noble.startScanningAsync(serviceUuids, allowDuplicates),
+    stopScanningAsync: () => noble.stopScanningAsync(),
+    on: (...[event, listener]: BleAdapterSubscription) => {
+      noble.on(event, listener);
+    },
+    removeListener: (...[event, listener]: BleAdapterSubscription) => {
+      noble.removeListener(event, listener);
+    },
+  };
+}
+
+/**
+ * Combine several adapters into one: scans run on all of them and
+ * discoveries from any adapter are reported. The combined adapter is
+ * powered on as soon as one of its members is.
+ */
+export function combineAdapters(...adapters: BleAdapter[]): BleAdapter {
+  const combinedState = (): BleAdapterState =>
+    adapters.some((adapter) => adapter.state === 'poweredOn')
+      ? 'poweredOn'
+      : adapters[0]?.state ?? 'unsupported';
+  const stateListeners = new Map<BleStateListener, BleStateListener>();
+
+  return {
+    get state() {
+      return combinedState();
+    },
+    async startScanningAsync(serviceUuids, allowDuplicates) {
+      await Promise.all(
+        adapters
+          .filter((adapter) => adapter.state === 'poweredOn')
+          .map((adapter) => adapter.startScanningAsync(serviceUuids, allowDuplicates))
+      );
+    },
+    async stopScanningAsync() {
+      await Promise.all(adapters.map((adapter) => adapter.stopScanningAsync()));
+    },
+    on: (...[event, listener]: BleAdapterSubscription) => {
+      if (event === 'discover') {
+        adapters.forEach((adapter) => adapter.on('discover', listener));
+        return;
+      }
+      const wrapped = () => listener(combinedState());
+      stateListeners.set(listener, wrapped);
+      adapters.forEach((adapter) => adapter.on('stateChange', wrapped));
+    },
+    removeListener: (...[event, listener]: BleAdapterSubscription) => {
+      if (event === 'discover') {
+        adapters.forEach((adapter) => adapter.removeListener('discover', listener));
+        return;
+      }
+      const wrapped = stateListeners.get(listener) ?? listener;
+      stateListeners.delete(listener);
+      adapters.forEach((adapter) => adapter.removeListener('stateChange', wrapped));
+    },
+  };
+}
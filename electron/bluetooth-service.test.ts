@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BluetoothDisconnectedEvent, NativeBluetoothDevice } from '../shared/bluetooth-ipc';
+import { NativeBluetoothService } from './bluetooth-service';
+import { FakeBleAdapter, FakeCharacteristic, FakePeripheral, FakeService } from './fake-ble-adapter';
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() } }));
+
+const SERVICE_UUID = '4880c12c-fdcb-4077-8920-a450d7f9b907';
+const CHARACTERISTIC_UUID = 'fec26ec4-6d71-4442-9f81-55bc21d658d6';
+
+function createPeripheral(id = 'board-1') {
+  const characteristic = new FakeCharacteristic(CHARACTERISTIC_UUID);
+  const peripheral = new FakePeripheral(id, 'MG24 Fan', -55, [
+    new FakeService(SERVICE_UUID, [characteristic]),
+  ]);
+  return { peripheral, characteristic };
+}
+
+async function discover(service: NativeBluetoothService): Promise<NativeBluetoothDevice> {
+  const discovered = new Promise<NativeBluetoothDevice>((resolve) => {
+    service.once('device-discovered', resolve);
+  });
+  await service.startScan([SERVICE_UUID]);
+  return discovered;
+}
+
+describe('NativeBluetoothService', () => {
+  let adapter: FakeBleAdapter;
+  let service: NativeBluetoothService;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    adapter = new FakeBleAdapter();
+    service = new NativeBluetoothService();
+    await service.initialize(adapter);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports peripherals advertising the requested service', async () => {
+    const { peripheral } = createPeripheral();
+    adapter.addPeripheral(peripheral);
+    adapter.addPeripheral(new FakePeripheral('other', 'Headset', -70, []));
+
+    const device = await discover(service);
+
+    expect(device).toEqual({ id: 'board-1', name: 'MG24 Fan', rssi: -55 });
+    expect(service.getDiscoveredDevices()).toEqual([device]);
+  });
+
+  it('waits for the adapter to power on before scanning', async () => {
+    adapter.setState('poweredOff');
+    adapter.addPeripheral(createPeripheral().peripheral);
+
+    const device = discover(service);
+    adapter.setState('poweredOn');
+
+    await expect(device).resolves.toMatchObject({ id: 'board-1' });
+  });
+
+  it('connects to a discovered device and stops scanning', async () => {
+    const { peripheral } = createPeripheral();
+    adapter.addPeripheral(peripheral);
+    const stopScanning = vi.spyOn(adapter, 'stopScanningAsync');
+
+    await discover(service);
+    await service.connect('board-1');
+
+    expect(peripheral.connected).toBe(true);
+    expect(stopScanning).toHaveBeenCalled();
+    expect(service.getConnectedDevice()).toMatchObject({ id: 'board-1' });
+  });
+
+  it('rejects connecting to a device that was not discovered', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(service.connect('missing')).rejects.toThrow('Device missing not found');
+  });
+
+  it('fans notifications out to every subscriber', async () => {
+    const { peripheral, characteristic } = createPeripheral();
+    adapter.addPeripheral(peripheral);
+    await discover(service);
+    await service.connect('board-1');
+
+    const first = vi.fn();
+    const second = vi.fn();
+    const unsubscribeFirst = await service.subscribeToNotifications(SERVICE_UUID, CHARACTERISTIC_UUID, first);
+    const unsubscribeSecond = await service.subscribeToNotifications(SERVICE_UUID, CHARACTERISTIC_UUID, second);
+    characteristic.notify(Buffer.from('Speed: 7.00 rad/sec\n'));
+
+    expect(first).toHaveBeenCalledWith(Buffer.from('Speed: 7.00 rad/sec\n'));
+    expect(second).toHaveBeenCalledTimes(1);
+
+    await unsubscribeFirst();
+    expect(characteristic.subscribed).toBe(true);
+    await unsubscribeSecond();
+    expect(characteristic.subscribed).toBe(false);
+
+    characteristic.subscribed = true;
+    characteristic.notify(Buffer.from('late'));
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases subscriptions and reports a requested disconnect', async () => {
+    const { peripheral, characteristic } = createPeripheral();
+    adapter.addPeripheral(peripheral);
+    await discover(service);
+    await service.connect('board-1');
+    await service.subscribeToNotifications(SERVICE_UUID, CHARACTERISTIC_UUID, vi.fn());
+
+    const events: BluetoothDisconnectedEvent[] = [];
+    service.on('disconnect', (event: BluetoothDisconnectedEvent) => events.push(event));
+    await service.disconnect();
+
+    expect(events).toEqual([{ deviceId: 'board-1', reason: 'requested' }]);
+    expect(characteristic.subscribed).toBe(false);
+    expect(peripheral.connected).toBe(false);
+    expect(service.getConnectedDevice()).toBeNull();
+  });
+
+  it('reports a link loss initiated by the peripheral', async () => {
+    const { peripheral, characteristic } = createPeripheral();
+    adapter.addPeripheral(peripheral);
+    await discover(service);
+    await service.connect('board-1');
+    const callback = vi.fn();
+    await service.subscribeToNotifications(SERVICE_UUID, CHARACTERISTIC_UUID, callback);
+
+    const events: BluetoothDisconnectedEvent[] = [];
+    service.on('disconnect', (event: BluetoothDisconnectedEvent) => events.push(event));
+    peripheral.dropConnection();
+
+    expect(events).toEqual([{ deviceId: 'board-1', reason: 'link-lost' }]);
+    expect(service.getConnectedDevice()).toBeNull();
+    characteristic.emit('data', Buffer.from('stale'), true);
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
@@ -1,42 +1,71 @@
 /**
  * Native Bluetooth Service
- * 
+ *
  * Provides native Bluetooth support for platforms where Web Bluetooth is not available.
- * Currently implements a placeholder for future @abandonware/noble integration.
- * 
+ * Runs on top of an injectable BLE adapter: @abandonware/noble in production,
+ * the in-memory fake adapter (fake-ble-adapter.ts) in tests.
+ *
  * On macOS and Windows, Web Bluetooth API is used instead.
- * On Linux, this service can be extended to use @abandonware/noble.
+ * On Linux, this service drives the radio through @abandonware/noble.
+ *
+ * A virtual MG24 device (see shared/mg24-simulator.ts) is always advertised
+ * so the app can be exercised without hardware.
  */
 
-import { ipcMain } from 'electron';
-
-interface BluetoothDevice {
-  id: string;
-  name: string;
-  rssi: number;
-}
+import { EventEmitter } from 'events';
+import type { WebContents } from 'electron';
+import type { BluetoothDisconnectedEvent, NativeBluetoothDevice } from '../shared/bluetooth-ipc';
+import {
+  combineAdapters,
+  createNobleAdapter,
+  normalizeUuid,
+  type BleAdapter,
+  type BleAdapterState,
+  type BleCharacteristic,
+  type BlePeripheral,
+  type BleService,
+} from './ble-adapter';
+import { FakeBleAdapter, createSimulatedMg24Peripheral } from './fake-ble-adapter';
+import { handle, sendToRenderer } from './ipc';
+
+type BluetoothDevice = NativeBluetoothDevice;
 
 interface BluetoothCharacteristic {
   uuid: string;
   properties: string[];
 }
 
-class NativeBluetoothService {
+type NotificationCallback = (data: Buffer) => void;
+
+interface ConnectedDevice {
+  device: BluetoothDevice;
+  peripheral: BlePeripheral;
+  services: Map<string, BleService>;
+  characteristics: Map<string, BleCharacteristic>;
+  subscriptions: Map<string, Set<NotificationCallback>>;
+  dataHandlers: Map<string, (data: Buffer) => void>;
+  onDisconnect: () => void;
+}
+
+const ADAPTER_READY_TIMEOUT_MS = 5000;
+
+export class NativeBluetoothService extends EventEmitter {
+  private adapter: BleAdapter | null = null;
   private isScanning = false;
-  private connectedDevice: BluetoothDevice | null = null;
+  private connected: ConnectedDevice | null = null;
   private discoveredDevices: Map<string, BluetoothDevice> = new Map();
+  private peripherals: Map<string, BlePeripheral> = new Map();
 
   /**
    * Initialize the Bluetooth service
-   * On Linux, this would initialize @abandonware/noble
+   * @param adapter - BLE adapter to use. Defaults to noble combined with the simulated device.
    */
-  async initialize(): Promise<void> {
+  async initialize(adapter?: BleAdapter): Promise<void> {
     try {
-      // Future: Initialize @abandonware/noble on Linux
-      // const noble = require('@abandonware/noble');
-      // noble.on('stateChange', this.onStateChange.bind(this));
-      // noble.on('discover', this.onDiscover.bind(this));
-      
+      this.adapter = adapter ?? (await this.createDefaultAdapter());
+      this.adapter.on('stateChange', this.onStateChange);
+      this.adapter.on('discover', this.onDiscover);
+
       console.log('[Bluetooth] Native Bluetooth service initialized');
     } catch (error) {
       console.error('[Bluetooth] Failed to initialize:', error);
@@ -53,23 +82,15 @@ class NativeBluetoothService {
     }
 
     try {
+      const adapter = await this.getReadyAdapter();
       this.isScanning = true;
       this.discoveredDevices.clear();
-      
+      this.peripherals.clear();
+
       console.log('[Bluetooth] Starting scan for services:', serviceUuids);
-      
-      // Future: Use @abandonware/noble to scan
-      // const noble = require('@abandonware/noble');
-      // noble.startScanning(serviceUuids, false);
-      
-      // For now, emit a fake device for testing
-      setTimeout(() => {
-        this.onDeviceDiscovered({
-          id: 'mock-device-001',
-          name: 'Silicon Labs MG24 (Mock)',
-          rssi: -50,
-        });
-      }, 1000);
+
+      // Allow duplicates so RSSI updates keep arriving while scanning
+      await adapter.startScanningAsync(serviceUuids.map(normalizeUuid), true);
     } catch (error) {
       console.error('[Bluetooth] Scan failed:', error);
       this.isScanning = false;
@@ -81,13 +102,12 @@ class NativeBluetoothService {
    * Stop scanning for devices
    */
   async stopScan(): Promise<void> {
-    if (!this.isScanning) return;
+    if (!this.isScanning || !this.adapter) return;
 
     try {
       this.isScanning = false;
+      await this.adapter.stopScanningAsync();
       console.log('[Bluetooth] Scan stopped');
-      
-      // Future: noble.stopScanning();
     } catch (error) {
       console.error('[Bluetooth] Failed to stop scan:', error);
     }
@@ -99,18 +119,31 @@ class NativeBluetoothService {
   async connect(deviceId: string): Promise<void> {
     try {
       const device = this.discoveredDevices.get(deviceId);
-      if (!device) {
+      const peripheral = this.peripherals.get(deviceId);
+      if (!device || !peripheral) {
         throw new Error(`Device ${deviceId} not found`);
       }
 
+      if (this.connected) {
+        await this.disconnect();
+      }
+      await this.stopScan();
+
       console.log('[Bluetooth] Connecting to device:', device.name);
-      
-      // Future: Use @abandonware/noble to connect
-      // const noble = require('@abandonware/noble');
-      // const peripheral = noble.peripherals.find(p => p.id === deviceId);
-      // await peripheral.connectAsync();
-      
-      this.connectedDevice = device;
+      await peripheral.connectAsync();
+
+      const onDisconnect = () => this.handleDisconnect(deviceId, 'link-lost');
+      peripheral.once('disconnect', onDisconnect);
+
+      this.connected = {
+        device,
+        peripheral,
+        services: new Map(),
+        characteristics: new Map(),
+        subscriptions: new Map(),
+        dataHandlers: new Map(),
+        onDisconnect,
+      };
       console.log('[Bluetooth] Connected to:', device.name);
     } catch (error) {
       console.error('[Bluetooth] Connection failed:', error);
@@ -122,45 +155,52 @@ class NativeBluetoothService {
    * Disconnect from the current device
    */
   async disconnect(): Promise<void> {
-    if (!this.connectedDevice) return;
+    const connected = this.connected;
+    if (!connected) return;
 
     try {
-      console.log('[Bluetooth] Disconnecting from:', this.connectedDevice.name);
-      
-      // Future: Use @abandonware/noble to disconnect
-      // const noble = require('@abandonware/noble');
-      // const peripheral = noble.peripherals.find(p => p.id === this.connectedDevice?.id);
-      // await peripheral.disconnectAsync();
-      
-      this.connectedDevice = null;
+      console.log('[Bluetooth] Disconnecting from:', connected.device.name);
+
+      connected.peripheral.removeListener('disconnect', connected.onDisconnect);
+      await this.releaseSubscriptions(connected);
+      await connected.peripheral.disconnectAsync();
+
       console.log('[Bluetooth] Disconnected');
     } catch (error) {
       console.error('[Bluetooth] Disconnect failed:', error);
+    } finally {
+      this.handleDisconnect(connected.device.id, 'requested');
     }
   }
 
+  /**
+   * Negotiated ATT MTU of the connected device, null if unknown
+   */
+  getMtu(): number | null {
+    return this.connected?.peripheral.mtu ?? null;
+  }
+
   /**
    * Write data to a characteristic
+   * @param withoutResponse - Defaults to what the characteristic supports
    */
   async writeCharacteristic(
     serviceUuid: string,
     characteristicUuid: string,
-    data: Buffer
+    data: Buffer,
+    withoutResponse?: boolean
   ): Promise<void> {
-    if (!this.connectedDevice) {
-      throw new Error('Not connected to any device');
-    }
-
     try {
       console.log('[Bluetooth] Writing to characteristic:', characteristicUuid);
-      
-      // Future: Use @abandonware/noble to write
-      // const noble = require('@abandonware/noble');
-      // const peripheral = noble.peripherals.find(p => p.id === this.connectedDevice?.id);
-      // const service = await peripheral.discoverServicesAsync([serviceUuid]);
-      // const characteristics = await service[0].discoverCharacteristicsAsync([characteristicUuid]);
-      // await characteristics[0].writeAsync(data, false);
-      
+
+      const characteristic = await this.getCharacteristic(serviceUuid, characteristicUuid);
+      const supportsWithResponse = characteristic.properties.includes('write');
+      const supportsWithoutResponse = characteristic.properties.includes('writeWithoutResponse');
+      const useWithoutResponse = withoutResponse
+        ? supportsWithoutResponse || !supportsWithResponse
+        : !supportsWithResponse && supportsWithoutResponse;
+      await characteristic.writeAsync(data, useWithoutResponse);
+
       console.log('[Bluetooth] Write successful');
     } catch (error) {
       console.error('[Bluetooth] Write failed:', error);
@@ -175,22 +215,11 @@ class NativeBluetoothService {
     serviceUuid: string,
     characteristicUuid: string
   ): Promise<Buffer> {
-    if (!this.connectedDevice) {
-      throw new Error('Not connected to any device');
-    }
-
     try {
       console.log('[Bluetooth] Reading from characteristic:', characteristicUuid);
-      
-      // Future: Use @abandonware/noble to read
-      // const noble = require('@abandonware/noble');
-      // const peripheral = noble.peripherals.find(p => p.id === this.connectedDevice?.id);
-      // const service = await peripheral.discoverServicesAsync([serviceUuid]);
-      // const characteristics = await service[0].discoverCharacteristicsAsync([characteristicUuid]);
-      // const data = await characteristics[0].readAsync();
-      // return data;
-      
-      return Buffer.alloc(0);
+
+      const characteristic = await this.getCharacteristic(serviceUuid, characteristicUuid);
+      return await characteristic.readAsync();
     } catch (error) {
       console.error('[Bluetooth] Read failed:', error);
       throw error;
@@ -198,29 +227,41 @@ class NativeBluetoothService {
   }
 
   /**
-   * Subscribe to characteristic notifications
+   * Subscribe to characteristic notifications.
+   * Several callbacks may subscribe to the same characteristic; each
+   * notification is fanned out to all of them.
+   * @returns Function removing this callback again
    */
   async subscribeToNotifications(
     serviceUuid: string,
     characteristicUuid: string,
-    callback: (data: Buffer) => void
-  ): Promise<void> {
-    if (!this.connectedDevice) {
-      throw new Error('Not connected to any device');
-    }
-
+    callback: NotificationCallback
+  ): Promise<() => Promise<void>> {
     try {
       console.log('[Bluetooth] Subscribing to notifications:', characteristicUuid);
-      
-      // Future: Use @abandonware/noble to subscribe
-      // const noble = require('@abandonware/noble');
-      // const peripheral = noble.peripherals.find(p => p.id === this.connectedDevice?.id);
-      // const service = await peripheral.discoverServicesAsync([serviceUuid]);
-      // const characteristics = await service[0].discoverCharacteristicsAsync([characteristicUuid]);
-      // characteristics[0].on('data', callback);
-      // await characteristics[0].subscribeAsync();
-      
+
+      const connected = this.requireConnection();
+      const characteristic = await this.getCharacteristic(serviceUuid, characteristicUuid);
+      const key = characteristicKey(serviceUuid, characteristicUuid);
+
+      let callbacks = connected.subscriptions.get(key);
+      if (!callbacks) {
+        callbacks = new Set();
+        connected.subscriptions.set(key, callbacks);
+
+        const handler = (data: Buffer) => {
+          for (const cb of Array.from(callbacks!)) {
+            cb(data);
+          }
+        };
+        connected.dataHandlers.set(key, handler);
+        characteristic.on('data', handler);
+        await characteristic.subscribeAsync();
+      }
+      callbacks.add(callback);
+
       console.log('[Bluetooth] Subscribed to notifications');
+      return () => this.unsubscribe(connected, key, callback);
     } catch (error) {
       console.error('[Bluetooth] Subscription failed:', error);
       throw error;
@@ -238,23 +279,182 @@ class NativeBluetoothService {
    * Get currently connected device
    */
   getConnectedDevice(): BluetoothDevice | null {
-    return this.connectedDevice;
+    return this.connected?.device ?? null;
+  }
+
+  /**
+   * Internal: Resolve a characteristic, using the discovery cache
+   */
+  private async getCharacteristic(
+    serviceUuid: string,
+    characteristicUuid: string
+  ): Promise<BleCharacteristic> {
+    const connected = this.requireConnection();
+    const key = characteristicKey(serviceUuid, characteristicUuid);
+
+    const cached = connected.characteristics.get(key);
+    if (cached) return cached;
+
+    const serviceId = normalizeUuid(serviceUuid);
+    let service = connected.services.get(serviceId);
+    if (!service) {
+      [service] = await connected.peripheral.discoverServicesAsync([serviceId]);
+      if (!service) {
+        throw new Error(`Service ${serviceUuid} not found`);
+      }
+      connected.services.set(serviceId, service);
+    }
+
+    const [characteristic] = await service.discoverCharacteristicsAsync([
+      normalizeUuid(characteristicUuid),
+    ]);
+    if (!characteristic) {
+      throw new Error(`Characteristic ${characteristicUuid} not found`);
+    }
+    connected.characteristics.set(key, characteristic);
+    return characteristic;
+  }
+
+  /**
+   * Internal: Remove a notification callback, unsubscribing when it was the last one
+   */
+  private async unsubscribe(
+    connected: ConnectedDevice,
+    key: string,
+    callback: NotificationCallback
+  ): Promise<void> {
+    const callbacks = connected.subscriptions.get(key);
+    if (!callbacks?.delete(callback) || callbacks.size > 0) return;
+
+    connected.subscriptions.delete(key);
+    const characteristic = connected.characteristics.get(key);
+    const handler = connected.dataHandlers.get(key);
+    connected.dataHandlers.delete(key);
+    if (characteristic && handler) {
+      characteristic.removeListener('data', handler);
+      if (this.connected === connected) {
+        await characteristic.unsubscribeAsync();
+      }
+    }
+  }
+
+  /**
+   * Internal: Drop all notification subscriptions of a connection
+   */
+  private async releaseSubscriptions(connected: ConnectedDevice): Promise<void> {
+    for (const [key, handler] of Array.from(connected.dataHandlers)) {
+      const characteristic = connected.characteristics.get(key);
+      if (!characteristic) continue;
+      characteristic.removeListener('data', handler);
+      try {
+        await characteristic.unsubscribeAsync();
+      } catch (error) {
+        console.warn('[Bluetooth] Failed to unsubscribe:', error);
+      }
+    }
+    connected.dataHandlers.clear();
+    connected.subscriptions.clear();
+  }
+
+  /**
+   * Internal: Clear connection state and report the disconnect
+   */
+  private handleDisconnect(deviceId: string, reason: 'requested' | 'link-lost'): void {
+    const connected = this.connected;
+    if (!connected || connected.device.id !== deviceId) return;
+
+    for (const [key, handler] of Array.from(connected.dataHandlers)) {
+      connected.characteristics.get(key)?.removeListener('data', handler);
+    }
+    this.connected = null;
+
+    console.log('[Bluetooth] Device disconnected:', connected.device.name, `(${reason})`);
+    const payload: BluetoothDisconnectedEvent = { deviceId, reason };
+    this.emit('disconnect', payload);
+  }
+
+  private requireConnection(): ConnectedDevice {
+    if (!this.connected) {
+      throw new Error('Not connected to any device');
+    }
+    return this.connected;
+  }
+
+  /**
+   * Internal: Wait until the adapter is powered on
+   */
+  private async getReadyAdapter(): Promise<BleAdapter> {
+    const adapter = this.adapter;
+    if (!adapter) {
+      throw new Error('Bluetooth service not initialized');
+    }
+    if (adapter.state === 'poweredOn') return adapter;
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        adapter.removeListener('stateChange', listener);
+        reject(new Error(`Bluetooth adapter is ${adapter.state}`));
+      }, ADAPTER_READY_TIMEOUT_MS);
+      const listener = (state: BleAdapterState) => {
+        if (state !== 'poweredOn') return;
+        clearTimeout(timer);
+        adapter.removeListener('stateChange', listener);
+        resolve();
+      };
+      adapter.on('stateChange', listener);
+    });
+    return adapter;
+  }
+
+  /**
+   * Internal: noble (when available) plus the simulated MG24 device
+   */
+  private async createDefaultAdapter(): Promise<BleAdapter> {
+    const simulatorAdapter = new FakeBleAdapter();
+    simulatorAdapter.addPeripheral(createSimulatedMg24Peripheral());
+
+    try {
+      return combineAdapters(await createNobleAdapter(), simulatorAdapter);
+    } catch (error) {
+      console.warn('[Bluetooth] noble unavailable, only the simulated device is offered:', error);
+      return simulatorAdapter;
+    }
   }
 
   /**
    * Internal: Handle device discovery
    */
-  private onDeviceDiscovered(device: BluetoothDevice): void {
+  private onDiscover = (peripheral: BlePeripheral): void => {
+    if (!this.isScanning) return;
+
+    const device: BluetoothDevice = {
+      id: peripheral.id,
+      name: peripheral.advertisement.localName || peripheral.id,
+      rssi: peripheral.rssi,
+    };
+    const isNew = !this.discoveredDevices.has(device.id);
     this.discoveredDevices.set(device.id, device);
-    console.log('[Bluetooth] Device discovered:', device.name, `(RSSI: ${device.rssi})`);
-  }
+    this.peripherals.set(device.id, peripheral);
+
+    if (isNew) {
+      console.log('[Bluetooth] Device discovered:', device.name, `(RSSI: ${device.rssi})`);
+    }
+    this.emit('device-discovered', device);
+  };
 
   /**
    * Internal: Handle state changes
    */
-  private onStateChange(state: string): void {
+  private onStateChange = (state: BleAdapterState): void => {
     console.log('[Bluetooth] State changed:', state);
-  }
+    if (state !== 'poweredOn') {
+      this.isScanning = false;
+    }
+  };
+}
+
+function characteristicKey(serviceUuid: string, characteristicUuid: string): string {
+  return `${normalizeUuid(serviceUuid)}/${normalizeUuid(characteristicUuid)}`;
 }
 
 // Create singleton instance
@@ -263,14 +463,50 @@ const bluetoothService = new NativeBluetoothService();
 /**
  * Setup IPC handlers for Bluetooth operations
  * These are called from the renderer process when Web Bluetooth is not available
+ * @param adapter - Optional BLE adapter override (defaults to noble + simulator)
  */
-export function setupBluetoothIPC(): void {
+export function setupBluetoothIPC(adapter?: BleAdapter): void {
   // Initialize service
-  bluetoothService.initialize();
+  bluetoothService.initialize(adapter);
+
+  // Renderers interested in connection events and their notification subscriptions
+  const listeners = new Set<WebContents>();
+  const unsubscribers = new Map<WebContents, Map<string, () => Promise<void>>>();
+
+  bluetoothService.on('disconnect', (payload: BluetoothDisconnectedEvent) => {
+    for (const target of Array.from(listeners)) {
+      sendToRenderer(target, 'bluetooth:disconnected', payload);
+    }
+    unsubscribers.clear();
+  });
+
+  bluetoothService.on('device-discovered', (device: BluetoothDevice) => {
+    for (const target of Array.from(listeners)) {
+      sendToRenderer(target, 'bluetooth:device-discovered', device);
+    }
+  });
+
+  const track = (target: WebContents) => {
+    if (listeners.has(target)) return;
+    listeners.add(target);
+    target.once('destroyed', () => {
+      listeners.delete(target);
+      for (const unsubscribe of Array.from(unsubscribers.get(target)?.values() ?? [])) {
+        unsubscribe().catch(() => {});
+      }
+      unsubscribers.delete(target);
+    });
+  };
+
+  // Platform detection
+  handle('bluetooth:get-platform', async () => {
+    return process.platform; // 'darwin', 'win32', or 'linux'
+  });
 
   // Start scan
-  ipcMain.handle('bluetooth:start-scan', async (event, serviceUuids: string[]) => {
+  handle('bluetooth:start-scan', async (event, serviceUuids) => {
     try {
+      track(event.sender);
       await bluetoothService.startScan(serviceUuids);
       return { success: true };
     } catch (error) {
@@ -279,7 +515,7 @@ export function setupBluetoothIPC(): void {
   });
 
   // Stop scan
-  ipcMain.handle('bluetooth:stop-scan', async () => {
+  handle('bluetooth:stop-scan', async () => {
     try {
       await bluetoothService.stopScan();
       return { success: true };
@@ -289,7 +525,7 @@ export function setupBluetoothIPC(): void {
   });
 
   // Get discovered devices
-  ipcMain.handle('bluetooth:get-devices', async () => {
+  handle('bluetooth:get-devices', async () => {
     try {
       const devices = bluetoothService.getDiscoveredDevices();
       return { success: true, devices };
@@ -299,17 +535,18 @@ export function setupBluetoothIPC(): void {
   });
 
   // Connect to device
-  ipcMain.handle('bluetooth:connect', async (event, deviceId: string) => {
+  handle('bluetooth:connect', async (event, deviceId) => {
     try {
+      track(event.sender);
       await bluetoothService.connect(deviceId);
-      return { success: true };
+      return { success: true, mtu: bluetoothService.getMtu() };
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
   });
 
   // Disconnect
-  ipcMain.handle('bluetooth:disconnect', async () => {
+  handle('bluetooth:disconnect', async () => {
     try {
       await bluetoothService.disconnect();
       return { success: true };
@@ -319,14 +556,15 @@ export function setupBluetoothIPC(): void {
   });
 
   // Write characteristic
-  ipcMain.handle(
+  handle(
     'bluetooth:write-characteristic',
-    async (event, serviceUuid: string, characteristicUuid: string, data: number[]) => {
+    async (event, serviceUuid, characteristicUuid, data, withoutResponse) => {
       try {
         await bluetoothService.writeCharacteristic(
           serviceUuid,
           characteristicUuid,
-          Buffer.from(data)
+          Buffer.from(data),
+          withoutResponse
         );
         return { success: true };
       } catch (error) {
@@ -336,9 +574,9 @@ export function setupBluetoothIPC(): void {
   );
 
   // Read characteristic
-  ipcMain.handle(
+  handle(
     'bluetooth:read-characteristic',
-    async (event, serviceUuid: string, characteristicUuid: string) => {
+    async (event, serviceUuid, characteristicUuid) => {
       try {
         const data = await bluetoothService.readCharacteristic(serviceUuid, characteristicUuid);
         return { success: true, data: Array.from(data) };
@@ -349,21 +587,49 @@ export function setupBluetoothIPC(): void {
   );
 
   // Subscribe to notifications
-  ipcMain.handle(
+  handle(
     'bluetooth:subscribe-notifications',
-    async (event, serviceUuid: string, characteristicUuid: string) => {
+    async (event, serviceUuid, characteristicUuid) => {
       try {
-        await bluetoothService.subscribeToNotifications(
+        const target = event.sender;
+        track(target);
+
+        const key = characteristicKey(serviceUuid, characteristicUuid);
+        const subscriptions = unsubscribers.get(target) ?? new Map();
+        unsubscribers.set(target, subscriptions);
+        if (subscriptions.has(key)) {
+          return { success: true };
+        }
+
+        const unsubscribe = await bluetoothService.subscribeToNotifications(
           serviceUuid,
           characteristicUuid,
           (data: Buffer) => {
-            event.sender.send('bluetooth:notification', {
+            sendToRenderer(target, 'bluetooth:notification', {
               serviceUuid,
               characteristicUuid,
               data: Array.from(data),
             });
           }
         );
+        subscriptions.set(key, unsubscribe);
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  // Unsubscribe from notifications
+  handle(
+    'bluetooth:unsubscribe-notifications',
+    async (event, serviceUuid, characteristicUuid) => {
+      try {
+        const key = characteristicKey(serviceUuid, characteristicUuid);
+        const subscriptions = unsubscribers.get(event.sender);
+        const unsubscribe = subscriptions?.get(key);
+        subscriptions?.delete(key);
+        await unsubscribe?.();
         return { success: true };
       } catch (error) {
         return { success: false, error: (error as Error).message };
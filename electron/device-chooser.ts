@@ -0,0 +1,53 @@
+/**
+ * Device Chooser
+ *
+ * Under Electron, navigator.bluetooth.requestDevice() raises the
+ * select-bluetooth-device event on the requesting WebContents instead of
+ * showing a browser chooser. The candidate list is forwarded to the renderer
+ * (bluetooth:device-chooser), which shows its own picker and answers through
+ * bluetooth:select-device.
+ */
+
+import type { WebContents } from 'electron';
+import { handle, sendToRenderer } from './ipc';
+
+// Pending requestDevice() callbacks, per renderer
+const pendingCallbacks = new Map<WebContents, (deviceId: string) => void>();
+
+/**
+ * Forward select-bluetooth-device requests of a window to its renderer
+ */
+export function attachDeviceChooser(webContents: WebContents): void {
+  webContents.on('select-bluetooth-device', (event, deviceList, callback) => {
+    event.preventDefault();
+    pendingCallbacks.set(webContents, callback);
+
+    sendToRenderer(webContents, 'bluetooth:device-chooser', {
+      devices: deviceList.map((device) => ({
+        id: device.deviceId,
+        name: device.deviceName || device.deviceId,
+      })),
+    });
+  });
+
+  webContents.once('destroyed', () => {
+    pendingCallbacks.delete(webContents);
+  });
+}
+
+/**
+ * Setup the IPC handler answering pending chooser requests
+ */
+export function setupDeviceChooserIPC(): void {
+  handle('bluetooth:select-device', async (event, deviceId) => {
+    const callback = pendingCallbacks.get(event.sender);
+    if (!callback) {
+      return { success: false, error: 'No device request pending' };
+    }
+    pendingCallbacks.delete(event.sender);
+
+    // An empty id cancels the request
+    callback(deviceId ?? '');
+    return { success: true };
+  });
+}
@@ -0,0 +1,251 @@
+/**
+ * Fake BLE Adapter
+ *
+ * In-memory implementation of the BLE adapter interface. Peripherals,
+ * services and characteristics are plain objects whose behaviour can be
+ * scripted, which makes NativeBluetoothService testable without a radio.
+ * It also hosts the simulated MG24 board advertised by the Electron app.
+ */
+
+import { EventEmitter } from 'events';
+import { Mg24Simulator, type Mg24SimulatorOptions } from '../shared/mg24-simulator';
+import type {
+  BleAdapter,
+  BleAdapterState,
+  BleAdapterSubscription,
+  BleCharacteristic,
+  BleDiscoverListener,
+  BlePeripheral,
+  BleService,
+  BleStateListener,
+} from './ble-adapter';
+import { normalizeUuid } from './ble-adapter';
+
+// Custom 128-bit UUIDs for Silicon Labs SPP service
+const SPP_SERVICE_UUID = '4880c12c-fdcb-4077-8920-a450d7f9b907';
+const SPP_DATA_CHARACTERISTIC_UUID = 'fec26ec4-6d71-4442-9f81-55bc21d658d6';
+
+export interface FakeCharacteristicHandlers {
+  onRead?: () => Buffer;
+  onWrite?: (data: Buffer, withoutResponse: boolean) => void;
+  onSubscribe?: () => void;
+  onUnsubscribe?: () => void;
+}
+
+export class FakeCharacteristic extends EventEmitter implements BleCharacteristic {
+  readonly uuid: string;
+  subscribed = false;
+  readonly writes: Buffer[] = [];
+
+  constructor(
+    uuid: string,
+    readonly properties: string[] = ['read', 'write', 'notify'],
+    private handlers: FakeCharacteristicHandlers = {}
+  ) {
+    super();
+    this.uuid = normalizeUuid(uuid);
+  }
+
+  async readAsync(): Promise<Buffer> {
+    return this.handlers.onRead?.() ?? Buffer.alloc(0);
+  }
+
+  async writeAsync(data: Buffer, withoutResponse: boolean): Promise<void> {
+    this.writes.push(data);
+    this.handlers.onWrite?.(data, withoutResponse);
+  }
+
+  async subscribeAsync(): Promise<void> {
+    this.subscribed = true;
+    this.handlers.onSubscribe?.();
+  }
+
+  async unsubscribeAsync(): Promise<void> {
+    this.subscribed = false;
+    this.handlers.onUnsubscribe?.();
+  }
+
+  /**
+   * Push a notification to subscribers
+   */
+  notify(data: Buffer): void {
+    if (this.subscribed) {
+      this.emit('data', data, true);
+    }
+  }
+}
+
+export class FakeService implements BleService {
+  readonly uuid: string;
+
+  constructor(uuid: string, readonly characteristics: FakeCharacteristic[]) {
+    this.uuid = normalizeUuid(uuid);
+  }
+
+  async discoverCharacteristicsAsync(characteristicUuids: string[]): Promise<BleCharacteristic[]> {
+    const wanted = characteristicUuids.map(normalizeUuid);
+    return this.characteristics.filter(
+      (characteristic) => wanted.length === 0 || wanted.includes(characteristic.uuid)
+    );
+  }
+}
+
+export class FakePeripheral extends EventEmitter implements BlePeripheral {
+  connected = false;
+  mtu: number | null = null;
+  advertisement: { localName?: string };
+
+  constructor(
+    readonly id: string,
+    localName: string,
+    public rssi: number,
+    readonly services: FakeService[]
+  ) {
+    super();
+    this.advertisement = { localName };
+  }
+
+  async connectAsync(): Promise<void> {
+    this.connected = true;
+    this.mtu = 247;
+    this.emit('connect');
+  }
+
+  async disconnectAsync(): Promise<void> {
+    this.dropConnection();
+  }
+
+  async discoverServicesAsync(serviceUuids: string[]): Promise<BleService[]> {
+    if (!this.connected) {
+      throw new Error('Peripheral not connected');
+    }
+    const wanted = serviceUuids.map(normalizeUuid);
+    return this.services.filter((service) => wanted.length === 0 || wanted.includes(service.uuid));
+  }
+
+  /**
+   * Simulate a link loss initiated by the peripheral
+   */
+  dropConnection(): void {
+    if (!this.connected) return;
+    this.connected = false;
+    for (const service of this.services) {
+      for (const characteristic of service.characteristics) {
+        characteristic.subscribed = false;
+      }
+    }
+    this.emit('disconnect');
+  }
+}
+
+export class FakeBleAdapter implements BleAdapter {
+  private emitter = new EventEmitter();
+  private currentState: BleAdapterState;
+  private peripherals: FakePeripheral[] = [];
+  private scanning = false;
+
+  constructor(state: BleAdapterState = 'poweredOn') {
+    this.currentState = state;
+  }
+
+  get state(): BleAdapterState {
+    return this.currentState;
+  }
+
+  /**
+   * Change the adapter power state
+   */
+  setState(state: BleAdapterState): void {
+    this.currentState = state;
+    this.emitter.emit('stateChange', state);
+  }
+
+  /**
+   * Make a peripheral visible to scans
+   */
+  addPeripheral(peripheral: FakePeripheral): void {
+    this.peripherals.push(peripheral);
+    if (this.scanning) {
+      this.emitter.emit('discover', peripheral);
+    }
+  }
+
+  async startScanningAsync(serviceUuids: string[]): Promise<void> {
+    if (this.currentState !== 'poweredOn') {
+      throw new Error(`Adapter is ${this.currentState}`);
+    }
+    this.scanning = true;
+    const wanted = serviceUuids.map(normalizeUuid);
+    const matches = this.peripherals.filter(
+      (peripheral) =>
+        wanted.length === 0 ||
+        peripheral.services.some((service) => wanted.includes(service.uuid))
+    );
+    // Report discoveries asynchronously, like a real radio
+    setTimeout(() => {
+      if (!this.scanning) return;
+      for (const peripheral of matches) {
+        this.emitter.emit('discover', peripheral);
+      }
+    }, 0);
+  }
+
+  async stopScanningAsync(): Promise<void> {
+    this.scanning = false;
+  }
+
+  on(event: 'stateChange', listener: BleStateListener): void;
+  on(event: 'discover', listener: BleDiscoverListener): void;
+  on(...[event, listener]: BleAdapterSubscription): void {
+    this.emitter.on(event, listener);
+  }
+
+  removeListener(event: 'stateChange', listener: BleStateListener): void;
+  removeListener(event: 'discover', listener: BleDiscoverListener): void;
+  removeListener(...[event, listener]: BleAdapterSubscription): void {
+    this.emitter.removeListener(event, listener);
+  }
+}
+
+/**
+ * Create a fake peripheral exposing the SPP service, backed by the virtual
+ * MG24 device. A fresh simulator is started on every connection.
+ */
+export function createSimulatedMg24Peripheral(
+  id = 'sim-mg24-001',
+  options: Mg24SimulatorOptions = {}
+): FakePeripheral {
+  let simulator: Mg24Simulator | null = null;
+  let lastLine = '';
+
+  const characteristic = new FakeCharacteristic(
+    SPP_DATA_CHARACTERISTIC_UUID,
+    ['read', 'write', 'writeWithoutResponse', 'notify'],
+    {
+      onRead: () => Buffer.from(lastLine),
+      onWrite: (data) => simulator?.receive(data),
+      onSubscribe: () => simulator?.start(),
+      onUnsubscribe: () => simulator?.stop(),
+    }
+  );
+
+  const peripheral = new FakePeripheral(id, 'Silicon Labs MG24 (Simulator)', -40, [
+    new FakeService(SPP_SERVICE_UUID, [characteristic]),
+  ]);
+
+  peripheral.on('connect', () => {
+    simulator = new Mg24Simulator(options);
+    simulator.onLine((line) => {
+      lastLine = line;
+      characteristic.notify(Buffer.from(line));
+    });
+    simulator.onFrame((frame) => characteristic.notify(Buffer.from(frame)));
+  });
+  peripheral.on('disconnect', () => {
+    simulator?.stop();
+    simulator = null;
+    lastLine = '';
+  });
+
+  return peripheral;
+}
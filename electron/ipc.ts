@@ -0,0 +1,40 @@
+/**
+ * Typed IPC helpers for the bluetooth:* channels defined in shared/bluetooth-ipc.ts
+ */
+
+import { ipcMain, type IpcMainInvokeEvent, type WebContents } from 'electron';
+import type {
+  BluetoothEventChannel,
+  BluetoothEvents,
+  BluetoothRequestArgs,
+  BluetoothRequestChannel,
+  BluetoothRequestResult,
+} from '../shared/bluetooth-ipc';
+
+/**
+ * Send an event to a renderer, ignoring windows that have gone away
+ */
+export function sendToRenderer<C extends BluetoothEventChannel>(
+  target: WebContents,
+  channel: C,
+  payload: BluetoothEvents[C]
+): void {
+  if (!target.isDestroyed()) {
+    target.send(channel, payload);
+  }
+}
+
+/**
+ * Register a typed handler for one of the bluetooth:* invoke channels
+ */
+export function handle<C extends BluetoothRequestChannel>(
+  channel: C,
+  handler: (
+    event: IpcMainInvokeEvent,
+    ...args: BluetoothRequestArgs<C>
+  ) => Promise<BluetoothRequestResult<C>>
+): void {
+  ipcMain.handle(channel, (event, ...args) =>
+    handler(event, ...(args as BluetoothRequestArgs<C>))
+  );
+}
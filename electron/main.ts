@@ -1,7 +1,8 @@
-import { app, BrowserWindow, ipcMain } from 'electron';
+import { app, BrowserWindow } from 'electron';
 import path from 'path';
 import isDev from 'electron-is-dev';
 import { setupBluetoothIPC } from './bluetooth-service';
+import { attachDeviceChooser, setupDeviceChooserIPC } from './device-chooser';
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -18,12 +19,15 @@ function createWindow() {
       enableRemoteModule: false,
       sandbox: true,
     },
-    icon: path.join(__dirname, '../assets/icon.png'),
+    icon: path.join(__dirname, '../../assets/icon.png'),
   });
 
   const startUrl = isDev
     ? 'http://localhost:5173' // Vite dev server
-    : `file://${path.join(__dirname, '../dist/index.html')}`; // Production build
+    : `file://${path.join(__dirname, '../../dist/index.html')}`; // Production build
+
+  // Show our own device picker for navigator.bluetooth.requestDevice()
+  attachDeviceChooser(mainWindow.webContents);
 
   mainWindow.loadURL(startUrl);
 
@@ -38,6 +42,7 @@ function createWindow() {
 
 app.on('ready', () => {
   setupBluetoothIPC();
+  setupDeviceChooserIPC();
   createWindow();
 });
 
@@ -60,8 +65,3 @@ app.commandLine.appendSwitch('enable-web-bluetooth');
 if (process.platform === 'win32') {
   app.commandLine.appendSwitch('enable-features', 'WebBluetooth');
 }
-
-// IPC handlers for platform detection
-ipcMain.handle('bluetooth:get-platform', async () => {
-  return process.platform; // 'darwin', 'win32', or 'linux'
-});
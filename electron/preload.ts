@@ -1,17 +1,60 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type {
+  BluetoothEventChannel,
+  BluetoothEvents,
+  BluetoothRequestArgs,
+  BluetoothRequestChannel,
+  BluetoothRequestResult,
+  ElectronAPI,
+} from '../shared/bluetooth-ipc';
+
+/**
+ * Typed wrapper around ipcRenderer.invoke for the bluetooth:* channels
+ */
+function invoke<C extends BluetoothRequestChannel>(
+  channel: C,
+  ...args: BluetoothRequestArgs<C>
+): Promise<BluetoothRequestResult<C>> {
+  return ipcRenderer.invoke(channel, ...args);
+}
+
+const electronAPI: ElectronAPI = {
+  getPlatform: () => invoke('bluetooth:get-platform'),
+  bluetooth: {
+    startScan: (serviceUuids) => invoke('bluetooth:start-scan', serviceUuids),
+    stopScan: () => invoke('bluetooth:stop-scan'),
+    getDevices: () => invoke('bluetooth:get-devices'),
+    connect: (deviceId) => invoke('bluetooth:connect', deviceId),
+    disconnect: () => invoke('bluetooth:disconnect'),
+    writeCharacteristic: (serviceUuid, characteristicUuid, data, withoutResponse) =>
+      invoke('bluetooth:write-characteristic', serviceUuid, characteristicUuid, data, withoutResponse),
+    readCharacteristic: (serviceUuid, characteristicUuid) =>
+      invoke('bluetooth:read-characteristic', serviceUuid, characteristicUuid),
+    subscribeNotifications: (serviceUuid, characteristicUuid) =>
+      invoke('bluetooth:subscribe-notifications', serviceUuid, characteristicUuid),
+    unsubscribeNotifications: (serviceUuid, characteristicUuid) =>
+      invoke('bluetooth:unsubscribe-notifications', serviceUuid, characteristicUuid),
+    selectDevice: (deviceId) => invoke('bluetooth:select-device', deviceId),
+    on: <C extends BluetoothEventChannel>(
+      channel: C,
+      listener: (payload: BluetoothEvents[C]) => void
+    ) => {
+      const handler = (_event: Electron.IpcRendererEvent, payload: BluetoothEvents[C]) =>
+        listener(payload);
+      ipcRenderer.on(channel, handler);
+      return () => {
+        ipcRenderer.removeListener(channel, handler);
+      };
+    },
+  },
+};
 
 // Expose safe APIs to the renderer process
-contextBridge.exposeInMainWorld('electronAPI', {
-  getPlatform: () => ipcRenderer.invoke('bluetooth:get-platform'),
-  requestDevice: (options: any) => ipcRenderer.invoke('bluetooth:request-device', options),
-});
+contextBridge.exposeInMainWorld('electronAPI', electronAPI);
 
 // Declare the type for TypeScript
 declare global {
   interface Window {
-    electronAPI: {
-      getPlatform: () => Promise<string>;
-      requestDevice: (options: any) => Promise<any>;
-    };
+    electronAPI: ElectronAPI;
   }
 }
@@ -0,0 +1,128 @@
+/**
+ * Bluetooth IPC Contract
+ *
+ * Request/response and event types of the bluetooth:* IPC channels between
+ * the Electron main process (electron/bluetooth-service.ts), the preload
+ * script (electron/preload.ts) and the renderer (client/src/lib).
+ *
+ * Types only: the sandboxed preload script cannot load local modules at
+ * runtime, so it must import this file with `import type`.
+ */
+
+export interface NativeBluetoothDevice {
+  id: string;
+  name: string;
+  rssi: number;
+}
+
+export type IpcResult<T extends object = {}> =
+  | ({ success: true } & T)
+  | { success: false; error: string };
+
+/**
+ * Invoke channels: argument tuple and result of each ipcMain.handle handler
+ */
+export interface BluetoothRequests {
+  'bluetooth:get-platform': {
+    args: [];
+    result: NodeJS.Platform;
+  };
+  'bluetooth:start-scan': {
+    args: [serviceUuids: string[]];
+    result: IpcResult;
+  };
+  'bluetooth:stop-scan': {
+    args: [];
+    result: IpcResult;
+  };
+  'bluetooth:get-devices': {
+    args: [];
+    result: IpcResult<{ devices: NativeBluetoothDevice[] }>;
+  };
+  /** Resolves with the negotiated ATT MTU, null when the platform does not report it */
+  'bluetooth:connect': {
+    args: [deviceId: string];
+    result: IpcResult<{ mtu: number | null }>;
+  };
+  'bluetooth:disconnect': {
+    args: [];
+    result: IpcResult;
+  };
+  /** withoutResponse defaults to what the characteristic supports */
+  'bluetooth:write-characteristic': {
+    args: [serviceUuid: string, characteristicUuid: string, data: number[], withoutResponse?: boolean];
+    result: IpcResult;
+  };
+  'bluetooth:read-characteristic': {
+    args: [serviceUuid: string, characteristicUuid: string];
+    result: IpcResult<{ data: number[] }>;
+  };
+  'bluetooth:subscribe-notifications': {
+    args: [serviceUuid: string, characteristicUuid: string];
+    result: IpcResult;
+  };
+  'bluetooth:unsubscribe-notifications': {
+    args: [serviceUuid: string, characteristicUuid: string];
+    result: IpcResult;
+  };
+  /** Answer a pending select-bluetooth-device request (null cancels it) */
+  'bluetooth:select-device': {
+    args: [deviceId: string | null];
+    result: IpcResult;
+  };
+}
+
+export interface BluetoothNotificationEvent {
+  serviceUuid: string;
+  characteristicUuid: string;
+  data: number[];
+}
+
+export interface BluetoothDisconnectedEvent {
+  deviceId: string;
+  reason: 'requested' | 'link-lost';
+}
+
+/**
+ * Devices offered by Chromium for a pending navigator.bluetooth.requestDevice()
+ * call. Sent again every time the list changes.
+ */
+export interface BluetoothDeviceChooserEvent {
+  devices: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Event channels: payload sent from main to renderer
+ */
+export interface BluetoothEvents {
+  'bluetooth:notification': BluetoothNotificationEvent;
+  'bluetooth:disconnected': BluetoothDisconnectedEvent;
+  'bluetooth:device-discovered': NativeBluetoothDevice;
+  'bluetooth:device-chooser': BluetoothDeviceChooserEvent;
+}
+
+export type BluetoothRequestChannel = keyof BluetoothRequests;
+export type BluetoothRequestArgs<C extends BluetoothRequestChannel> = BluetoothRequests[C]['args'];
+export type BluetoothRequestResult<C extends BluetoothRequestChannel> = BluetoothRequests[C]['result'];
+export type BluetoothEventChannel = keyof BluetoothEvents;
+
+/**
+ * API exposed to the renderer as window.electronAPI
+ */
+export interface ElectronAPI {
+  getPlatform(): Promise<BluetoothRequestResult<'bluetooth:get-platform'>>;
+  bluetooth: {
+    startScan(...args: BluetoothRequestArgs<'bluetooth:start-scan'>): Promise<BluetoothRequestResult<'bluetooth:start-scan'>>;
+    stopScan(): Promise<BluetoothRequestResult<'bluetooth:stop-scan'>>;
+    getDevices(): Promise<BluetoothRequestResult<'bluetooth:get-devices'>>;
+    connect(...args: BluetoothRequestArgs<'bluetooth:connect'>): Promise<BluetoothRequestResult<'bluetooth:connect'>>;
+    disconnect(): Promise<BluetoothRequestResult<'bluetooth:disconnect'>>;
+    writeCharacteristic(...args: BluetoothRequestArgs<'bluetooth:write-characteristic'>): Promise<BluetoothRequestResult<'bluetooth:write-characteristic'>>;
+    readCharacteristic(...args: BluetoothRequestArgs<'bluetooth:read-characteristic'>): Promise<BluetoothRequestResult<'bluetooth:read-characteristic'>>;
+    subscribeNotifications(...args: BluetoothRequestArgs<'bluetooth:subscribe-notifications'>): Promise<BluetoothRequestResult<'bluetooth:subscribe-notifications'>>;
+    unsubscribeNotifications(...args: BluetoothRequestArgs<'bluetooth:unsubscribe-notifications'>): Promise<BluetoothRequestResult<'bluetooth:unsubscribe-notifications'>>;
+    selectDevice(...args: BluetoothRequestArgs<'bluetooth:select-device'>): Promise<BluetoothRequestResult<'bluetooth:select-device'>>;
+    /** Subscribe to a main process event. Returns an unsubscribe function. */
+    on<C extends BluetoothEventChannel>(channel: C, listener: (payload: BluetoothEvents[C]) => void): () => void;
+  };
+}
@@ -0,0 +1,531 @@
+/**
+ * Virtual MG24 Device Simulator
+ *
+ * Emulates the motor control firmware of the Silicon Labs MG24 board over the
+ * SPP text protocol so the UI can be developed and demoed without hardware.
+ * Runs unchanged in the browser and in Node (Electron main process).
+ *
+ * Accepted commands (newline terminated):
+ * - "M<n>"   Set target speed to n rad/s ("M0" stops the motor); n is a whole
+ *            number unless a finer speedResolution is configured
+ * - "AOFF1"  Enable anomaly auto-shutoff
+ * - "AOFF0"  Disable anomaly auto-shutoff
+ * - "ASRC <imu|audio>"  Switch the anomaly detector source
+ * - "WAVE <imu|audio|off>"  Stream the raw detector signal as waveform frames
+ * - "VER?"   Query firmware/protocol version → "VER fw=<version> proto=<n>"
+ * - "CAP?"   Query capabilities → "CAP maxspeed=<n> minspeed=<n> speedres=<n> cmds=<list> sources=<list> ack=<0|1>"
+ *
+ * Commands may carry a sequence tag ("M16 #7"). With acknowledgements
+ * enabled every command is answered with "OK[ #<seq>]" or
+ * "ERR[ #<seq>] <code>"; with them disabled the simulator behaves like
+ * older firmware and stays silent.
+ *
+ * Emitted telemetry (every telemetryIntervalMs):
+ * "Motor: <status>  Speed: <speed> Anomaly: <percentage>%[ mode: <imu|audio>]\n"
+ * With reportAutoShutoff, the auto-shutoff state is read back:
+ * " AOFF: <0|1>"
+ * With extendedTelemetry, newer firmware fields are appended:
+ * " Current: <A>A Voltage: <V>V Temp: <°C>C PWM: <duty>%"
+ * With anomalyClasses, per-class scores follow:
+ * " Imbalance: <n>% Bearing: <n>% Airflow: <n>% Mount: <n>%"
+ *
+ * While waveform streaming is on, each telemetry tick is followed by the
+ * signal of that interval as binary waveform frames (shared/waveform-frame.ts):
+ * IMU x/y/z acceleration at 400 Hz (±4 g full scale) or audio at 2 kHz.
+ * The signal follows the rotation: imbalance at 1×, blade pass at 5×,
+ * loose mounting at 2×/3×, bearing wear as a modulated 120 Hz resonance
+ * and blocked airflow as broadband noise.
+ */
+
+import { encodeWaveformBlock, type WaveformSource } from './waveform-frame';
+
+export type SimulatorMotorStatus = 'Running' | 'Stop' | 'Error';
+
+export type SimulatorFaultClass = 'imbalance' | 'bearingWear' | 'blockedAirflow' | 'looseMount';
+
+const FAULT_CLASS_KEYS: Record<SimulatorFaultClass, string> = {
+  imbalance: 'Imbalance',
+  bearingWear: 'Bearing',
+  blockedAirflow: 'Airflow',
+  looseMount: 'Mount',
+};
+
+/**
+ * Scripted anomaly episode. Times are relative to simulator start.
+ */
+export interface AnomalyEpisode {
+  /** Start time of the episode (ms since start) */
+  startMs: number;
+  /** Duration of the episode at peak level (ms) */
+  durationMs: number;
+  /** Anomaly percentage added on top of the baseline at peak */
+  peak: number;
+  /** Time to rise to and fall from the peak (ms) */
+  rampMs?: number;
+  /** Fault class the episode scores as (default: imbalance) */
+  fault?: SimulatorFaultClass;
+}
+
+export interface Mg24SimulatorOptions {
+  /** Interval between telemetry lines (ms) */
+  telemetryIntervalMs?: number;
+  /** Time constant of the first-order speed response (ms) */
+  speedTimeConstantMs?: number;
+  /** Maximum accepted speed setpoint (rad/s) */
+  maxSpeed?: number;
+  /** Lowest accepted non-zero speed setpoint (rad/s) */
+  minSpeed?: number;
+  /** Step between accepted speed setpoints (rad/s) */
+  speedResolution?: number;
+  /** Standard deviation of the reported speed noise (rad/s) */
+  speedNoise?: number;
+  /** Standard deviation of the reported anomaly noise (percentage points) */
+  anomalyNoise?: number;
+  /** Anomaly percentage reported while the motor is running normally */
+  baselineAnomaly?: number;
+  /** Anomaly percentage above which auto-shutoff stops the motor */
+  shutoffThreshold?: number;
+  /** Anomaly detector reported in the telemetry line (omitted when undefined) */
+  anomalyMode?: 'imu' | 'audio';
+  /** Scripted anomaly episodes */
+  episodes?: AnomalyEpisode[];
+  /** Answer commands with OK/ERR acknowledgements */
+  acknowledgeCommands?: boolean;
+  /** Answer VER?/CAP? queries (disable to emulate legacy firmware) */
+  answerQueries?: boolean;
+  /** Firmware version reported by VER? */
+  firmwareVersion?: string;
+  /** Append motor current, bus voltage, temperature and PWM duty to telemetry */
+  extendedTelemetry?: boolean;
+  /** Append per-class anomaly scores to telemetry */
+  anomalyClasses?: boolean;
+  /** Append the auto-shutoff state to telemetry */
+  reportAutoShutoff?: boolean;
+  /** Random source in [0, 1), injectable for deterministic runs */
+  random?: () => number;
+}
+
+export type SimulatorLineListener = (line: string) => void;
+export type SimulatorFrameListener = (frame: Uint8Array) => void;
+
+interface WaveformFormat {
+  sampleRate: number;
+  channelCount: number;
+  /** Samples per channel in one block */
+  blockSize: number;
+}
+
+const WAVEFORM_FORMATS: Record<WaveformSource, WaveformFormat> = {
+  imu: { sampleRate: 400, channelCount: 3, blockSize: 128 },
+  audio: { sampleRate: 2000, channelCount: 1, blockSize: 256 },
+};
+
+/** IMU full scale (g) */
+const IMU_FULL_SCALE = 4;
+
+const DEFAULT_OPTIONS: Required<Omit<Mg24SimulatorOptions, 'anomalyMode'>> = {
+  telemetryIntervalMs: 500,
+  speedTimeConstantMs: 1500,
+  maxSpeed: 25,
+  minSpeed: 2,
+  speedResolution: 1,
+  speedNoise: 0.05,
+  anomalyNoise: 1,
+  baselineAnomaly: 3,
+  shutoffThreshold: 50,
+  episodes: [],
+  acknowledgeCommands: true,
+  answerQueries: true,
+  firmwareVersion: '1.1.0-sim',
+  extendedTelemetry: true,
+  anomalyClasses: true,
+  reportAutoShutoff: true,
+  random: Math.random,
+};
+
+/**
+ * Simulated MG24 motor control board
+ */
+export class Mg24Simulator {
+  private options: Required<Omit<Mg24SimulatorOptions, 'anomalyMode'>>;
+  private anomalyMode: 'imu' | 'audio' | undefined;
+  private listeners = new Set<SimulatorLineListener>();
+  private frameListeners = new Set<SimulatorFrameListener>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private rxBuffer = '';
+
+  private elapsedMs = 0;
+  private targetSpeed = 0;
+  private speed = 0;
+  private anomaly = 0;
+  private temperature = AMBIENT_TEMPERATURE;
+  private autoShutoff = false;
+  private episodes: AnomalyEpisode[];
+
+  private waveformSource: WaveformSource | null = null;
+  private waveformSeq = 0;
+  /** Samples not yet sent, interleaved */
+  private waveformBuffer: number[] = [];
+  /** Fraction of a sample carried to the next interval */
+  private waveformCarry = 0;
+  /** Shaft angle (rad) and signal time (s) of the next sample */
+  private shaftAngle = 0;
+  private waveformTime = 0;
+
+  constructor(options: Mg24SimulatorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.anomalyMode = 'anomalyMode' in options ? options.anomalyMode : 'imu';
+    this.episodes = [...this.options.episodes];
+  }
+
+  /**
+   * Start emitting telemetry on a timer
+   */
+  start(): void {
+    if (this.timer) return;
+    const interval = this.options.telemetryIntervalMs;
+    this.timer = setInterval(() => {
+      this.emit(this.step(interval));
+      this.streamWaveform(interval);
+    }, interval);
+  }
+
+  /**
+   * Stop emitting telemetry
+   */
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Whether the telemetry timer is running
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Subscribe to emitted lines (telemetry, newline terminated)
+   * @returns Unsubscribe function
+   */
+  onLine(listener: SimulatorLineListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to emitted binary frames (waveform chunks)
+   * @returns Unsubscribe function
+   */
+  onFrame(listener: SimulatorFrameListener): () => void {
+    this.frameListeners.add(listener);
+    return () => {
+      this.frameListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Feed bytes written by the host. Commands are processed per complete line.
+   */
+  receive(data: string | Uint8Array): void {
+    this.rxBuffer += typeof data === 'string' ? data : new TextDecoder().decode(data);
+
+    const lines = this.rxBuffer.split('\n');
+    this.rxBuffer = lines[lines.length - 1];
+
+    for (let i = 0; i < lines.length - 1; i++) {
+      this.processCommand(lines[i].trim());
+    }
+  }
+
+  /**
+   * Schedule an anomaly episode starting now
+   */
+  injectAnomaly(peak: number, durationMs: number, rampMs = 1000, fault: SimulatorFaultClass = 'imbalance'): void {
+    this.episodes.push({ startMs: this.elapsedMs, durationMs, peak, rampMs, fault });
+  }
+
+  /**
+   * Advance the model by dtMs and return the resulting telemetry line
+   */
+  step(dtMs: number): string {
+    this.elapsedMs += dtMs;
+
+    // First-order response towards the setpoint
+    const alpha = 1 - Math.exp(-dtMs / this.options.speedTimeConstantMs);
+    this.speed += (this.targetSpeed - this.speed) * alpha;
+    if (this.targetSpeed === 0 && this.speed < 0.01) {
+      this.speed = 0;
+    }
+
+    const running = this.speed > 0;
+    const baseline = running ? this.options.baselineAnomaly : 0;
+    // The audio detector is noisier than the IMU one
+    const noiseScale = this.anomalyMode === 'audio' ? 2 : 1;
+    const noise = running ? this.gaussian() * this.options.anomalyNoise * noiseScale : 0;
+    this.anomaly = clamp(Math.round(baseline + this.episodeLevel() + noise), 0, 100);
+
+    // Firmware-like auto-shutoff: cut the drive when the detector fires
+    if (this.autoShutoff && this.targetSpeed > 0 && this.anomaly > this.options.shutoffThreshold) {
+      this.targetSpeed = 0;
+    }
+
+    // Winding temperature follows the load slowly
+    const targetTemperature = AMBIENT_TEMPERATURE + this.speed * 1.2;
+    this.temperature += (targetTemperature - this.temperature) * (1 - Math.exp(-dtMs / 60000));
+
+    return this.formatTelemetry();
+  }
+
+  /**
+   * Generate the detector signal of the last dtMs and emit every complete
+   * block as waveform frames
+   */
+  streamWaveform(dtMs: number): void {
+    const source = this.waveformSource;
+    if (!source) return;
+
+    const format = WAVEFORM_FORMATS[source];
+    const exact = (dtMs / 1000) * format.sampleRate + this.waveformCarry;
+    const count = Math.floor(exact);
+    this.waveformCarry = exact - count;
+
+    for (let i = 0; i < count; i++) {
+      this.waveformBuffer.push(...this.sampleSignal(source, format.sampleRate));
+    }
+
+    const blockLength = format.blockSize * format.channelCount;
+    while (this.waveformBuffer.length >= blockLength) {
+      const samples = Int16Array.from(this.waveformBuffer.splice(0, blockLength), (value) =>
+        clamp(Math.round(value * 32767), -32768, 32767)
+      );
+      const frames = encodeWaveformBlock({
+        source,
+        channelCount: format.channelCount,
+        sampleRate: format.sampleRate,
+        seq: this.waveformSeq++,
+        samples,
+      });
+      for (const frame of frames) {
+        this.emitFrame(frame);
+      }
+    }
+  }
+
+  /**
+   * Current model state, for inspection
+   */
+  getState() {
+    return {
+      elapsedMs: this.elapsedMs,
+      targetSpeed: this.targetSpeed,
+      speed: this.speed,
+      anomaly: this.anomaly,
+      autoShutoff: this.autoShutoff,
+      anomalyMode: this.anomalyMode,
+      waveformSource: this.waveformSource,
+      status: this.getStatus(),
+    };
+  }
+
+  private processCommand(line: string): void {
+    if (!line) return;
+
+    if (line === 'VER?' || line === 'CAP?') {
+      if (this.options.answerQueries) {
+        this.emit(line === 'VER?' ? this.formatVersion() : this.formatCapabilities());
+      }
+      return;
+    }
+
+    const tagMatch = line.match(/^(.*?)\s+#(\d+)$/);
+    const command = tagMatch ? tagMatch[1] : line;
+    const tag = tagMatch ? ` #${tagMatch[2]}` : '';
+
+    const errorCode = this.executeCommand(command);
+    if (this.options.acknowledgeCommands) {
+      this.emit(errorCode ? `ERR${tag} ${errorCode}\n` : `OK${tag}\n`);
+    }
+  }
+
+  /**
+   * Apply a command
+   * @returns Error code, or null on success
+   */
+  private executeCommand(command: string): string | null {
+    const speedMatch = command.match(/^M(\d+(?:\.\d+)?)$/i);
+    if (speedMatch) {
+      const speed = parseFloat(speedMatch[1]);
+      const { maxSpeed, minSpeed, speedResolution } = this.options;
+      const steps = speed / speedResolution;
+      if (Math.abs(steps - Math.round(steps)) > 1e-6) return 'E_RANGE';
+      if (speed > maxSpeed || (speed > 0 && speed < minSpeed)) return 'E_RANGE';
+      this.targetSpeed = speed;
+      return null;
+    }
+
+    const sourceMatch = command.match(/^ASRC\s+(\S+)$/i);
+    if (sourceMatch) {
+      const source = sourceMatch[1].toLowerCase();
+      if (source !== 'imu' && source !== 'audio') return 'E_RANGE';
+      this.anomalyMode = source;
+      return null;
+    }
+
+    const waveMatch = command.match(/^WAVE\s+(\S+)$/i);
+    if (waveMatch) {
+      const source = waveMatch[1].toLowerCase();
+      if (source !== 'imu' && source !== 'audio' && source !== 'off') return 'E_RANGE';
+      this.waveformSource = source === 'off' ? null : source;
+      this.waveformBuffer = [];
+      this.waveformCarry = 0;
+      return null;
+    }
+
+    if (command === 'AOFF1') {
+      this.autoShutoff = true;
+    } else if (command === 'AOFF0') {
+      this.autoShutoff = false;
+    } else {
+      return 'E_UNKNOWN';
+    }
+    return null;
+  }
+
+  private formatVersion(): string {
+    return `VER fw=${this.options.firmwareVersion} proto=2\n`;
+  }
+
+  private formatCapabilities(): string {
+    const ack = this.options.acknowledgeCommands ? 1 : 0;
+    const { maxSpeed, minSpeed, speedResolution } = this.options;
+    return `CAP maxspeed=${maxSpeed} minspeed=${minSpeed} speedres=${speedResolution} cmds=M,AOFF,ASRC,WAVE sources=imu,audio ack=${ack}\n`;
+  }
+
+  private getStatus(): SimulatorMotorStatus {
+    return this.targetSpeed > 0 ? 'Running' : 'Stop';
+  }
+
+  private formatTelemetry(): string {
+    const reported = this.speed > 0
+      ? clamp(this.speed + this.gaussian() * this.options.speedNoise, 0, this.options.maxSpeed)
+      : 0;
+    const mode = this.anomalyMode ? ` mode: ${this.anomalyMode}` : '';
+    const autoShutoff = this.options.reportAutoShutoff ? ` AOFF: ${this.autoShutoff ? 1 : 0}` : '';
+    const extended = this.options.extendedTelemetry ? this.formatExtendedFields() : '';
+    const classes = this.options.anomalyClasses ? this.formatClassScores() : '';
+    return `Motor: ${this.getStatus()}  Speed: ${reported.toFixed(2)} Anomaly: ${this.anomaly}%${mode}${autoShutoff}${extended}${classes}\n`;
+  }
+
+  /**
+   * Per-class scores: a small noise floor while running plus the episodes of each class
+   */
+  private formatClassScores(): string {
+    const running = this.speed > 0;
+    return (Object.keys(FAULT_CLASS_KEYS) as SimulatorFaultClass[])
+      .map((fault) => {
+        const floor = running ? Math.abs(this.gaussian()) * this.options.baselineAnomaly : 0;
+        const score = clamp(Math.round(floor + this.episodeLevel(fault)), 0, 100);
+        return ` ${FAULT_CLASS_KEYS[fault]}: ${score}%`;
+      })
+      .join('');
+  }
+
+  private formatExtendedFields(): string {
+    const current = this.speed > 0
+      ? 0.1 + this.speed * 0.06 + this.anomaly * 0.005 + this.gaussian() * 0.01
+      : 0;
+    const voltage = 12 - current * 0.05 + this.gaussian() * 0.02;
+    const pwm = (this.speed / this.options.maxSpeed) * 100;
+    return ` Current: ${Math.max(0, current).toFixed(2)}A Voltage: ${voltage.toFixed(1)}V` +
+      ` Temp: ${this.temperature.toFixed(1)}C PWM: ${Math.round(pwm)}%`;
+  }
+
+  /**
+   * Anomaly contribution of the scripted episodes (of one fault class) at the current time
+   */
+  private episodeLevel(fault?: SimulatorFaultClass): number {
+    let level = 0;
+    for (const episode of this.episodes) {
+      if (fault && (episode.fault ?? 'imbalance') !== fault) continue;
+      const ramp = episode.rampMs ?? 1000;
+      const t = this.elapsedMs - episode.startMs;
+      if (t < 0 || t > ramp * 2 + episode.durationMs) continue;
+
+      let factor = 1;
+      if (t < ramp) {
+        factor = t / ramp;
+      } else if (t > ramp + episode.durationMs) {
+        factor = 1 - (t - ramp - episode.durationMs) / ramp;
+      }
+      level = Math.max(level, episode.peak * factor);
+    }
+    return level;
+  }
+
+  /**
+   * One sample per channel of the detector signal, in full scale units,
+   * advancing the shaft angle by one sample period
+   */
+  private sampleSignal(source: WaveformSource, sampleRate: number): number[] {
+    const theta = this.shaftAngle;
+    const t = this.waveformTime;
+    const load = this.speed / this.options.maxSpeed;
+    const imbalance = this.episodeLevel('imbalance') / 100;
+    const bearing = this.episodeLevel('bearingWear') / 100;
+    const airflow = this.episodeLevel('blockedAirflow') / 100;
+    const mount = this.episodeLevel('looseMount') / 100;
+    // Bearing defects excite a structural resonance once per ball pass (3.6×)
+    const bearingTone = bearing * (1 + Math.sin(3.6 * theta)) * Math.sin(2 * Math.PI * 120 * t);
+
+    // Wrap after 5 turns, where the 3.6× ball pass also completes whole cycles
+    this.shaftAngle = (theta + this.speed / sampleRate) % (10 * Math.PI);
+    this.waveformTime += 1 / sampleRate;
+
+    if (source === 'audio') {
+      const blades = load * (0.2 * Math.sin(5 * theta) + 0.08 * Math.sin(10 * theta));
+      const whine = load * 0.04 * Math.sin(24 * theta);
+      const noise = this.gaussian() * (0.01 + 0.25 * airflow * load);
+      return [blades + whine + 0.3 * bearingTone + 0.1 * mount * Math.sin(2 * theta) + noise];
+    }
+
+    const radial = load * (0.05 + 0.8 * imbalance);
+    const harmonics = load * 0.3 * mount;
+    const bladePass = load * 0.03 * Math.sin(5 * theta);
+    const x = radial * Math.sin(theta) + harmonics * Math.sin(2 * theta) + bladePass + 0.4 * bearingTone;
+    const y = radial * Math.cos(theta) + harmonics * Math.cos(2 * theta) + 0.4 * bearingTone;
+    const z = 1 + harmonics * Math.sin(3 * theta) + bladePass + 0.1 * airflow * load * this.gaussian();
+    return [x, y, z].map((g) => (g + this.gaussian() * 0.01) / IMU_FULL_SCALE);
+  }
+
+  private emit(line: string): void {
+    for (const listener of Array.from(this.listeners)) {
+      listener(line);
+    }
+  }
+
+  private emitFrame(frame: Uint8Array): void {
+    for (const listener of Array.from(this.frameListeners)) {
+      listener(frame);
+    }
+  }
+
+  /**
+   * Standard normal sample (Box-Muller)
+   */
+  private gaussian(): number {
+    const u = 1 - this.options.random();
+    const v = this.options.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
+
+const AMBIENT_TEMPERATURE = 25;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
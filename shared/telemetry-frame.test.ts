@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  crc16,
+  decodeFrame,
+  decodeTelemetryPayload,
+  encodeFrame,
+  encodeTelemetryFrame,
+  FRAME_MAX_PAYLOAD,
+  TELEMETRY_FRAME_TYPE,
+  type TelemetrySample,
+} from './telemetry-frame';
+
+const base: TelemetrySample = { status: 'Running', speed: 12.34, anomalyPercentage: 42, anomalyMode: 'imu' };
+const extended: TelemetrySample['extended'] = { motorCurrent: 1.234, busVoltage: 12.05, temperature: -5.5, pwmDuty: 64 };
+const classes: TelemetrySample['classes'] = { imbalance: 10, bearingWear: 20, blockedAirflow: 30, looseMount: 40 };
+
+function roundTrip(sample: TelemetrySample) {
+  const result = decodeFrame(encodeTelemetryFrame(sample));
+  if (!('frame' in result)) throw new Error(`Frame did not decode: ${JSON.stringify(result)}`);
+  return result.frame;
+}
+
+describe('crc16', () => {
+  it('matches the CRC-16/CCITT-FALSE check value', () => {
+    expect(crc16(new TextEncoder().encode('123456789'))).toBe(0x29b1);
+  });
+
+  it('covers only the given range', () => {
+    const data = new TextEncoder().encode('xx123456789yy');
+    expect(crc16(data, 2, 11)).toBe(0x29b1);
+  });
+});
+
+describe('telemetry frames', () => {
+  it.each([
+    ['base', { ...base }, 5],
+    ['extended', { ...base, extended }, 12],
+    ['classes', { ...base, classes }, 9],
+    ['extended and classes', { ...base, extended, classes }, 16],
+  ])('round-trips the %s payload', (_name, sample, payloadLength) => {
+    const frame = roundTrip(sample);
+    expect(frame.type).toBe(TELEMETRY_FRAME_TYPE);
+    expect(frame.payload).toHaveLength(payloadLength);
+    expect(frame.length).toBe(payloadLength + 5);
+    expect(decodeTelemetryPayload(frame.payload)).toEqual({ sample });
+  });
+
+  it('clamps values to the field ranges', () => {
+    const frame = roundTrip({ status: 'Stop', speed: -1, anomalyPercentage: 180 });
+    expect(decodeTelemetryPayload(frame.payload)).toEqual({
+      sample: { status: 'Stop', speed: 0, anomalyPercentage: 100, anomalyMode: undefined },
+    });
+  });
+
+  it('decodes a frame at an offset', () => {
+    const frame = encodeTelemetryFrame(base);
+    const data = new Uint8Array(frame.length + 3);
+    data.set(frame, 3);
+
+    const result = decodeFrame(data, 3);
+    expect('frame' in result && result.frame.length).toBe(frame.length);
+    expect(decodeFrame(data, 0)).toEqual({ error: 'sync' });
+  });
+
+  it('rejects a frame with a corrupted byte', () => {
+    const frame = encodeTelemetryFrame(base);
+    frame[4] ^= 0x01;
+    expect(decodeFrame(frame)).toEqual({ error: 'crc' });
+  });
+
+  it('rejects a frame with a corrupted CRC', () => {
+    const frame = encodeTelemetryFrame(base);
+    frame[frame.length - 1] ^= 0x80;
+    expect(decodeFrame(frame)).toEqual({ error: 'crc' });
+  });
+
+  it('waits for the rest of a truncated frame', () => {
+    const frame = encodeTelemetryFrame(base);
+    expect(decodeFrame(frame.subarray(0, 2))).toEqual({ incomplete: true });
+    expect(decodeFrame(frame.subarray(0, frame.length - 1))).toEqual({ incomplete: true });
+  });
+
+  it('rejects payloads of an unknown length', () => {
+    for (const length of [0, 4, 6, 13, 17]) {
+      expect(decodeTelemetryPayload(new Uint8Array(length))).toEqual({
+        error: `Invalid telemetry payload length: ${length}`,
+      });
+    }
+  });
+
+  it('rejects unknown status and source codes', () => {
+    expect(decodeTelemetryPayload(new Uint8Array([3, 0, 0, 0, 0]))).toEqual({ error: 'Invalid status code: 3' });
+    expect(decodeTelemetryPayload(new Uint8Array([0, 3, 0, 0, 0]))).toEqual({
+      error: 'Invalid anomaly source code: 3',
+    });
+  });
+
+  it('refuses payloads longer than the length byte allows', () => {
+    expect(() => encodeFrame(TELEMETRY_FRAME_TYPE, new Uint8Array(FRAME_MAX_PAYLOAD + 1))).toThrow(
+      'Frame payload too long: 256 bytes'
+    );
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Binary Telemetry Frames
+ *
+ * Compact alternative to the text telemetry line for high sample rates.
+ * Frames share the SPP characteristic with text lines; the sync byte never
+ * occurs in the ASCII text protocol, so the receiver detects frames per byte.
+ *
+ * Frame layout (multi-byte values little-endian):
+ *
+ *   offset  size  field
+ *   0       1     sync (0xA5)
+ *   1       1     type (TELEMETRY_FRAME_TYPE for telemetry samples)
+ *   2       1     payload length n (0-255)
+ *   3       n     payload
+ *   3+n     2     CRC-16/CCITT-FALSE over type, length and payload
+ *
+ * Telemetry payload (type 0x01): a 5 byte base, optionally followed by the
+ * 7 byte extended block and/or the 4 byte anomaly class block, in that order.
+ * The payload length (5, 9, 12 or 16) tells which blocks are present.
+ *
+ *   offset  size  field
+ *   0       u8    status (0 = Stop, 1 = Running, 2 = Error)
+ *   1       u8    anomaly source (0 = none, 1 = imu, 2 = audio)
+ *   2       u16   speed (0.01 rad/s)
+ *   4       u8    anomaly percentage
+ *   extended block:
+ *   +0      u16   motor current (mA)
+ *   +2      u16   bus voltage (10 mV)
+ *   +4      i16   temperature (0.1 °C)
+ *   +6      u8    PWM duty (%)
+ *   anomaly class block (each 0-100 %):
+ *   +0      u8    imbalance
+ *   +1      u8    bearing wear
+ *   +2      u8    blocked airflow
+ *   +3      u8    loose mount
+ *
+ * This module is the reference implementation for firmware: run
+ * encodeTelemetryFrame() in Node to generate frames to compare against.
+ */
+
+export const FRAME_SYNC = 0xa5;
+export const FRAME_HEADER_LENGTH = 3;
+export const FRAME_CRC_LENGTH = 2;
+export const FRAME_MAX_PAYLOAD = 255;
+
+export const TELEMETRY_FRAME_TYPE = 0x01;
+
+const BASE_BLOCK_LENGTH = 5;
+const EXTENDED_BLOCK_LENGTH = 7;
+const CLASS_BLOCK_LENGTH = 4;
+
+const STATUS_CODES = ['Stop', 'Running', 'Error'] as const;
+const SOURCE_CODES = [undefined, 'imu', 'audio'] as const;
+
+export interface TelemetrySample {
+  status: 'Running' | 'Stop' | 'Error';
+  speed: number; // rad/s
+  anomalyPercentage: number; // 0-100
+  anomalyMode?: 'imu' | 'audio';
+  /** Present together or not at all (extended payload) */
+  extended?: {
+    motorCurrent: number; // A
+    busVoltage: number; // V
+    temperature: number; // °C
+    pwmDuty: number; // %
+  };
+  /** Per-class anomaly scores (0-100), present together or not at all */
+  classes?: {
+    imbalance: number;
+    bearingWear: number;
+    blockedAirflow: number;
+    looseMount: number;
+  };
+}
+
+export interface DecodedFrame {
+  type: number;
+  payload: Uint8Array;
+  /** Total frame length in bytes, including sync and CRC */
+  length: number;
+}
+
+export type FrameDecodeResult =
+  | { frame: DecodedFrame }
+  | { incomplete: true }
+  | { error: 'crc' | 'sync' };
+
+/**
+ * CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF, no reflection, no xorout)
+ */
+export function crc16(data: Uint8Array, start = 0, end = data.length): number {
+  let crc = 0xffff;
+  for (let i = start; i < end; i++) {
+    crc ^= data[i] << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/**
+ * Wrap a payload into a frame
+ */
+export function encodeFrame(type: number, payload: Uint8Array): Uint8Array {
+  if (payload.length > FRAME_MAX_PAYLOAD) {
+    throw new Error(`Frame payload too long: ${payload.length} bytes`);
+  }
+
+  const frame = new Uint8Array(FRAME_HEADER_LENGTH + payload.length + FRAME_CRC_LENGTH);
+  frame[0] = FRAME_SYNC;
+  frame[1] = type;
+  frame[2] = payload.length;
+  frame.set(payload, FRAME_HEADER_LENGTH);
+
+  const crc = crc16(frame, 1, FRAME_HEADER_LENGTH + payload.length);
+  frame[frame.length - 2] = crc & 0xff;
+  frame[frame.length - 1] = crc >> 8;
+  return frame;
+}
+
+/**
+ * Try to decode a frame starting at offset (which must hold the sync byte)
+ */
+export function decodeFrame(data: Uint8Array, offset = 0): FrameDecodeResult {
+  if (data[offset] !== FRAME_SYNC) {
+    return { error: 'sync' };
+  }
+  if (data.length - offset < FRAME_HEADER_LENGTH) {
+    return { incomplete: true };
+  }
+
+  const payloadLength = data[offset + 2];
+  const length = FRAME_HEADER_LENGTH + payloadLength + FRAME_CRC_LENGTH;
+  if (data.length - offset < length) {
+    return { incomplete: true };
+  }
+
+  const crcOffset = offset + FRAME_HEADER_LENGTH + payloadLength;
+  const expected = data[crcOffset] | (data[crcOffset + 1] << 8);
+  if (crc16(data, offset + 1, crcOffset) !== expected) {
+    return { error: 'crc' };
+  }
+
+  return {
+    frame: {
+      type: data[offset + 1],
+      payload: data.subarray(offset + FRAME_HEADER_LENGTH, crcOffset),
+      length,
+    },
+  };
+}
+
+/**
+ * Encode a telemetry sample as a complete frame
+ */
+export function encodeTelemetryFrame(sample: TelemetrySample): Uint8Array {
+  const payload = new Uint8Array(
+    BASE_BLOCK_LENGTH +
+      (sample.extended ? EXTENDED_BLOCK_LENGTH : 0) +
+      (sample.classes ? CLASS_BLOCK_LENGTH : 0)
+  );
+  const view = new DataView(payload.buffer);
+
+  view.setUint8(0, STATUS_CODES.indexOf(sample.status));
+  view.setUint8(1, SOURCE_CODES.indexOf(sample.anomalyMode));
+  view.setUint16(2, toFixedPoint(sample.speed, 100, 0, 0xffff), true);
+  view.setUint8(4, toFixedPoint(sample.anomalyPercentage, 1, 0, 100));
+
+  let offset = BASE_BLOCK_LENGTH;
+  if (sample.extended) {
+    const { motorCurrent, busVoltage, temperature, pwmDuty } = sample.extended;
+    view.setUint16(offset, toFixedPoint(motorCurrent, 1000, 0, 0xffff), true);
+    view.setUint16(offset + 2, toFixedPoint(busVoltage, 100, 0, 0xffff), true);
+    view.setInt16(offset + 4, toFixedPoint(temperature, 10, -0x8000, 0x7fff), true);
+    view.setUint8(offset + 6, toFixedPoint(pwmDuty, 1, 0, 100));
+    offset += EXTENDED_BLOCK_LENGTH;
+  }
+  if (sample.classes) {
+    const { imbalance, bearingWear, blockedAirflow, looseMount } = sample.classes;
+    [imbalance, bearingWear, blockedAirflow, looseMount].forEach((score, index) => {
+      view.setUint8(offset + index, toFixedPoint(score, 1, 0, 100));
+    });
+  }
+
+  return encodeFrame(TELEMETRY_FRAME_TYPE, payload);
+}
+
+/**
+ * Decode a telemetry payload
+ * @returns Sample, or an error message for malformed payloads
+ */
+export function decodeTelemetryPayload(payload: Uint8Array): { sample: TelemetrySample } | { error: string } {
+  const optionalLength = payload.length - BASE_BLOCK_LENGTH;
+  const bothLength = EXTENDED_BLOCK_LENGTH + CLASS_BLOCK_LENGTH;
+  const hasExtended = optionalLength === EXTENDED_BLOCK_LENGTH || optionalLength === bothLength;
+  const hasClasses = optionalLength === CLASS_BLOCK_LENGTH || optionalLength === bothLength;
+  if (optionalLength !== 0 && !hasExtended && !hasClasses) {
+    return { error: `Invalid telemetry payload length: ${payload.length}` };
+  }
+
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const status = STATUS_CODES[view.getUint8(0)];
+  if (status === undefined) {
+    return { error: `Invalid status code: ${view.getUint8(0)}` };
+  }
+  const sourceCode = view.getUint8(1);
+  if (sourceCode >= SOURCE_CODES.length) {
+    return { error: `Invalid anomaly source code: ${sourceCode}` };
+  }
+
+  const sample: TelemetrySample = {
+    status,
+    speed: view.getUint16(2, true) / 100,
+    anomalyPercentage: view.getUint8(4),
+    anomalyMode: SOURCE_CODES[sourceCode],
+  };
+
+  let offset = BASE_BLOCK_LENGTH;
+  if (hasExtended) {
+    sample.extended = {
+      motorCurrent: view.getUint16(offset, true) / 1000,
+      busVoltage: view.getUint16(offset + 2, true) / 100,
+      temperature: view.getInt16(offset + 4, true) / 10,
+      pwmDuty: view.getUint8(offset + 6),
+    };
+    offset += EXTENDED_BLOCK_LENGTH;
+  }
+  if (hasClasses) {
+    sample.classes = {
+      imbalance: view.getUint8(offset),
+      bearingWear: view.getUint8(offset + 1),
+      blockedAirflow: view.getUint8(offset + 2),
+      looseMount: view.getUint8(offset + 3),
+    };
+  }
+  return { sample };
+}
+
+/**
+ * Express a sample as the equivalent text protocol tokens, so binary and text
+ * telemetry go through the same schema validation
+ */
+export function telemetrySampleToTokens(sample: TelemetrySample): Array<[key: string, value: string]> {
+  const tokens: Array<[string, string]> = [
+    ['Motor', sample.status],
+    ['Speed', sample.speed.toFixed(2)],
+    ['Anomaly', `${sample.anomalyPercentage}%`],
+  ];
+  if (sample.anomalyMode) {
+    tokens.push(['mode', sample.anomalyMode]);
+  }
+  if (sample.extended) {
+    const { motorCurrent, busVoltage, temperature, pwmDuty } = sample.extended;
+    tokens.push(
+      ['Current', `${motorCurrent.toFixed(3)}A`],
+      ['Voltage', `${busVoltage.toFixed(2)}V`],
+      ['Temp', `${temperature.toFixed(1)}C`],
+      ['PWM', `${pwmDuty}%`]
+    );
+  }
+  if (sample.classes) {
+    const { imbalance, bearingWear, blockedAirflow, looseMount } = sample.classes;
+    tokens.push(
+      ['Imbalance', `${imbalance}%`],
+      ['Bearing', `${bearingWear}%`],
+      ['Airflow', `${blockedAirflow}%`],
+      ['Mount', `${looseMount}%`]
+    );
+  }
+  return tokens;
+}
+
+/**
+ * Format bytes as hex for reference dumps ("a5 01 05 ...")
+ */
+export function formatFrameHex(frame: Uint8Array): string {
+  return Array.from(frame, (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+}
+
+function toFixedPoint(value: number, scale: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Math.round(value * scale)));
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFrame } from './telemetry-frame';
+import {
+  decodeWaveformChunk,
+  encodeWaveformBlock,
+  getChunkCapacity,
+  WAVEFORM_FRAME_TYPE,
+  type WaveformBlockData,
+  type WaveformChunk,
+} from './waveform-frame';
+
+function decodeChunks(frames: Uint8Array[]): WaveformChunk[] {
+  return frames.map((bytes) => {
+    const result = decodeFrame(bytes);
+    if (!('frame' in result) || result.frame.type !== WAVEFORM_FRAME_TYPE) {
+      throw new Error('Not a waveform frame');
+    }
+    const decoded = decodeWaveformChunk(result.frame.payload);
+    if ('error' in decoded) throw new Error(decoded.error);
+    return decoded.chunk;
+  });
+}
+
+function chunkPayload(header: number[], samples = 0): Uint8Array {
+  const payload = new Uint8Array(8 + samples * 2);
+  payload.set(header);
+  return payload;
+}
+
+describe('waveform frames', () => {
+  it('fills chunks with whole sample frames', () => {
+    expect(getChunkCapacity(1)).toBe(123);
+    expect(getChunkCapacity(3)).toBe(123);
+    expect(getChunkCapacity(2)).toBe(122);
+  });
+
+  it('round-trips a block split into chunks', () => {
+    const samples = Int16Array.from({ length: 300 }, (_, i) => (i % 2 ? -1 : 1) * i * 100);
+    const block: WaveformBlockData = { source: 'imu', channelCount: 3, sampleRate: 1600, seq: 65537, samples };
+
+    const chunks = decodeChunks(encodeWaveformBlock(block));
+
+    expect(chunks.map((chunk) => [chunk.index, chunk.count, chunk.samples.length])).toEqual([
+      [0, 3, 123],
+      [1, 3, 123],
+      [2, 3, 54],
+    ]);
+    expect(chunks[0]).toMatchObject({ source: 'imu', channelCount: 3, sampleRate: 1600, seq: 1 });
+    expect(Array.from(chunks.flatMap((chunk) => Array.from(chunk.samples)))).toEqual(Array.from(samples));
+  });
+
+  it('sends an empty block as one chunk', () => {
+    const chunks = decodeChunks(
+      encodeWaveformBlock({ source: 'audio', channelCount: 1, sampleRate: 8000, seq: 0, samples: new Int16Array(0) })
+    );
+    expect(chunks).toMatchObject([{ index: 0, count: 1, samples: new Int16Array(0) }]);
+  });
+
+  it('refuses blocks that do not split into whole frames', () => {
+    expect(() =>
+      encodeWaveformBlock({ source: 'imu', channelCount: 3, sampleRate: 100, seq: 0, samples: new Int16Array(4) })
+    ).toThrow('Invalid waveform block: 4 samples on 3 channels');
+  });
+
+  it('rejects malformed chunk payloads', () => {
+    expect(decodeWaveformChunk(new Uint8Array(7))).toEqual({ error: 'Waveform chunk too short: 7 bytes' });
+    expect(decodeWaveformChunk(chunkPayload([3, 1, 100, 0, 0, 0, 0, 1]))).toEqual({
+      error: 'Invalid waveform source code: 3',
+    });
+    expect(decodeWaveformChunk(chunkPayload([1, 4, 100, 0, 0, 0, 0, 1]))).toEqual({
+      error: 'Invalid waveform channel count: 4',
+    });
+    expect(decodeWaveformChunk(chunkPayload([1, 1, 0, 0, 0, 0, 0, 1]))).toEqual({
+      error: 'Invalid waveform sample rate: 0',
+    });
+    expect(decodeWaveformChunk(chunkPayload([1, 1, 100, 0, 0, 0, 2, 2]))).toEqual({
+      error: 'Invalid waveform chunk 3 of 2',
+    });
+    expect(decodeWaveformChunk(chunkPayload([1, 3, 100, 0, 0, 0, 0, 1], 4))).toEqual({
+      error: 'Waveform chunk of 8 bytes is not whole frames of 3 channels',
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Waveform Frames
+ *
+ * Raw detector signal (IMU axes or audio samples) streamed for engineering
+ * views. Each block of samples is split into chunks that fit one binary
+ * frame (see telemetry-frame.ts) and reassembled by the receiver; a block
+ * with a missing chunk is dropped as a whole.
+ *
+ * Chunk payload (type 0x02, multi-byte values little-endian):
+ *
+ *   offset  size  field
+ *   0       u8    source (1 = imu, 2 = audio)
+ *   1       u8    channel count (1-3; IMU sends x, y, z)
+ *   2       u16   sample rate (Hz, per channel)
+ *   4       u16   block sequence number (wraps)
+ *   6       u8    chunk index
+ *   7       u8    chunk count
+ *   8       i16[] samples, interleaved by channel, full scale = ±32768
+ *
+ * Every chunk holds whole sample frames (one sample per channel). Streaming
+ * is switched with "WAVE <imu|audio|off>".
+ */
+
+import { encodeFrame, FRAME_MAX_PAYLOAD } from './telemetry-frame';
+
+export const WAVEFORM_FRAME_TYPE = 0x02;
+
+const CHUNK_HEADER_LENGTH = 8;
+const MAX_CHANNELS = 3;
+const SOURCE_CODES = [undefined, 'imu', 'audio'] as const;
+
+export type WaveformSource = 'imu' | 'audio';
+
+export interface WaveformChunk {
+  source: WaveformSource;
+  channelCount: number;
+  sampleRate: number;
+  seq: number;
+  index: number;
+  count: number;
+  /** Interleaved samples of this chunk (copied out of the frame) */
+  samples: Int16Array;
+}
+
+export interface WaveformBlockData {
+  source: WaveformSource;
+  channelCount: number;
+  sampleRate: number;
+  seq: number;
+  /** Interleaved samples of the whole block */
+  samples: Int16Array;
+}
+
+/**
+ * Samples that fit one chunk, rounded down to whole sample frames
+ */
+export function getChunkCapacity(channelCount: number): number {
+  const perChannel = Math.floor((FRAME_MAX_PAYLOAD - CHUNK_HEADER_LENGTH) / (2 * channelCount));
+  return perChannel * channelCount;
+}
+
+/**
+ * Split a block into complete waveform frames
+ */
+export function encodeWaveformBlock(block: WaveformBlockData): Uint8Array[] {
+  const { channelCount, samples } = block;
+  if (channelCount < 1 || channelCount > MAX_CHANNELS || samples.length % channelCount !== 0) {
+    throw new Error(`Invalid waveform block: ${samples.length} samples on ${channelCount} channels`);
+  }
+
+  const capacity = getChunkCapacity(channelCount);
+  const count = Math.max(1, Math.ceil(samples.length / capacity));
+  if (count > 0xff) {
+    throw new Error(`Waveform block too long: ${samples.length} samples`);
+  }
+
+  const frames: Uint8Array[] = [];
+  for (let index = 0; index < count; index++) {
+    const chunk = samples.subarray(index * capacity, (index + 1) * capacity);
+    const payload = new Uint8Array(CHUNK_HEADER_LENGTH + chunk.length * 2);
+    const view = new DataView(payload.buffer);
+    view.setUint8(0, SOURCE_CODES.indexOf(block.source));
+    view.setUint8(1, channelCount);
+    view.setUint16(2, block.sampleRate, true);
+    view.setUint16(4, block.seq & 0xffff, true);
+    view.setUint8(6, index);
+    view.setUint8(7, count);
+    chunk.forEach((sample, sampleIndex) => {
+      view.setInt16(CHUNK_HEADER_LENGTH + sampleIndex * 2, sample, true);
+    });
+    frames.push(encodeFrame(WAVEFORM_FRAME_TYPE, payload));
+  }
+  return frames;
+}
+
+/**
+ * Decode a waveform chunk payload
+ * @returns Chunk, or an error message for malformed payloads
+ */
+export function decodeWaveformChunk(payload: Uint8Array): { chunk: WaveformChunk } | { error: string } {
+  if (payload.length < CHUNK_HEADER_LENGTH) {
+    return { error: `Waveform chunk too short: ${payload.length} bytes` };
+  }
+
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const source = SOURCE_CODES[view.getUint8(0)];
+  if (!source) {
+    return { error: `Invalid waveform source code: ${view.getUint8(0)}` };
+  }
+  const channelCount = view.getUint8(1);
+  if (channelCount < 1 || channelCount > MAX_CHANNELS) {
+    return { error: `Invalid waveform channel count: ${channelCount}` };
+  }
+  const sampleRate = view.getUint16(2, true);
+  if (sampleRate === 0) {
+    return { error: 'Invalid waveform sample rate: 0' };
+  }
+  const index = view.getUint8(6);
+  const count = view.getUint8(7);
+  if (index >= count) {
+    return { error: `Invalid waveform chunk ${index + 1} of ${count}` };
+  }
+  const sampleBytes = payload.length - CHUNK_HEADER_LENGTH;
+  if (sampleBytes % (2 * channelCount) !== 0) {
+    return { error: `Waveform chunk of ${sampleBytes} bytes is not whole frames of ${channelCount} channels` };
+  }
+
+  const samples = new Int16Array(sampleBytes / 2);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(CHUNK_HEADER_LENGTH + i * 2, true);
+  }
+  return {
+    chunk: { source, channelCount, sampleRate, seq: view.getUint16(4, true), index, count, samples },
+  };
+}